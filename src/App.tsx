@@ -7,9 +7,17 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import PlanTrip from "./pages/PlanTrip";
 import Trips from "./pages/Trips";
+import TripDetail from "./pages/TripDetail";
 import Diary from "./pages/Diary";
 import Discover from "./pages/Discover";
+import MapView from "./pages/MapView";
+import Invite from "./pages/Invite";
+import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
+import SyncStatusIndicator from "./components/sync/SyncStatusIndicator";
+import AuthProvider from "./components/auth/AuthProvider";
+import ProtectedRoute from "./components/auth/ProtectedRoute";
+import CommandPalette from "./components/command/CommandPalette";
 
 const queryClient = new QueryClient();
 
@@ -19,16 +27,24 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/plan-trip" element={<PlanTrip />} />
-          <Route path="/trips" element={<Trips />} />
-          <Route path="/diary" element={<Diary />} />
-          <Route path="/discover" element={<Discover />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <SyncStatusIndicator />
+          <CommandPalette />
+          <Routes>
+            <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/plan-trip" element={<ProtectedRoute><PlanTrip /></ProtectedRoute>} />
+            <Route path="/trips" element={<ProtectedRoute><Trips /></ProtectedRoute>} />
+            <Route path="/trips/:id" element={<ProtectedRoute><TripDetail /></ProtectedRoute>} />
+            <Route path="/diary" element={<ProtectedRoute><Diary /></ProtectedRoute>} />
+            <Route path="/discover" element={<ProtectedRoute><Discover /></ProtectedRoute>} />
+            <Route path="/map" element={<ProtectedRoute><MapView /></ProtectedRoute>} />
+            <Route path="/invite/:token" element={<ProtectedRoute><Invite /></ProtectedRoute>} />
+            <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
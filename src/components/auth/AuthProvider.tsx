@@ -0,0 +1,81 @@
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { AuthContext, type AuthState, takeRedirect } from "@/hooks/useAuth";
+import { clearOfflineData, isNetworkError } from "@/lib/offline/sync";
+
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Distinguishes a deliberate sign-out from the session being revoked or expiring
+  const signingOut = useRef(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, next) => {
+      setSession(next);
+      setLoading(false);
+
+      if (event === "SIGNED_IN") {
+        const redirect = takeRedirect();
+        if (redirect) navigate(redirect, { replace: true });
+      }
+      if (event === "SIGNED_OUT") {
+        // Never show one user's cached data to the next
+        queryClient.clear();
+        clearOfflineData().catch((error) => console.error('Error clearing offline data:', error));
+        if (!signingOut.current) toast.error("Your session has expired. Please sign in again.");
+        signingOut.current = false;
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate, queryClient]);
+
+  // Background tabs throttle the client's refresh timer, so re-check on return
+  useEffect(() => {
+    if (!session?.expires_at) return;
+    const expiresAt = session.expires_at * 1000;
+
+    const checkExpiry = async () => {
+      if (document.visibilityState !== "visible" || Date.now() < expiresAt) return;
+      const { error } = await supabase.auth.refreshSession();
+      // Offline we keep the stale session so cached pages stay usable
+      if (error && !isNetworkError(error)) await supabase.auth.signOut({ scope: "local" });
+    };
+
+    document.addEventListener("visibilitychange", checkExpiry);
+    window.addEventListener("online", checkExpiry);
+    return () => {
+      document.removeEventListener("visibilitychange", checkExpiry);
+      window.removeEventListener("online", checkExpiry);
+    };
+  }, [session?.expires_at]);
+
+  const signOut = useCallback(async () => {
+    signingOut.current = true;
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      signingOut.current = false;
+      throw error;
+    }
+  }, []);
+
+  const value = useMemo<AuthState>(
+    () => ({ session, user: session?.user ?? null, loading, signOut }),
+    [session, loading, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,32 @@
+import { type ReactNode, useEffect } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Plane } from "lucide-react";
+import { rememberRedirect, useAuth } from "@/hooks/useAuth";
+
+// Renders children for signed-in users; everyone else goes to /auth and comes back after login
+const ProtectedRoute = ({ children }: { children: ReactNode }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+  const from = `${location.pathname}${location.search}${location.hash}`;
+
+  useEffect(() => {
+    if (!loading && !user) rememberRedirect(from);
+  }, [loading, user, from]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <Plane className="h-12 w-12 animate-pulse mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/auth" replace state={{ from }} />;
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { BookOpen, Calendar, Globe, Home, MapPin, Plus, Sparkles, UserRound } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useDestinations, useDiaryEntries, useTrips } from "@/hooks/useEntities";
+import type { PlanTripPrefill } from "@/lib/trips";
+
+export const OPEN_COMMAND_PALETTE_EVENT = "tripsense:open-command-palette";
+
+const PAGES = [
+  { label: "Home", path: "/", icon: Home },
+  { label: "My Trips", path: "/trips", icon: Calendar },
+  { label: "Travel Diary", path: "/diary", icon: BookOpen },
+  { label: "Discover", path: "/discover", icon: Sparkles },
+  { label: "Travel Map", path: "/map", icon: Globe },
+  { label: "Travel Profile", path: "/profile", icon: UserRound },
+];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Results are only loaded while the palette is open
+const PaletteResults = ({ search, run }: { search: string; run: (path: string, state?: unknown) => void }) => {
+  const { data: trips = [] } = useTrips();
+  const { data: entries = [] } = useDiaryEntries();
+  const { data: destinations = [] } = useDestinations();
+  const query = search.trim();
+
+  return (
+    <>
+      <CommandGroup heading="Actions">
+        {query && (
+          <CommandItem
+            value={`new trip to ${query}`}
+            onSelect={() => run('/plan-trip', { destination: query } satisfies PlanTripPrefill)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New trip to {query}
+          </CommandItem>
+        )}
+        {!query && (
+          <CommandItem value="new trip plan" onSelect={() => run('/plan-trip')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New trip...
+          </CommandItem>
+        )}
+        <CommandItem value="new diary entry write" onSelect={() => run('/diary', { newEntry: true })}>
+          <BookOpen className="mr-2 h-4 w-4" />
+          New diary entry
+        </CommandItem>
+        {PAGES.map((page) => (
+          <CommandItem key={page.path} value={`go to ${page.label}`} onSelect={() => run(page.path)}>
+            <page.icon className="mr-2 h-4 w-4" />
+            Go to {page.label}
+          </CommandItem>
+        ))}
+      </CommandGroup>
+
+      {trips.length > 0 && (
+        <>
+          <CommandSeparator />
+          <CommandGroup heading="Trips">
+            {trips.map((trip) => (
+              <CommandItem
+                key={trip.id}
+                value={`trip ${trip.destination} ${trip.travel_type} ${trip.id}`}
+                onSelect={() => run(`/trips/${trip.id}`)}
+              >
+                <MapPin className="mr-2 h-4 w-4" />
+                <span className="truncate">{trip.destination}</span>
+                <CommandShortcut>{formatDate(trip.start_date)}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          <CommandSeparator />
+          <CommandGroup heading="Diary">
+            {entries.map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`diary ${entry.title} ${entry.location ?? ""} ${entry.id}`}
+                onSelect={() => run(`/diary#entry-${entry.id}`)}
+              >
+                <BookOpen className="mr-2 h-4 w-4" />
+                <span className="truncate">{entry.title}</span>
+                <CommandShortcut>{formatDate(entry.entry_date)}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </>
+      )}
+
+      {destinations.length > 0 && (
+        <>
+          <CommandSeparator />
+          <CommandGroup heading="Saved destinations">
+            {destinations.map((dest) => (
+              <CommandItem
+                key={dest.id}
+                value={`destination ${dest.destination_name} ${dest.location} ${dest.category ?? ""} ${dest.id}`}
+                onSelect={() => run(`/discover#destination-${dest.id}`)}
+              >
+                <Sparkles className="mr-2 h-4 w-4" />
+                <span className="truncate">{dest.destination_name}</span>
+                <CommandShortcut className="truncate">{dest.location}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </>
+      )}
+    </>
+  );
+};
+
+// Ctrl/Cmd+K palette for jumping to any trip, diary entry or destination. Other components
+// can open it by dispatching OPEN_COMMAND_PALETTE_EVENT on window.
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    const onOpen = () => setOpen(true);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE_EVENT, onOpen);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE_EVENT, onOpen);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!open) setSearch("");
+  }, [open]);
+
+  if (!user) return null;
+
+  const run = (path: string, state?: unknown) => {
+    setOpen(false);
+    navigate(path, { state });
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen}>
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder="Search trips, diary entries and destinations..."
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+        {open && <PaletteResults search={search} run={run} />}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Coins, Download, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { parseRatesFile, serializeRatesCsv } from "@/lib/currency";
+
+const ExchangeRatesDialog = () => {
+  const { rates, setRates, resetRates } = useExchangeRates();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<[string, string][]>([]);
+  const [newCode, setNewCode] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(Object.entries(rates.rates).map(([code, rate]) => [code, String(rate)]));
+    }
+  }, [open, rates]);
+
+  const updateRate = (code: string, value: string) => {
+    setDraft(prev => prev.map(([c, rate]) => (c === code ? [c, value] : [c, rate])));
+  };
+
+  const addCurrency = () => {
+    const code = newCode.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      toast.error("Use a 3-letter currency code");
+      return;
+    }
+    if (draft.some(([c]) => c === code)) {
+      toast.error(`${code} is already in the table`);
+      return;
+    }
+    setDraft([...draft, [code, ""]]);
+    setNewCode("");
+  };
+
+  const saveDraft = () => {
+    const next: Record<string, number> = {};
+    for (const [code, value] of draft) {
+      const rate = parseFloat(value);
+      if (!Number.isFinite(rate) || rate <= 0) {
+        toast.error(`Enter a positive rate for ${code}`);
+        return;
+      }
+      next[code] = rate;
+    }
+    setRates({ base: rates.base, rates: { ...next, [rates.base]: 1 }, updated_at: new Date().toISOString() });
+    toast.success("Exchange rates saved");
+    setOpen(false);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseRatesFile(await file.text(), file.name);
+      setRates(imported);
+      toast.success(`Imported ${Object.keys(imported.rates).length} rates`);
+    } catch (error: any) {
+      console.error('Error importing rates:', error);
+      toast.error(error.message || "Failed to import rates");
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([serializeRatesCsv(rates)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "exchange-rates.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Coins className="h-4 w-4 mr-2" />
+          Exchange Rates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exchange Rates</DialogTitle>
+          <DialogDescription>
+            Units of each currency per 1 {rates.base}. Last updated{" "}
+            {new Date(rates.updated_at).toLocaleDateString()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON/CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="ghost" size="sm" onClick={resetRates}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {draft.map(([code, value]) => (
+            <div key={code} className="flex items-center gap-2">
+              <Label htmlFor={`rate-${code}`} className="w-12 font-mono">{code}</Label>
+              <Input
+                id={`rate-${code}`}
+                type="number"
+                min={0}
+                step="any"
+                value={value}
+                disabled={code === rates.base}
+                onChange={(e) => updateRate(code, e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={code === rates.base}
+                onClick={() => setDraft(draft.filter(([c]) => c !== code))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newCode}
+            maxLength={3}
+            placeholder="Add currency (e.g. IDR)"
+            onChange={(e) => setNewCode(e.target.value.toUpperCase())}
+          />
+          <Button variant="outline" onClick={addCurrency}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button onClick={saveDraft} className="w-full">Save Rates</Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExchangeRatesDialog;
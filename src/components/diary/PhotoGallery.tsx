@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Clock, MapPin } from "lucide-react";
+import type { DiaryPhoto } from "@/lib/diaryMedia";
+
+interface PhotoGalleryProps {
+  photos: DiaryPhoto[];
+  title: string;
+}
+
+const formatTakenAt = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const PhotoGallery = ({ photos, title }: PhotoGalleryProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const current = openIndex === null ? null : photos[openIndex];
+
+  const step = (direction: -1 | 1) =>
+    setOpenIndex(index => (index === null ? null : (index + direction + photos.length) % photos.length));
+
+  useEffect(() => {
+    if (openIndex === null) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft") step(-1);
+      if (event.key === "ArrowRight") step(1);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [openIndex, photos.length]);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <>
+      <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+        {photos.map((photo, index) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="aspect-square overflow-hidden rounded-md bg-muted focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <img
+              src={photo.thumbnailUrl}
+              alt={`${title} photo ${index + 1}`}
+              loading="lazy"
+              className="h-full w-full object-cover transition-transform hover:scale-105"
+            />
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={current !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-5xl">
+          {current && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{title}</DialogTitle>
+                <DialogDescription className="flex flex-wrap gap-4">
+                  <span>{(openIndex ?? 0) + 1} of {photos.length}</span>
+                  {current.taken_at && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatTakenAt(current.taken_at)}
+                    </span>
+                  )}
+                  {current.latitude !== null && current.longitude !== null && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {current.latitude.toFixed(5)}, {current.longitude.toFixed(5)}
+                    </span>
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="relative flex items-center justify-center">
+                <img
+                  src={current.url}
+                  alt={`${title} photo ${(openIndex ?? 0) + 1}`}
+                  className="max-h-[70vh] w-auto rounded-md object-contain"
+                />
+                {photos.length > 1 && (
+                  <>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute left-2"
+                      onClick={() => step(-1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-2"
+                      onClick={() => step(1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PhotoGallery;
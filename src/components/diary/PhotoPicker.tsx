@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ImagePlus, X } from "lucide-react";
+import { MAX_PHOTOS_PER_ENTRY } from "@/lib/diaryMedia";
+
+interface PhotoPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  // Photos already stored on the entry count towards the limit
+  existingCount?: number;
+}
+
+const PhotoPicker = ({ files, onChange, existingCount = 0 }: PhotoPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const addFiles = (selected: FileList | null) => {
+    const images = Array.from(selected ?? []).filter(file => file.type.startsWith("image/"));
+    const room = MAX_PHOTOS_PER_ENTRY - existingCount - files.length;
+    if (images.length > room) {
+      toast.error(`You can attach up to ${MAX_PHOTOS_PER_ENTRY} photos per entry`);
+    }
+    onChange([...files, ...images.slice(0, Math.max(room, 0))]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+      {files.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="relative aspect-square overflow-hidden rounded-md bg-muted">
+              <img src={previews[index]} alt={file.name} className="h-full w-full object-cover" />
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+        <ImagePlus className="h-4 w-4 mr-2" />
+        Add Photos
+      </Button>
+    </div>
+  );
+};
+
+export default PhotoPicker;
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Check, Loader2, Plus, Sparkles, Wand2 } from "lucide-react";
+import { type DestinationSuggestion, fetchDestinationSuggestions, suggestionKey } from "@/lib/ai/suggestions";
+import { type AiRequestError, toAiError } from "@/lib/ai/errors";
+import { type Destination, interestsForCategory, toDestinationStatus } from "@/lib/destinations";
+import { INTEREST_OPTIONS, type Trip } from "@/lib/trips";
+import { toAiProfile } from "@/lib/travelProfile";
+import { useTravelProfile } from "@/hooks/useTravelProfile";
+
+interface SuggestionsPanelProps {
+  destinations: Destination[];
+  trips: Trip[];
+  onSave: (suggestion: DestinationSuggestion) => Promise<void>;
+}
+
+const SuggestionsPanel = ({ destinations, trips, onSave }: SuggestionsPanelProps) => {
+  const { data: profile } = useTravelProfile();
+  // Start from the interests implied by what the user has already saved
+  const [interests, setInterests] = useState<string[]>(() => [
+    ...new Set(destinations.flatMap((dest) => interestsForCategory(dest.category))),
+  ]);
+  const [suggestions, setSuggestions] = useState<DestinationSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AiRequestError | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const savedKeys = new Set(destinations.map((dest) => suggestionKey(dest.destination_name, dest.location)));
+
+  const toggleInterest = (interest: string) =>
+    setInterests((current) =>
+      current.includes(interest) ? current.filter((item) => item !== interest) : [...current, interest]
+    );
+
+  const getSuggestions = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const results = await fetchDestinationSuggestions(
+        {
+          savedDestinations: destinations.map((dest) => ({
+            name: dest.destination_name,
+            location: dest.location,
+            category: dest.category,
+            status: toDestinationStatus(dest.status),
+          })),
+          pastTrips: trips.map((trip) => ({ destination: trip.destination, travelType: trip.travel_type, status: trip.status })),
+          interests,
+          profile: toAiProfile(profile),
+        },
+        { signal: controller.signal }
+      );
+      setSuggestions(results);
+    } catch (raw) {
+      const aiError = toAiError(raw);
+      if (aiError.kind !== "aborted") {
+        console.error('Error fetching destination suggestions:', raw);
+        setError(aiError);
+      }
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  };
+
+  const save = async (suggestion: DestinationSuggestion) => {
+    const key = suggestionKey(suggestion.name, suggestion.location);
+    setSavingKey(key);
+    try {
+      await onSave(suggestion);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-primary/10 to-secondary/10">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5 text-primary" />
+          Hidden gems for you
+        </CardTitle>
+        <CardDescription>
+          AI suggestions based on your saved places, past trips and interests
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {INTEREST_OPTIONS.map((interest) => (
+            <Badge
+              key={interest}
+              variant={interests.includes(interest) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleInterest(interest)}
+            >
+              {interest}
+            </Badge>
+          ))}
+        </div>
+
+        <Button onClick={getSuggestions} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          {loading ? "Finding hidden gems..." : suggestions.length > 0 ? "Suggest more" : "Suggest destinations"}
+        </Button>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Couldn't get suggestions</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {suggestions.map((suggestion) => {
+              const key = suggestionKey(suggestion.name, suggestion.location);
+              const saved = savedKeys.has(key);
+              return (
+                <div key={key} className="rounded-lg border bg-background/80 p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold">{suggestion.name}</p>
+                      <p className="text-sm text-muted-foreground">{suggestion.location}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={saved ? "secondary" : "default"}
+                      disabled={saved || savingKey === key}
+                      onClick={() => save(suggestion)}
+                    >
+                      {saved ? <Check className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                      {saved ? "Saved" : "Save"}
+                    </Button>
+                  </div>
+                  {suggestion.category && <Badge variant="outline">{suggestion.category}</Badge>}
+                  <p className="text-sm">{suggestion.description}</p>
+                  {suggestion.reason && <p className="text-xs text-muted-foreground italic">{suggestion.reason}</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SuggestionsPanel;
@@ -0,0 +1,386 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+import {
+  EXPENSE_CATEGORIES,
+  SPLIT_MODE_LABELS,
+  type Expense,
+  type ExpenseCategory,
+  type SplitMode,
+  expenseFormSchema,
+  summarizeExpenses,
+  toExpense,
+} from "@/lib/expenses";
+import { toJson } from "@/lib/json";
+import { type SplitInputs, participantsOf, splitError, splitsFromInputs } from "@/lib/settlement";
+import { todayIsoDate } from "@/lib/dates";
+import { convert, formatMoney } from "@/lib/currency";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useAuth } from "@/hooks/useAuth";
+import type { Trip } from "@/lib/trips";
+import SplitEditor from "@/components/expenses/SplitEditor";
+import ExchangeRatesDialog from "@/components/currency/ExchangeRatesDialog";
+import SettleUpPanel from "@/components/expenses/SettleUpPanel";
+
+interface ExpensesPanelProps {
+  trip: Trip;
+  // Viewers of a shared trip can see expenses but not change them
+  readOnly?: boolean;
+}
+
+const emptyForm = (currency: string) => ({
+  amount: "",
+  currency,
+  category: "food" as ExpenseCategory,
+  expense_date: todayIsoDate(),
+  payer: "",
+  description: "",
+  split_mode: "equal" as SplitMode,
+  split_inputs: {} as SplitInputs,
+});
+
+const ExpensesPanel = ({ trip, readOnly = false }: ExpensesPanelProps) => {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(() => emptyForm(trip.currency));
+  const { rates } = useExchangeRates();
+  // Group trips split each expense between participants and settle up at the end
+  const isGroup = trip.travel_type === 'group';
+  const participants = participantsOf(expenses);
+
+  useEffect(() => {
+    fetchExpenses();
+  }, [trip.id]);
+
+  // New expenses default to the trip's currency, including after it is edited
+  useEffect(() => {
+    setForm(prev => ({ ...prev, currency: trip.currency }));
+  }, [trip.currency]);
+
+  const fetchExpenses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*')
+        .eq('trip_id', trip.id)
+        .order('expense_date', { ascending: false });
+
+      if (error) throw error;
+      setExpenses((data || []).map(toExpense));
+    } catch (error: any) {
+      console.error('Error fetching expenses:', error);
+      toast.error("Failed to load expenses");
+    }
+  };
+
+  const createExpense = async () => {
+    const result = expenseFormSchema.safeParse(form);
+    if (!result.success) {
+      toast.error(result.error.issues[0].message);
+      return;
+    }
+
+    const splits = isGroup ? splitsFromInputs(form.split_mode, form.split_inputs) : [];
+    const invalidSplit = isGroup && splitError(result.data.amount, form.split_mode, splits);
+    if (invalidSplit) {
+      toast.error(invalidSplit);
+      return;
+    }
+
+    try {
+      if (!user) throw new Error("Not authenticated");
+
+      const { amount, currency, category, expense_date, payer, description } = result.data;
+      const { error } = await supabase.from('expenses').insert({
+        amount,
+        currency,
+        category,
+        expense_date,
+        payer,
+        description,
+        split_mode: form.split_mode,
+        splits: toJson(splits),
+        trip_id: trip.id,
+        user_id: user.id,
+      });
+
+      if (error) throw error;
+      toast.success("Expense added");
+      setDialogOpen(false);
+      setForm(emptyForm(trip.currency));
+      fetchExpenses();
+    } catch (error: any) {
+      console.error('Error creating expense:', error);
+      toast.error(error.message || "Failed to add expense");
+    }
+  };
+
+  // New group expenses start out shared equally by everyone on the ledger
+  const openDialog = (open: boolean) => {
+    if (open && isGroup && Object.keys(form.split_inputs).length === 0) {
+      setForm({ ...form, split_inputs: Object.fromEntries(participants.map(participant => [participant, "1"])) });
+    }
+    setDialogOpen(open);
+  };
+
+  const deleteExpense = async (id: string) => {
+    try {
+      const { error } = await supabase.from('expenses').delete().eq('id', id);
+      if (error) throw error;
+      toast.success("Expense deleted");
+      setExpenses(expenses.filter(expense => expense.id !== id));
+    } catch (error: any) {
+      console.error('Error deleting expense:', error);
+      toast.error("Failed to delete expense");
+    }
+  };
+
+  const money = (value: number) => formatMoney(value, trip.currency);
+
+  // Totals are in the trip's currency; expenses without a known rate are left out
+  const toTripCurrency = (amount: number, currency: string) => convert(amount, currency, trip.currency, rates);
+  const converted = expenses.map(expense => ({
+    ...expense,
+    amount: toTripCurrency(Number(expense.amount), expense.currency),
+  }));
+  const unconvertible = [...new Set(converted.filter(e => e.amount === null).map(e => e.currency))];
+  const summary = summarizeExpenses(
+    converted.flatMap(expense => (expense.amount === null ? [] : [{ ...expense, amount: expense.amount }])),
+    trip,
+    todayIsoDate()
+  );
+  const overBudget = summary.remaining < 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Expenses</CardTitle>
+            <CardDescription>Budget vs. actual spending</CardDescription>
+          </div>
+          {!readOnly && (
+            <Dialog open={dialogOpen} onOpenChange={openDialog}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Expense
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Add Expense</DialogTitle>
+                  <DialogDescription>Record something you paid for on this trip</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">
+                      <Label htmlFor="expense-amount">Amount</Label>
+                      <Input
+                        id="expense-amount"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="expense-currency">Currency</Label>
+                      <Input
+                        id="expense-currency"
+                        maxLength={3}
+                        value={form.currency}
+                        onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="expense-category">Category</Label>
+                      <Select
+                        value={form.category}
+                        onValueChange={(value) => setForm({ ...form, category: value as ExpenseCategory })}
+                      >
+                        <SelectTrigger id="expense-category" className="capitalize">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXPENSE_CATEGORIES.map(category => (
+                            <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="expense-date">Date</Label>
+                      <Input
+                        id="expense-date"
+                        type="date"
+                        value={form.expense_date}
+                        onChange={(e) => setForm({ ...form, expense_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="expense-payer">Paid by</Label>
+                    <Input
+                      id="expense-payer"
+                      value={form.payer}
+                      onChange={(e) => setForm({ ...form, payer: e.target.value })}
+                      placeholder="Alex"
+                      list={isGroup ? "expense-participants" : undefined}
+                    />
+                    {isGroup && (
+                      <datalist id="expense-participants">
+                        {participants.map(participant => (
+                          <option key={participant} value={participant} />
+                        ))}
+                      </datalist>
+                    )}
+                  </div>
+                  {isGroup && (
+                    <SplitEditor
+                      participants={participants}
+                      amount={Number(form.amount) || 0}
+                      currency={form.currency}
+                      mode={form.split_mode}
+                      values={form.split_inputs}
+                      onChange={(split_mode, split_inputs) => setForm({ ...form, split_mode, split_inputs })}
+                    />
+                  )}
+                  <div>
+                    <Label htmlFor="expense-description">Description (optional)</Label>
+                    <Input
+                      id="expense-description"
+                      value={form.description}
+                      onChange={(e) => setForm({ ...form, description: e.target.value })}
+                      placeholder="Dinner at the night market"
+                    />
+                  </div>
+                  <Button onClick={createExpense} className="w-full">Add Expense</Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <div className="flex justify-between text-sm mb-2">
+            <span>{money(summary.total)} spent</span>
+            <span className={overBudget ? "text-destructive" : "text-muted-foreground"}>
+              {overBudget
+                ? `${money(-summary.remaining)} over budget`
+                : `${money(summary.remaining)} of ${money(trip.budget)} left`}
+            </span>
+          </div>
+          <Progress value={Math.min(summary.percentUsed, 100)} />
+        </div>
+
+        {unconvertible.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Missing exchange rates</AlertTitle>
+            <AlertDescription>
+              Expenses in {unconvertible.join(", ")} are not included in the totals. Add a rate to include them.
+              <div className="mt-2">
+                <ExchangeRatesDialog />
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {summary.projectedOverspend > 0 && !overBudget && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>On track to overspend</AlertTitle>
+            <AlertDescription>
+              At {money(summary.dailyBurn ?? 0)} per day you will spend about{" "}
+              {money(summary.projectedTotal)}, {money(summary.projectedOverspend)} over budget.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3 text-sm">
+          <div className="rounded-md bg-accent/50 p-3">
+            <p className="text-muted-foreground">Daily burn rate</p>
+            <p className="text-lg font-semibold">
+              {summary.dailyBurn === null ? "—" : money(summary.dailyBurn)}
+            </p>
+          </div>
+          <div className="rounded-md bg-accent/50 p-3">
+            <p className="text-muted-foreground">Projected total</p>
+            <p className="text-lg font-semibold">{money(summary.projectedTotal)}</p>
+          </div>
+          <div className="rounded-md bg-accent/50 p-3">
+            <p className="text-muted-foreground">Trip day</p>
+            <p className="text-lg font-semibold">
+              {summary.elapsedDays} / {summary.tripDays}
+            </p>
+          </div>
+        </div>
+
+        {summary.byCategory.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">By category</h4>
+            {summary.byCategory.map(entry => (
+              <div key={entry.category} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="capitalize">{entry.category}</span>
+                  <span>
+                    {money(entry.total)} ({Math.round(entry.share * 100)}%)
+                  </span>
+                </div>
+                <Progress value={entry.share * 100} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {expenses.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No expenses recorded yet</p>
+        ) : (
+          <div className="divide-y">
+            {expenses.map(expense => (
+              <div key={expense.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium">{expense.description || expense.category}</p>
+                  <p className="text-muted-foreground">
+                    {expense.expense_date} • <span className="capitalize">{expense.category}</span> • paid by {expense.payer}
+                    {expense.splits.length > 0 &&
+                      ` • shared by ${expense.splits.length} (${SPLIT_MODE_LABELS[expense.split_mode].toLowerCase()})`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {formatMoney(Number(expense.amount), expense.currency)}
+                  </span>
+                  {!readOnly && (
+                    <Button variant="ghost" size="sm" onClick={() => deleteExpense(expense.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isGroup && <SettleUpPanel trip={trip} expenses={expenses} toLedger={toTripCurrency} readOnly={readOnly} />}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpensesPanel;
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ArrowRight, Check, Download, Trash2 } from "lucide-react";
+import type { Expense } from "@/lib/expenses";
+import {
+  type Payment,
+  type ToLedgerCurrency,
+  type Transfer,
+  computeBalances,
+  serializeLedgerCsv,
+  settleUp,
+} from "@/lib/settlement";
+import { todayIsoDate } from "@/lib/dates";
+import { formatMoney } from "@/lib/currency";
+import { useAuth } from "@/hooks/useAuth";
+import type { Trip } from "@/lib/trips";
+
+interface SettleUpPanelProps {
+  trip: Trip;
+  expenses: Expense[];
+  // Converts into the trip currency, which balances are kept in
+  toLedger: ToLedgerCurrency;
+  readOnly?: boolean;
+}
+
+const SettleUpPanel = ({ trip, expenses, toLedger, readOnly = false }: SettleUpPanelProps) => {
+  const { user } = useAuth();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [recording, setRecording] = useState(false);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [trip.id]);
+
+  const fetchPayments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expense_payments')
+        .select('*')
+        .eq('trip_id', trip.id)
+        .order('paid_on', { ascending: false });
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error: any) {
+      console.error('Error fetching payments:', error);
+      toast.error("Failed to load payments");
+    }
+  };
+
+  const recordPayment = async (transfer: Transfer) => {
+    setRecording(true);
+    try {
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from('expense_payments')
+        .insert({
+          trip_id: trip.id,
+          user_id: user.id,
+          from_participant: transfer.from,
+          to_participant: transfer.to,
+          amount: transfer.amount,
+          currency: trip.currency,
+          paid_on: todayIsoDate(),
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setPayments(prev => [data, ...prev]);
+      toast.success(`Recorded ${transfer.from}'s payment to ${transfer.to}`);
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      toast.error(error.message || "Failed to record payment");
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const deletePayment = async (id: string) => {
+    try {
+      const { error } = await supabase.from('expense_payments').delete().eq('id', id);
+      if (error) throw error;
+      toast.success("Payment deleted");
+      setPayments(payments.filter(payment => payment.id !== id));
+    } catch (error: any) {
+      console.error('Error deleting payment:', error);
+      toast.error("Failed to delete payment");
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([serializeLedgerCsv(expenses, payments, trip.currency, toLedger)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${trip.destination.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-expenses.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const money = (value: number) => formatMoney(value, trip.currency);
+  const netLabel = (net: number) => (net > 0 ? `gets back ${money(net)}` : net < 0 ? `owes ${money(-net)}` : "settled");
+  const netClassName = (net: number) =>
+    net > 0 ? "font-medium text-emerald-600" : net < 0 ? "font-medium text-destructive" : "text-muted-foreground";
+  const balances = computeBalances(expenses, payments, toLedger);
+  const transfers = settleUp(balances);
+
+  if (balances.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Balances</h4>
+        <Button variant="outline" size="sm" onClick={exportCsv}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="divide-y text-sm">
+        {balances.map(balance => (
+          <div key={balance.participant} className="flex items-center justify-between py-2">
+            <div>
+              <p className="font-medium">{balance.participant}</p>
+              <p className="text-muted-foreground">
+                Paid {money(balance.paid)} • share {money(balance.share)}
+              </p>
+            </div>
+            <span className={netClassName(balance.net)}>{netLabel(balance.net)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Settle up</h4>
+        {transfers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Everyone is even</p>
+        ) : (
+          transfers.map(transfer => (
+            <div
+              key={`${transfer.from}-${transfer.to}`}
+              className="flex items-center justify-between gap-2 rounded-md bg-accent/50 p-3 text-sm"
+            >
+              <span className="flex items-center gap-2">
+                {transfer.from}
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                {transfer.to}
+                <span className="font-medium">{money(transfer.amount)}</span>
+              </span>
+              {!readOnly && (
+                <Button size="sm" variant="outline" onClick={() => recordPayment(transfer)} disabled={recording}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Mark paid
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {payments.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Payments</h4>
+          <div className="divide-y">
+            {payments.map(payment => (
+              <div key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium">{payment.from_participant} paid {payment.to_participant}</p>
+                  <p className="text-muted-foreground">{payment.paid_on}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{formatMoney(Number(payment.amount), payment.currency)}</span>
+                  {!readOnly && (
+                    <Button variant="ghost" size="sm" onClick={() => deletePayment(payment.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettleUpPanel;
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserPlus } from "lucide-react";
+import { SPLIT_MODES, SPLIT_MODE_LABELS, type SplitMode } from "@/lib/expenses";
+import { type SplitInputs, splitAmounts, splitsFromInputs } from "@/lib/settlement";
+import { formatMoney } from "@/lib/currency";
+
+interface SplitEditorProps {
+  // People already on the trip ledger, offered as checkboxes
+  participants: string[];
+  amount: number;
+  currency: string;
+  mode: SplitMode;
+  values: SplitInputs;
+  onChange: (mode: SplitMode, values: SplitInputs) => void;
+}
+
+const defaultValue = (mode: SplitMode) => (mode === "exact" ? "" : "1");
+
+const SplitEditor = ({ participants, amount, currency, mode, values, onChange }: SplitEditorProps) => {
+  const [added, setAdded] = useState<string[]>([]);
+  const [newName, setNewName] = useState("");
+  const people = [...new Set([...participants, ...added, ...Object.keys(values)])];
+  const preview = splitAmounts(amount, mode, splitsFromInputs(mode, values));
+  const assigned = Object.values(values).reduce((total, value) => total + (Number(value) || 0), 0);
+
+  const toggle = (participant: string, included: boolean) => {
+    const next = { ...values };
+    if (included) next[participant] = defaultValue(mode);
+    else delete next[participant];
+    onChange(mode, next);
+  };
+
+  const changeMode = (next: SplitMode) => {
+    onChange(next, Object.fromEntries(Object.keys(values).map(participant => [participant, defaultValue(next)])));
+  };
+
+  const addPerson = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const existing = people.find(person => person.toLowerCase() === name.toLowerCase());
+    if (!existing) setAdded(prev => [...prev, name]);
+    onChange(mode, { ...values, [existing ?? name]: values[existing ?? name] ?? defaultValue(mode) });
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="expense-split-mode">Split</Label>
+        <Select value={mode} onValueChange={(value) => changeMode(value as SplitMode)}>
+          <SelectTrigger id="expense-split-mode" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPLIT_MODES.map(option => (
+              <SelectItem key={option} value={option}>{SPLIT_MODE_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        {people.map(person => {
+          const included = values[person] !== undefined;
+          return (
+            <div key={person} className="flex items-center gap-3 text-sm">
+              <Checkbox
+                id={`split-${person}`}
+                checked={included}
+                onCheckedChange={(checked) => toggle(person, checked === true)}
+              />
+              <Label htmlFor={`split-${person}`} className="flex-1 font-normal">{person}</Label>
+              {included && mode !== "equal" && (
+                <Input
+                  type="number"
+                  min={0}
+                  step={mode === "exact" ? "0.01" : "1"}
+                  value={values[person]}
+                  onChange={(e) => onChange(mode, { ...values, [person]: e.target.value })}
+                  className="h-8 w-24"
+                  aria-label={mode === "exact" ? `Amount for ${person}` : `Shares for ${person}`}
+                />
+              )}
+              <span className="w-24 text-right text-muted-foreground">
+                {included && preview.has(person) ? formatMoney(preview.get(person)!, currency) : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add a person"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addPerson();
+            }
+          }}
+          className="h-8"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={addPerson} disabled={!newName.trim()}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+
+      {mode === "exact" && amount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {formatMoney(assigned, currency)} of {formatMoney(amount, currency)} assigned
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SplitEditor;
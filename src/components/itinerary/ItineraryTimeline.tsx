@@ -0,0 +1,190 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, Clock, Plus, Trash2 } from "lucide-react";
+import {
+  ACTIVITY_CATEGORIES,
+  type ActivityCategory,
+  type Itinerary,
+  addActivity,
+  dayKeys,
+  moveActivity,
+  removeActivity,
+  updateActivity,
+  updateDayTitle,
+} from "@/lib/itinerary";
+
+interface ItineraryTimelineProps {
+  itinerary: Itinerary;
+  onChange: (itinerary: Itinerary) => void;
+  readOnly?: boolean;
+}
+
+const parseNumberInput = (value: string) => {
+  if (value === "") return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const ItineraryTimeline = ({ itinerary, onChange, readOnly = false }: ItineraryTimelineProps) => {
+  const keys = dayKeys(itinerary);
+  return (
+    <div className="space-y-6">
+      {itinerary.days.map((day, dayIndex) => (
+        <div key={keys[dayIndex]} className="rounded-lg border bg-background/60 p-4">
+          <div className="flex items-center gap-3 mb-4">
+            <Badge>Day {day.day_number}</Badge>
+            {readOnly ? (
+              <h3 className="font-semibold">{day.title}</h3>
+            ) : (
+              <Input
+                value={day.title}
+                placeholder="Day theme"
+                onChange={(e) => onChange(updateDayTitle(itinerary, keys[dayIndex], e.target.value))}
+                className="h-8"
+              />
+            )}
+          </div>
+
+          <div className="space-y-4 border-l-2 border-primary/30 pl-4">
+            {day.slots.map((slot, slotIndex) => (
+              <div key={`${keys[dayIndex]}-${slot.label}`}>
+                <div className="flex items-center gap-2 text-sm font-medium text-primary mb-2">
+                  <Clock className="h-4 w-4" />
+                  {slot.label}
+                </div>
+
+                <div className="space-y-2">
+                  {slot.activities.map((activity, index) =>
+                    readOnly ? (
+                      <div key={activity.id} className="rounded-md bg-accent/40 p-3 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{activity.title}</span>
+                          <Badge variant="outline" className="capitalize">{activity.category}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">
+                          {[
+                            activity.place,
+                            activity.duration_minutes !== null && `${activity.duration_minutes} min`,
+                            activity.cost_estimate !== null && `~${activity.cost_estimate}`,
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </p>
+                      </div>
+                    ) : (
+                      <div key={activity.id} className="rounded-md bg-accent/40 p-3 space-y-2">
+                        <div className="flex gap-2">
+                          <Input
+                            value={activity.title}
+                            placeholder="Activity"
+                            onChange={(e) =>
+                              onChange(updateActivity(itinerary, keys[dayIndex], slotIndex, activity.id, { title: e.target.value }))
+                            }
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === 0}
+                            onClick={() => onChange(moveActivity(itinerary, keys[dayIndex], slotIndex, activity.id, -1))}
+                          >
+                            <ChevronUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === slot.activities.length - 1}
+                            onClick={() => onChange(moveActivity(itinerary, keys[dayIndex], slotIndex, activity.id, 1))}
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onChange(removeActivity(itinerary, keys[dayIndex], slotIndex, activity.id))}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                        <div className="grid gap-2 md:grid-cols-4">
+                          <Input
+                            value={activity.place}
+                            placeholder="Place"
+                            onChange={(e) =>
+                              onChange(updateActivity(itinerary, keys[dayIndex], slotIndex, activity.id, { place: e.target.value }))
+                            }
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            value={activity.duration_minutes ?? ""}
+                            placeholder="Minutes"
+                            onChange={(e) =>
+                              onChange(
+                                updateActivity(itinerary, keys[dayIndex], slotIndex, activity.id, {
+                                  duration_minutes: parseNumberInput(e.target.value),
+                                })
+                              )
+                            }
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            value={activity.cost_estimate ?? ""}
+                            placeholder="Est. cost"
+                            onChange={(e) =>
+                              onChange(
+                                updateActivity(itinerary, keys[dayIndex], slotIndex, activity.id, {
+                                  cost_estimate: parseNumberInput(e.target.value),
+                                })
+                              )
+                            }
+                          />
+                          <Select
+                            value={activity.category}
+                            onValueChange={(value) =>
+                              onChange(
+                                updateActivity(itinerary, keys[dayIndex], slotIndex, activity.id, {
+                                  category: value as ActivityCategory,
+                                })
+                              )
+                            }
+                          >
+                            <SelectTrigger className="capitalize">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ACTIVITY_CATEGORIES.map((category) => (
+                                <SelectItem key={category} value={category} className="capitalize">
+                                  {category}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )
+                  )}
+
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(addActivity(itinerary, keys[dayIndex], slotIndex))}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add activity
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ItineraryTimeline;
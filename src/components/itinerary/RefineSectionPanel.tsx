@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Check, History, Loader2, Square, Wand2, X } from "lucide-react";
+import { type RecommendationRequest, streamSectionRefinement } from "@/lib/ai/recommendations";
+import { toAiError } from "@/lib/ai/errors";
+import { type PlanSection, type SectionVersion, refinementError, splitSections } from "@/lib/sections";
+
+interface RefineSectionPanelProps {
+  plan: string;
+  context: RecommendationRequest;
+  versions: Record<string, SectionVersion[]>;
+  // Both return the section's key afterwards, which changes when its heading is renamed
+  onApply: (section: PlanSection, content: string, instruction: string) => string;
+  onRevert: (section: PlanSection, version: SectionVersion) => string;
+  disabled?: boolean;
+}
+
+const QUICK_PROMPTS = [
+  "Make it more relaxed",
+  "Swap the museum for food",
+  "Cheaper options",
+  "More hidden local spots",
+];
+
+const RefineSectionPanel = ({ plan, context, versions, onApply, onRevert, disabled = false }: RefineSectionPanelProps) => {
+  const sections = useMemo(() => splitSections(plan), [plan]);
+  const [sectionKey, setSectionKey] = useState("");
+  const [instruction, setInstruction] = useState("");
+  const [preview, setPreview] = useState("");
+  const [refining, setRefining] = useState(false);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const section = sections.find(s => s.key === sectionKey) ?? null;
+  const history = section ? versions[section.key] ?? [] : [];
+  const compared = history.find(version => version.id === compareId) ?? null;
+
+  const handleRefine = async () => {
+    if (!section || !instruction.trim()) {
+      toast.error("Pick a section and describe the change");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRefining(true);
+    setPreview("");
+    try {
+      await streamSectionRefinement(
+        { ...context, section: section.content, plan, instruction: instruction.trim() },
+        { signal: controller.signal, onText: setPreview }
+      );
+    } catch (raw) {
+      const error = toAiError(raw);
+      if (error.kind !== "aborted") {
+        console.error('Error refining section:', error);
+        toast.error(error.message);
+      }
+      setPreview("");
+    } finally {
+      abortRef.current = null;
+      setRefining(false);
+    }
+  };
+
+  const applyPreview = () => {
+    if (!section || !preview.trim()) return;
+    const invalid = refinementError(section, preview);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+    setSectionKey(onApply(section, preview, instruction.trim()));
+    setPreview("");
+    setInstruction("");
+    toast.success(`${section.heading} updated`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5 text-primary" />
+          Refine a Section
+        </CardTitle>
+        <CardDescription>Regenerate one day or section without touching the rest of the plan</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="refine-section">Section</Label>
+            <Select value={sectionKey} onValueChange={(value) => { setSectionKey(value); setCompareId(null); setPreview(""); }}>
+              <SelectTrigger id="refine-section">
+                <SelectValue placeholder="Choose a day" />
+              </SelectTrigger>
+              <SelectContent>
+                {sections.map(s => (
+                  <SelectItem key={s.key} value={s.key}>{s.heading}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="refine-instruction">What should change?</Label>
+            <Input
+              id="refine-instruction"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Make day 3 more relaxed"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {QUICK_PROMPTS.map(prompt => (
+            <Badge key={prompt} variant="outline" className="cursor-pointer" onClick={() => setInstruction(prompt)}>
+              {prompt}
+            </Badge>
+          ))}
+        </div>
+
+        {refining ? (
+          <div className="flex gap-2">
+            <Button disabled className="flex-1">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Regenerating...
+            </Button>
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleRefine} disabled={disabled || !section} className="w-full">
+            <Wand2 className="h-4 w-4 mr-2" />
+            Regenerate Section
+          </Button>
+        )}
+
+        {section && preview && (
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium mb-1">Current</p>
+              <pre className="whitespace-pre-wrap rounded-md bg-accent/40 p-3 text-xs max-h-80 overflow-auto">{section.content}</pre>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">Proposed</p>
+              <pre className="whitespace-pre-wrap rounded-md bg-primary/10 p-3 text-xs max-h-80 overflow-auto">{preview}</pre>
+              {!refining && (
+                <div className="flex gap-2 mt-2">
+                  <Button size="sm" onClick={applyPreview}>
+                    <Check className="h-4 w-4 mr-2" />
+                    Apply
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setPreview("")}>
+                    <X className="h-4 w-4 mr-2" />
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {section && history.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Earlier versions of {section.heading}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {history.map((version, index) => (
+                <Button
+                  key={version.id}
+                  size="sm"
+                  variant={compareId === version.id ? "default" : "outline"}
+                  onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                >
+                  v{index + 1}: {version.instruction || "Original"}
+                </Button>
+              ))}
+            </div>
+            {compared && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm font-medium mb-1">Current</p>
+                  <pre className="whitespace-pre-wrap rounded-md bg-accent/40 p-3 text-xs max-h-80 overflow-auto">{section.content}</pre>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-1">
+                    {compared.instruction || "Original"} • {new Date(compared.created_at).toLocaleTimeString()}
+                  </p>
+                  <pre className="whitespace-pre-wrap rounded-md bg-accent/40 p-3 text-xs max-h-80 overflow-auto">{compared.content}</pre>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="mt-2"
+                    onClick={() => {
+                      setSectionKey(onRevert(section, compared));
+                      setCompareId(null);
+                      toast.success(`${section.heading} reverted`);
+                    }}
+                  >
+                    Revert to this version
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RefineSectionPanel;
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { pageCount } from "@/lib/listQuery";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+const ListPagination = ({ page, pageSize, total, onPageChange }: ListPaginationProps) => {
+  const pages = pageCount(total, pageSize);
+  if (pages <= 1) return null;
+
+  const goTo = (next: number) => {
+    onPageChange(next);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <nav className="flex items-center justify-center gap-4 mt-8" aria-label="Pagination">
+      <Button variant="outline" size="sm" onClick={() => goTo(page - 1)} disabled={page <= 1}>
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Previous
+      </Button>
+      <span className="text-sm text-muted-foreground">
+        Page {page} of {pages}
+      </span>
+      <Button variant="outline" size="sm" onClick={() => goTo(page + 1)} disabled={page >= pages}>
+        Next
+        <ChevronRight className="h-4 w-4 ml-1" />
+      </Button>
+    </nav>
+  );
+};
+
+export default ListPagination;
@@ -0,0 +1,76 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+
+interface ListToolbarProps {
+  search: string;
+  onSearchChange: (value: string) => void;
+  searchPlaceholder: string;
+  sort: string;
+  sortOptions: { value: string; label: string }[];
+  onSortChange: (value: string) => void;
+  // Shown under the search row; the page decides which filters apply
+  filters?: ReactNode;
+  active: boolean;
+  onClear: () => void;
+  resultCount: number;
+  totalCount: number;
+}
+
+const ListToolbar = ({
+  search,
+  onSearchChange,
+  searchPlaceholder,
+  sort,
+  sortOptions,
+  onSortChange,
+  filters,
+  active,
+  onClear,
+  resultCount,
+  totalCount,
+}: ListToolbarProps) => (
+  <div className="space-y-3 mb-6">
+    <div className="flex flex-col gap-3 sm:flex-row">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={search}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder={searchPlaceholder}
+          className="pl-9"
+          aria-label="Search"
+        />
+      </div>
+      <Select value={sort || sortOptions[0].value} onValueChange={onSortChange}>
+        <SelectTrigger className="sm:w-52" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    {filters && <div className="flex flex-wrap items-end gap-3">{filters}</div>}
+    <div className="flex items-center justify-between text-sm text-muted-foreground">
+      <span>
+        {active ? `${resultCount} of ${totalCount}` : totalCount} result{(active ? resultCount : totalCount) === 1 ? "" : "s"}
+      </span>
+      {active && (
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+export default ListToolbar;
@@ -0,0 +1,43 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface RangeFilterProps {
+  id: string;
+  label: string;
+  type: "date" | "number";
+  from: string;
+  to: string;
+  onFromChange: (value: string) => void;
+  onToChange: (value: string) => void;
+}
+
+const RangeFilter = ({ id, label, type, from, to, onFromChange, onToChange }: RangeFilterProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={`${id}-from`} className="text-xs text-muted-foreground">{label}</Label>
+    <div className="flex items-center gap-2">
+      <Input
+        id={`${id}-from`}
+        type={type}
+        value={from}
+        onChange={(e) => onFromChange(e.target.value)}
+        placeholder={type === "number" ? "Min" : undefined}
+        min={type === "number" ? 0 : undefined}
+        max={type === "date" ? to || undefined : undefined}
+        className={type === "number" ? "w-24" : "w-40"}
+        aria-label={`${label} from`}
+      />
+      <span className="text-muted-foreground">–</span>
+      <Input
+        type={type}
+        value={to}
+        onChange={(e) => onToChange(e.target.value)}
+        placeholder={type === "number" ? "Max" : undefined}
+        min={type === "number" ? 0 : from || undefined}
+        className={type === "number" ? "w-24" : "w-40"}
+        aria-label={`${label} to`}
+      />
+    </div>
+  </div>
+);
+
+export default RangeFilter;
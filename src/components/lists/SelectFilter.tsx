@@ -0,0 +1,34 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Radix Select can't hold an empty value, so "any" stands in for "no filter"
+const ANY = "any";
+
+interface SelectFilterProps {
+  id: string;
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+const SelectFilter = ({ id, label, value, options, onChange }: SelectFilterProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+    <Select value={value || ANY} onValueChange={(next) => onChange(next === ANY ? "" : next)}>
+      <SelectTrigger id={id} className="w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default SelectFilter;
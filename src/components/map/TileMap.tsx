@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Maximize2, Minus, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  type WorldPoint,
+  TILE_SIZE,
+  clampZoom,
+  fitPoints,
+  project,
+  worldSize,
+} from "@/lib/geo/mercator";
+
+export interface MapMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  label: string;
+  // Tailwind background class for the pin, e.g. "bg-primary"
+  colorClassName: string;
+}
+
+interface TileMapProps {
+  markers: MapMarker[];
+  // The view is fitted to the pins once per key, e.g. per layer selection; null
+  // while pins are still loading. Pins changing under the same key don't move it.
+  fitKey?: string | null;
+  onMarkerClick: (marker: MapMarker) => void;
+  className?: string;
+  tileUrl?: string;
+}
+
+const OSM_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+// Pointer travel below this is treated as a click rather than a drag
+const DRAG_THRESHOLD_PX = 4;
+// Pins sharing a location are fanned out on a circle of this radius
+const STACK_RADIUS_PX = 10;
+
+const tileSrc = (template: string, z: number, x: number, y: number) =>
+  template.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+
+const TileMap = ({ markers, fitKey = "", onMarkerClick, className, tileUrl = OSM_TILE_URL }: TileMapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [center, setCenter] = useState<WorldPoint>({ x: 0.5, y: 0.5 });
+  const [zoom, setZoom] = useState(2);
+  const drag = useRef<{ pointerId: number; startX: number; startY: number; origin: WorldPoint; moved: boolean } | null>(null);
+
+  const projected = useMemo(
+    () => markers.map((marker) => ({ marker, point: project(marker.latitude, marker.longitude) })),
+    [markers]
+  );
+
+  useLayoutEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitToMarkers = useCallback(() => {
+    if (size.width === 0) return;
+    const view = fitPoints(projected.map(({ point }) => point), size.width, size.height);
+    setCenter(view.center);
+    setZoom(view.zoom);
+  }, [projected, size.width, size.height]);
+
+  const fittedKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (size.width === 0 || fitKey === null || fittedKey.current === fitKey) return;
+    fittedKey.current = fitKey;
+    fitToMarkers();
+  }, [fitKey, size.width, fitToMarkers]);
+
+  // Zooms by a whole level while keeping the given viewport pixel fixed on screen
+  const zoomAt = useCallback(
+    (delta: number, anchorX = size.width / 2, anchorY = size.height / 2) => {
+      const next = clampZoom(zoom + delta);
+      if (next === zoom) return;
+      const offsetX = anchorX - size.width / 2;
+      const offsetY = anchorY - size.height / 2;
+      setCenter((current) => ({
+        x: current.x + offsetX / worldSize(zoom) - offsetX / worldSize(next),
+        y: current.y + offsetY / worldSize(zoom) - offsetY / worldSize(next),
+      }));
+      setZoom(next);
+    },
+    [zoom, size.width, size.height]
+  );
+
+  // Wheel listeners must be non-passive to stop the page from scrolling
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1 : -1, event.clientX - rect.left, event.clientY - rect.top);
+    };
+    element.addEventListener("wheel", onWheel, { passive: false });
+    return () => element.removeEventListener("wheel", onWheel);
+  }, [zoomAt]);
+
+  const onPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("[data-map-control]")) return;
+    drag.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, origin: center, moved: false };
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const state = drag.current;
+    if (!state || state.pointerId !== event.pointerId) return;
+    const dx = event.clientX - state.startX;
+    const dy = event.clientY - state.startY;
+    if (!state.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    if (!state.moved) {
+      state.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    const scale = worldSize(zoom);
+    setCenter({ x: state.origin.x - dx / scale, y: Math.min(1, Math.max(0, state.origin.y - dy / scale)) });
+  };
+
+  const onPointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (drag.current?.pointerId === event.pointerId) drag.current = null;
+  };
+
+  const scale = worldSize(zoom);
+  const centerX = center.x * scale;
+  const centerY = center.y * scale;
+  const left = centerX - size.width / 2;
+  const top = centerY - size.height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles = [];
+  if (size.width > 0) {
+    for (let ty = Math.max(0, Math.floor(top / TILE_SIZE)); ty <= Math.min(tileCount - 1, Math.floor((top + size.height) / TILE_SIZE)); ty++) {
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + size.width) / TILE_SIZE); tx++) {
+        // Tiles repeat horizontally so the map can be panned around the globe
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push(
+          <img
+            key={`${zoom}/${tx}/${ty}`}
+            src={tileSrc(tileUrl, zoom, wrappedX, ty)}
+            alt=""
+            draggable={false}
+            className="absolute select-none max-w-none"
+            style={{ left: tx * TILE_SIZE - left, top: ty * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        );
+      }
+    }
+  }
+
+  // Group pins at identical coordinates so they can be fanned out instead of hiding each other
+  const stacks = new Map<string, number>();
+  const pins = projected.map(({ marker, point }) => {
+    const key = `${point.x}:${point.y}`;
+    const index = stacks.get(key) ?? 0;
+    stacks.set(key, index + 1);
+    return { marker, point, key, index };
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("relative overflow-hidden rounded-lg border bg-muted touch-none cursor-grab active:cursor-grabbing", className)}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      {tiles}
+
+      {pins.map(({ marker, point, key, index }) => {
+        const stackSize = stacks.get(key) ?? 1;
+        const angle = (2 * Math.PI * index) / stackSize;
+        const spread = stackSize > 1 ? STACK_RADIUS_PX : 0;
+        // Draw the copy of the pin nearest the centre when the world wraps
+        const worldX = point.x * scale;
+        const x = worldX - Math.round((worldX - centerX) / scale) * scale - left + Math.cos(angle) * spread;
+        const y = point.y * scale - top + Math.sin(angle) * spread;
+        return (
+          <button
+            key={marker.id}
+            type="button"
+            data-map-control
+            title={marker.label}
+            aria-label={marker.label}
+            onClick={() => onMarkerClick(marker)}
+            className={cn(
+              "absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md transition-transform hover:scale-125 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              marker.colorClassName
+            )}
+            style={{ left: x, top: y }}
+          />
+        );
+      })}
+
+      <div data-map-control className="absolute right-2 top-2 flex flex-col gap-1">
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAt(1)} aria-label="Zoom in">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAt(-1)} aria-label="Zoom out">
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={fitToMarkers} aria-label="Show all pins">
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div data-map-control className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground">
+        ©{" "}
+        <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer" className="underline">
+          OpenStreetMap
+        </a>{" "}
+        contributors
+      </div>
+    </div>
+  );
+};
+
+export default TileMap;
@@ -0,0 +1,145 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { toggleChecklistItem } from "@/lib/markdown";
+import { Bold, Heading2, Image, Italic, Link, List, ListChecks, ListOrdered } from "lucide-react";
+import MarkdownRenderer from "./MarkdownRenderer";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  readOnly?: boolean;
+  // Applied to both the textarea and the preview so switching tabs keeps the height
+  className?: string;
+  defaultMode?: "write" | "preview";
+}
+
+type Formatter = (selected: string) => { text: string; select?: [number, number] };
+
+const wrap = (marker: string, fallback: string): Formatter => (selected) => {
+  const inner = selected || fallback;
+  return { text: `${marker}${inner}${marker}`, select: [marker.length, marker.length + inner.length] };
+};
+
+const prefixLines = (prefix: (index: number) => string, fallback: string): Formatter => (selected) => {
+  const text = (selected || fallback)
+    .split("\n")
+    .map((line, index) => `${prefix(index)}${line}`)
+    .join("\n");
+  return { text, select: selected ? undefined : [prefix(0).length, text.length] };
+};
+
+const TOOLBAR: { label: string; icon: typeof Bold; format: Formatter; block?: boolean }[] = [
+  { label: "Heading", icon: Heading2, format: prefixLines(() => "## ", "Heading"), block: true },
+  { label: "Bold", icon: Bold, format: wrap("**", "bold text") },
+  { label: "Italic", icon: Italic, format: wrap("*", "italic text") },
+  { label: "Bulleted list", icon: List, format: prefixLines(() => "- ", "List item"), block: true },
+  { label: "Numbered list", icon: ListOrdered, format: prefixLines((index) => `${index + 1}. `, "List item"), block: true },
+  { label: "Checklist", icon: ListChecks, format: prefixLines(() => "- [ ] ", "To do"), block: true },
+  {
+    label: "Link",
+    icon: Link,
+    format: (selected) => {
+      const text = `[${selected || "link text"}](https://)`;
+      return { text, select: [text.length - 9, text.length - 1] };
+    },
+  },
+  {
+    label: "Image",
+    icon: Image,
+    format: (selected) => {
+      const text = `![${selected || "description"}](https://)`;
+      return { text, select: [text.length - 9, text.length - 1] };
+    },
+  },
+];
+
+const MarkdownEditor = ({
+  id,
+  value,
+  onChange,
+  placeholder,
+  readOnly = false,
+  className,
+  defaultMode = "write",
+}: MarkdownEditorProps) => {
+  const [mode, setMode] = useState(defaultMode);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (format: Formatter, block?: boolean) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const { text, select } = format(value.slice(selectionStart, selectionEnd));
+    // Block formats need to start on their own line
+    const needsNewline = block && selectionStart > 0 && value[selectionStart - 1] !== "\n";
+    const insert = needsNewline ? `\n${text}` : text;
+    const offset = selectionStart + (needsNewline ? 1 : 0);
+
+    onChange(value.slice(0, selectionStart) + insert + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      const [start, end] = select ?? [text.length, text.length];
+      textarea.setSelectionRange(offset + start, offset + end);
+    });
+  };
+
+  return (
+    <Tabs value={mode} onValueChange={(next) => setMode(next as typeof mode)} className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        {mode === "write" && !readOnly && (
+          <div className="flex flex-wrap gap-1">
+            {TOOLBAR.map(({ label, icon: Icon, format, block }) => (
+              <Button
+                key={label}
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={label}
+                aria-label={label}
+                onClick={() => applyFormat(format, block)}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {mode === "write" ? (
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          readOnly={readOnly}
+          className={cn("font-mono text-sm", className)}
+        />
+      ) : (
+        <div id={id} className={cn("overflow-y-auto rounded-md border p-3 text-sm", className)}>
+          {value.trim() ? (
+            <MarkdownRenderer
+              source={value}
+              onToggleChecklist={readOnly ? undefined : (line) => onChange(toggleChecklistItem(value, line))}
+            />
+          ) : (
+            <p className="text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </Tabs>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,117 @@
+import { Fragment, type ReactNode, useMemo } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { type BlockNode, type InlineNode, type ListBlock, parseMarkdown } from "@/lib/markdown";
+
+interface MarkdownRendererProps {
+  source: string;
+  className?: string;
+  // Makes checklist items clickable; receives the source line of the item
+  onToggleChecklist?: (line: number) => void;
+}
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold",
+  "text-xl font-bold",
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold text-muted-foreground",
+];
+
+const renderInline = (nodes: InlineNode[]): ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{node.text}</code>;
+      case "link":
+        // Unsafe URLs keep their text but lose the link
+        return node.href ? (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2">
+            {renderInline(node.children)}
+          </a>
+        ) : (
+          <Fragment key={index}>{renderInline(node.children)}</Fragment>
+        );
+      case "image":
+        return node.src ? (
+          <img key={index} src={node.src} alt={node.alt} loading="lazy" className="my-2 inline-block max-h-96 max-w-full rounded-md" />
+        ) : (
+          <Fragment key={index}>{node.alt}</Fragment>
+        );
+    }
+  });
+
+const MarkdownRenderer = ({ source, className, onToggleChecklist }: MarkdownRendererProps) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderList = (list: ListBlock, key: number | string): ReactNode => {
+    const Tag = list.ordered ? "ol" : "ul";
+    const isChecklist = list.items.every(item => item.checked !== null);
+    return (
+      <Tag
+        key={key}
+        start={list.ordered ? list.start : undefined}
+        className={cn("space-y-1", isChecklist ? "list-none" : list.ordered ? "list-decimal pl-6" : "list-disc pl-6")}
+      >
+        {list.items.map((item, index) => (
+          <li key={index}>
+            {item.checked === null ? (
+              renderInline(item.children)
+            ) : (
+              <label className="flex items-start gap-2">
+                <Checkbox
+                  checked={item.checked}
+                  disabled={!onToggleChecklist}
+                  onCheckedChange={() => onToggleChecklist?.(item.line)}
+                  className="mt-0.5 disabled:cursor-default disabled:opacity-100"
+                />
+                <span className={cn(item.checked && "text-muted-foreground line-through")}>
+                  {renderInline(item.children)}
+                </span>
+              </label>
+            )}
+            {item.sublist && renderList(item.sublist, `${key}-${index}`)}
+          </li>
+        ))}
+      </Tag>
+    );
+  };
+
+  const renderBlock = (block: BlockNode, index: number): ReactNode => {
+    switch (block.type) {
+      case "heading": {
+        const Tag = `h${block.level}` as "h1";
+        return <Tag key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case "paragraph":
+        return <p key={index} className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case "list":
+        return renderList(block, index);
+      case "blockquote":
+        return (
+          <blockquote key={index} className="space-y-2 border-l-4 border-primary/30 pl-4 italic text-muted-foreground">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case "code":
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-sm">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "hr":
+        return <hr key={index} className="border-border" />;
+    }
+  };
+
+  return <div className={cn("space-y-3 break-words", className)}>{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownRenderer;
@@ -0,0 +1,488 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { AlertTriangle, BookmarkPlus, ChevronDown, ChevronUp, ListChecks, Loader2, Plus, Sparkles, Trash2 } from "lucide-react";
+import {
+  PACKING_CATEGORIES,
+  type PackingCategory,
+  type PackingItem,
+  type PackingItemDraft,
+  type PackingTemplate,
+  addPackingItems,
+  deletePackingTemplate,
+  fetchPackingItems,
+  fetchPackingTemplates,
+  moveItem,
+  newPackingItems,
+  removePackingItems,
+  reorderPackingItems,
+  savePackingTemplate,
+  updatePackingItem,
+} from "@/lib/packing/items";
+import { generatePackingList } from "@/lib/packing/templates";
+import { fetchPackingSuggestions } from "@/lib/ai/packing";
+import { type AiRequestError, toAiError } from "@/lib/ai/errors";
+import { INTEREST_OPTIONS, type Trip, calculateDays } from "@/lib/trips";
+import { toAiProfile } from "@/lib/travelProfile";
+import { useAuth } from "@/hooks/useAuth";
+import { useTravelProfile } from "@/hooks/useTravelProfile";
+
+interface PackingListProps {
+  trip: Trip;
+  readOnly?: boolean;
+}
+
+// Value of the source select that generates from the built-in rules
+const SUGGESTED = "suggested";
+
+const PackingList = ({ trip, readOnly = false }: PackingListProps) => {
+  const { user } = useAuth();
+  const { data: profile } = useTravelProfile();
+  const [items, setItems] = useState<PackingItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [templates, setTemplates] = useState<PackingTemplate[]>([]);
+  const [source, setSource] = useState(SUGGESTED);
+  const [interests, setInterests] = useState<string[]>(trip.interests ?? []);
+  const [basedOn, setBasedOn] = useState<string[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+  const [newCategory, setNewCategory] = useState<PackingCategory>("other");
+  const [suggesting, setSuggesting] = useState(false);
+  const [aiError, setAiError] = useState<AiRequestError | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+    if (!readOnly) fetchTemplates();
+  }, [trip.id, readOnly]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Follow the trip's saved interests when they're edited above
+  useEffect(() => {
+    setInterests(trip.interests ?? []);
+  }, [trip.interests]);
+
+  const fetchItems = async () => {
+    try {
+      setItems(await fetchPackingItems(trip.id));
+    } catch (error: any) {
+      console.error('Error fetching packing list:', error);
+      toast.error("Failed to load packing list");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await fetchPackingTemplates());
+    } catch (error: any) {
+      console.error('Error fetching packing templates:', error);
+    }
+  };
+
+  const context = () => ({
+    destination: trip.destination,
+    days: Math.max(calculateDays(trip.start_date, trip.end_date), 1),
+    travelType: trip.travel_type,
+    interests,
+  });
+
+  const lastPosition = () => (items.length > 0 ? items[items.length - 1].position : -1);
+
+  const append = async (drafts: PackingItemDraft[], itemSource: PackingItem["source"]) => {
+    if (!user) throw new Error("Not authenticated");
+    const added = await addPackingItems(trip.id, user.id, newPackingItems(items, drafts), itemSource, lastPosition());
+    setItems(prev => [...prev, ...added]);
+    return added;
+  };
+
+  const toggleInterest = (interest: string) =>
+    setInterests((current) =>
+      current.includes(interest) ? current.filter((item) => item !== interest) : [...current, interest]
+    );
+
+  const generate = async () => {
+    setGenerating(true);
+    try {
+      if (source === SUGGESTED) {
+        const generated = generatePackingList(context());
+        await append(generated.items, 'template');
+        setBasedOn(generated.templates);
+      } else {
+        const template = templates.find(t => t.id === source);
+        if (!template) throw new Error("Template not found");
+        await append(template.items, 'template');
+        setBasedOn([template.name]);
+      }
+      toast.success("Packing list created");
+    } catch (error: any) {
+      console.error('Error generating packing list:', error);
+      toast.error(error.message || "Failed to create packing list");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const suggestMore = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSuggesting(true);
+    setAiError(null);
+
+    try {
+      const suggestions = await fetchPackingSuggestions(
+        {
+          ...context(),
+          startDate: trip.start_date,
+          existing: items.map(item => item.label),
+          profile: toAiProfile(profile),
+        },
+        { signal: controller.signal }
+      );
+      const added = await append(suggestions, 'ai');
+      toast.success(added.length > 0 ? `Added ${added.length} suggested items` : "Nothing new to add");
+    } catch (raw) {
+      const error = toAiError(raw);
+      if (error.kind !== "aborted") {
+        console.error('Error fetching packing suggestions:', raw);
+        setAiError(error);
+      }
+    } finally {
+      if (abortRef.current === controller) setSuggesting(false);
+    }
+  };
+
+  const addItem = async () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    try {
+      const added = await append([{ label, category: newCategory, quantity: 1 }], 'custom');
+      if (added.length === 0) toast.info(`"${label}" is already on the list`);
+      setNewLabel("");
+    } catch (error: any) {
+      console.error('Error adding packing item:', error);
+      toast.error("Failed to add item");
+    }
+  };
+
+  // Applies the change locally first and restores the previous list if saving fails
+  const updateItem = async (id: string, changes: Parameters<typeof updatePackingItem>[1]) => {
+    const previous = items;
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    try {
+      await updatePackingItem(id, changes);
+    } catch (error: any) {
+      console.error('Error updating packing item:', error);
+      toast.error("Failed to update item");
+      setItems(previous);
+    }
+  };
+
+  const move = async (id: string, direction: -1 | 1) => {
+    const result = moveItem(items, id, direction);
+    if (!result) return;
+    const previous = items;
+    setItems(result.items);
+    try {
+      await reorderPackingItems(result.changed);
+    } catch (error: any) {
+      console.error('Error reordering packing list:', error);
+      toast.error("Failed to reorder items");
+      setItems(previous);
+    }
+  };
+
+  const deleteItems = async (ids: string[]) => {
+    try {
+      await removePackingItems(ids);
+      setItems(prev => prev.filter(item => !ids.includes(item.id)));
+    } catch (error: any) {
+      console.error('Error deleting packing items:', error);
+      toast.error("Failed to delete items");
+    }
+  };
+
+  const saveTemplate = async () => {
+    try {
+      if (!user) throw new Error("Not authenticated");
+      const template = await savePackingTemplate(user.id, templateName, items);
+      setTemplates(prev => [template, ...prev]);
+      toast.success(`Saved "${template.name}" as a template`);
+      setTemplateDialogOpen(false);
+      setTemplateName("");
+    } catch (error: any) {
+      console.error('Error saving packing template:', error);
+      toast.error(error.message || "Failed to save template");
+    }
+  };
+
+  const deleteTemplate = async (template: PackingTemplate) => {
+    try {
+      await deletePackingTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      setSource(SUGGESTED);
+      toast.success(`Deleted "${template.name}"`);
+    } catch (error: any) {
+      console.error('Error deleting packing template:', error);
+      toast.error("Failed to delete template");
+    }
+  };
+
+  const packedCount = items.filter(item => item.packed).length;
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5 text-primary" />
+              Packing List
+            </CardTitle>
+            <CardDescription>
+              {basedOn.length > 0 ? `Based on ${basedOn.join(", ")}` : "Everything to bring on this trip"}
+            </CardDescription>
+          </div>
+          {!readOnly && items.length > 0 && (
+            <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <BookmarkPlus className="h-4 w-4 mr-2" />
+                  Save as template
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Save as Template</DialogTitle>
+                  <DialogDescription>Reuse this list when packing for another trip</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="packing-template-name">Name</Label>
+                    <Input
+                      id="packing-template-name"
+                      placeholder={`e.g., ${trip.destination} essentials`}
+                      value={templateName}
+                      onChange={(e) => setTemplateName(e.target.value)}
+                    />
+                  </div>
+                  <Button onClick={saveTemplate} className="w-full" disabled={!templateName.trim()}>
+                    Save Template
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {items.length === 0 ? (
+          readOnly ? (
+            <p className="text-sm text-muted-foreground">No packing list yet</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="packing-source">Start from</Label>
+                <div className="flex gap-2">
+                  <Select value={source} onValueChange={setSource}>
+                    <SelectTrigger id="packing-source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SUGGESTED}>Suggested for this trip</SelectItem>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {source !== SUGGESTED && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete template"
+                      onClick={() => {
+                        const template = templates.find(t => t.id === source);
+                        if (template) deleteTemplate(template);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {source === SUGGESTED && (
+                <div className="space-y-2">
+                  <Label>What are you planning to do?</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {INTEREST_OPTIONS.map((interest) => (
+                      <Badge
+                        key={interest}
+                        variant={interests.includes(interest) ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => toggleInterest(interest)}
+                      >
+                        {interest}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button onClick={generate} disabled={generating}>
+                {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ListChecks className="h-4 w-4 mr-2" />}
+                Create packing list
+              </Button>
+            </div>
+          )
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Packed</span>
+                <span className="font-medium">{packedCount} of {items.length}</span>
+              </div>
+              <Progress value={(packedCount / items.length) * 100} />
+            </div>
+
+            <div className="divide-y">
+              {items.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2 py-2">
+                  <Checkbox
+                    checked={item.packed}
+                    onCheckedChange={(checked) => updateItem(item.id, { packed: checked === true })}
+                    disabled={readOnly}
+                    aria-label={`Packed ${item.label}`}
+                  />
+                  {readOnly ? (
+                    <span className={`flex-1 text-sm ${item.packed ? "line-through text-muted-foreground" : ""}`}>
+                      {item.label}{item.quantity > 1 && ` × ${item.quantity}`}
+                    </span>
+                  ) : (
+                    <>
+                      <Input
+                        key={`${item.id}-${item.label}`}
+                        defaultValue={item.label}
+                        onBlur={(e) => {
+                          const label = e.target.value.trim();
+                          if (label && label !== item.label) updateItem(item.id, { label });
+                          else e.target.value = item.label;
+                        }}
+                        className={`h-8 flex-1 ${item.packed ? "line-through text-muted-foreground" : ""}`}
+                        aria-label="Item"
+                      />
+                      <Input
+                        key={`${item.id}-${item.quantity}`}
+                        type="number"
+                        min={1}
+                        defaultValue={item.quantity}
+                        onBlur={(e) => {
+                          const quantity = Math.floor(Number(e.target.value));
+                          if (quantity >= 1 && quantity !== item.quantity) updateItem(item.id, { quantity });
+                          else e.target.value = String(item.quantity);
+                        }}
+                        className="h-8 w-16"
+                        aria-label={`Quantity of ${item.label}`}
+                      />
+                    </>
+                  )}
+                  <Badge variant="outline" className="capitalize">{item.category}</Badge>
+                  {item.source === 'ai' && <Sparkles className="h-3 w-3 text-primary" aria-label="Suggested by AI" />}
+                  {!readOnly && (
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={() => move(item.id, -1)} disabled={index === 0} aria-label="Move up">
+                        <ChevronUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => move(item.id, 1)}
+                        disabled={index === items.length - 1}
+                        aria-label="Move down"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteItems([item.id])} aria-label="Delete">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {!readOnly && (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Add an item"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addItem();
+                      }
+                    }}
+                  />
+                  <Select value={newCategory} onValueChange={(value) => setNewCategory(value as PackingCategory)}>
+                    <SelectTrigger className="w-36 capitalize" aria-label="Category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PACKING_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={addItem} disabled={!newLabel.trim()}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <Button variant="outline" size="sm" onClick={suggestMore} disabled={suggesting}>
+                  {suggesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                  {suggesting ? "Thinking..." : "Suggest more with AI"}
+                </Button>
+
+                {aiError && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Couldn't get suggestions</AlertTitle>
+                    <AlertDescription>{aiError.message}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PackingList;
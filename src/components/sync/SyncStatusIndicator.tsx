@@ -0,0 +1,124 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, CloudOff, RefreshCw, Wifi } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { invalidateEntityQueries } from "@/hooks/useEntities";
+import type { CachedTable } from "@/lib/offline/db";
+import { type SyncConflict, resolveConflict } from "@/lib/offline/sync";
+
+const TABLE_LABELS: Record<CachedTable, string> = {
+  trips: "Trip",
+  diary_entries: "Diary entry",
+  saved_destinations: "Destination",
+};
+
+const conflictTitle = ({ operation, serverRow }: SyncConflict) => {
+  const row = { ...serverRow, ...operation.values };
+  const name = row.destination ?? row.title ?? row.destination_name;
+  return typeof name === "string" && name ? name : TABLE_LABELS[operation.table];
+};
+
+const SyncStatusIndicator = () => {
+  const { online, pending, conflicts, syncing, syncNow } = useSyncStatus();
+  const queryClient = useQueryClient();
+
+  const resolve = async (conflict: SyncConflict, keep: "local" | "server") => {
+    try {
+      await resolveConflict(conflict, keep);
+      invalidateEntityQueries(queryClient);
+      if (conflict.kind === "rejected") toast.success("Discarded the rejected change");
+      else toast.success(keep === "local" ? "Your offline change was re-applied" : "Kept the server version");
+    } catch (error: any) {
+      console.error('Error resolving conflict:', error);
+      toast.error("Failed to resolve conflict");
+    }
+  };
+
+  const label = !online
+    ? "Offline"
+    : syncing
+      ? "Syncing..."
+      : conflicts.length > 0
+        ? `${conflicts.length} conflict${conflicts.length === 1 ? "" : "s"}`
+        : pending > 0
+          ? `${pending} pending`
+          : "Online";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "fixed bottom-4 left-4 z-50 rounded-full shadow-md bg-background/90 backdrop-blur-sm",
+            !online && "border-amber-500 text-amber-600",
+            conflicts.length > 0 && "border-destructive text-destructive"
+          )}
+        >
+          {!online ? (
+            <CloudOff className="h-4 w-4 mr-2" />
+          ) : conflicts.length > 0 ? (
+            <AlertTriangle className="h-4 w-4 mr-2" />
+          ) : pending > 0 || syncing ? (
+            <RefreshCw className={cn("h-4 w-4 mr-2", syncing && "animate-spin")} />
+          ) : (
+            <Wifi className="h-4 w-4 mr-2" />
+          )}
+          {label}
+          {!online && pending > 0 && ` • ${pending} pending`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div>
+          <p className="font-medium">{online ? "Connected" : "You're offline"}</p>
+          <p className="text-sm text-muted-foreground">
+            {pending > 0
+              ? `${pending} change${pending === 1 ? "" : "s"} waiting to sync${online ? "" : " when you reconnect"}.`
+              : "All changes are saved."}
+          </p>
+        </div>
+        {online && pending > 0 && (
+          <Button size="sm" variant="outline" onClick={syncNow} disabled={syncing} className="w-full">
+            <RefreshCw className={cn("h-4 w-4 mr-2", syncing && "animate-spin")} />
+            Sync now
+          </Button>
+        )}
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Needs your attention</p>
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="rounded-md border p-2 text-sm space-y-2">
+                <div>
+                  <p className="font-medium">
+                    {TABLE_LABELS[conflict.operation.table]}: {conflictTitle(conflict)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{conflict.reason}</p>
+                </div>
+                {conflict.kind === "rejected" ? (
+                  <Button size="sm" variant="outline" onClick={() => resolve(conflict, "server")} className="w-full">
+                    Discard change
+                  </Button>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button size="sm" variant="outline" onClick={() => resolve(conflict, "server")}>
+                      Use server
+                    </Button>
+                    <Button size="sm" onClick={() => resolve(conflict, "local")}>
+                      Keep mine
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
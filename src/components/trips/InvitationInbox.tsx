@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Check, Mail, X } from "lucide-react";
+import { ROLE_LABELS, type PendingInvitation, fetchMyInvitations, respondToInvitation } from "@/lib/tripMembers";
+import { queryKeys } from "@/hooks/useEntities";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Invitations sent to the signed-in user's email address
+const InvitationInbox = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [responding, setResponding] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMyInvitations()
+      .then(setInvitations)
+      .catch(error => console.error('Error fetching invitations:', error));
+  }, []);
+
+  const respond = async (invitation: PendingInvitation, accept: boolean) => {
+    setResponding(invitation.token);
+    try {
+      const tripId = await respondToInvitation(invitation.token, accept);
+      setInvitations(prev => prev.filter(item => item.token !== invitation.token));
+      if (accept) {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.trips });
+        toast.success(`You joined the trip to ${invitation.destination}`);
+        navigate(`/trips/${tripId}`);
+      } else {
+        toast.success("Invitation declined");
+      }
+    } catch (error: any) {
+      console.error('Error responding to invitation:', error);
+      toast.error(error.message || "Failed to respond to invitation");
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Trip invitations
+        </CardTitle>
+        <CardDescription>Join a trip to plan it together</CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {invitations.map(invitation => (
+          <div key={invitation.token} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="text-sm">
+              <p className="font-medium">{invitation.destination}</p>
+              <p className="text-muted-foreground">
+                {formatDate(invitation.start_date)} - {formatDate(invitation.end_date)} • {invitation.invited_by_name} invited
+                you as {ROLE_LABELS[invitation.role].toLowerCase()}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" onClick={() => respond(invitation, true)} disabled={responding !== null}>
+                <Check className="h-4 w-4 mr-2" />
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => respond(invitation, false)} disabled={responding !== null}>
+                <X className="h-4 w-4 mr-2" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvitationInbox;
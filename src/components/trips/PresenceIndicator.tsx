@@ -0,0 +1,65 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PresenceMember } from "@/lib/realtime/transport";
+
+interface PresenceIndicatorProps {
+  members: PresenceMember[];
+  // Avatars shown before collapsing the rest into "+n"
+  max?: number;
+  className?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+
+// One entry per person, editing if any of their tabs is
+const byUser = (members: PresenceMember[]) => {
+  const people = new Map<string, PresenceMember>();
+  for (const member of members) {
+    const seen = people.get(member.userId);
+    people.set(member.userId, seen ? { ...seen, editing: seen.editing || member.editing } : member);
+  }
+  return [...people.values()];
+};
+
+const PresenceIndicator = ({ members, max = 4, className }: PresenceIndicatorProps) => {
+  const people = byUser(members);
+  if (people.length === 0) return null;
+  const hidden = people.length - max;
+
+  return (
+    <div role="group" className={cn("flex items-center -space-x-2", className)} aria-label={`${people.length} others here`}>
+      {people.slice(0, max).map(person => (
+        <Tooltip key={person.userId}>
+          <TooltipTrigger asChild>
+            <span
+              className={cn(
+                "relative flex h-8 w-8 items-center justify-center rounded-full border-2 border-background bg-secondary text-xs font-medium",
+                person.editing && "ring-2 ring-primary"
+              )}
+            >
+              {initials(person.name)}
+              {person.editing && (
+                <Pencil className="absolute -bottom-1 -right-1 h-3.5 w-3.5 rounded-full bg-primary p-0.5 text-primary-foreground" />
+              )}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{person.name} is {person.editing ? "editing" : "viewing"}</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && (
+        <span className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-background bg-muted text-xs">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PresenceIndicator;
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { type DiffLineType, REVISION_SOURCE_LABELS, type TripRevision, diffLines, revisionText, toRevision } from "@/lib/revisions";
+
+interface RevisionHistoryProps {
+  tripId: string;
+  // Bump to refetch after the trip's plan is saved elsewhere on the page
+  refreshKey: number;
+  onRestore: (revision: TripRevision) => Promise<void>;
+  readOnly?: boolean;
+}
+
+const LINE_CLASSES: Record<DiffLineType, string> = {
+  same: "",
+  removed: "bg-destructive/15 text-destructive",
+  added: "bg-primary/15 text-primary",
+  empty: "bg-muted/40",
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const RevisionHistory = ({ tripId, refreshKey, onRestore, readOnly = false }: RevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<TripRevision[]>([]);
+  const [leftId, setLeftId] = useState("");
+  const [rightId, setRightId] = useState("");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [tripId, refreshKey]);
+
+  const fetchRevisions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('trip_revisions')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const rows = (data || []).map(toRevision);
+      setRevisions(rows);
+      // Default to comparing the previous revision against the latest one
+      setRightId(rows[0]?.id ?? "");
+      setLeftId(rows[1]?.id ?? rows[0]?.id ?? "");
+    } catch (error: any) {
+      console.error('Error fetching revisions:', error);
+      toast.error("Failed to load revision history");
+    }
+  };
+
+  const left = revisions.find(revision => revision.id === leftId);
+  const right = revisions.find(revision => revision.id === rightId);
+  const rows = useMemo(
+    () => (left && right ? diffLines(revisionText(left), revisionText(right)) : []),
+    [left, right]
+  );
+
+  const handleRestore = async (revision: TripRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const revisionLabel = (revision: TripRevision) =>
+    `${formatTimestamp(revision.created_at)} • ${REVISION_SOURCE_LABELS[revision.source]}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Revision History
+        </CardTitle>
+        <CardDescription>Every saved version of this trip's plan</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No revisions saved yet</p>
+        ) : (
+          <>
+            <div className="divide-y">
+              {revisions.map((revision, index) => (
+                <div key={revision.id} className="flex items-center justify-between py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{formatTimestamp(revision.created_at)}</span>
+                    <Badge variant={revision.source === 'ai' ? 'default' : 'secondary'}>
+                      {REVISION_SOURCE_LABELS[revision.source]}
+                    </Badge>
+                    {index === 0 && <Badge variant="outline">Current</Badge>}
+                  </div>
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0 || !revision.readable || restoringId !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoringId === revision.id ? "Restoring..." : "Restore"}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {revisions.length > 1 && (
+              <div className="space-y-4">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>Compare</Label>
+                    <Select value={leftId} onValueChange={setLeftId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map(revision => (
+                          <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>With</Label>
+                    <Select value={rightId} onValueChange={setRightId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map(revision => (
+                          <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 rounded-md border font-mono text-xs max-h-[500px] overflow-auto">
+                  {rows.map((row, index) => (
+                    <div key={index} className="contents">
+                      <div className={cn("px-2 py-0.5 whitespace-pre-wrap border-r", LINE_CLASSES[row.left.type])}>
+                        {row.left.text || " "}
+                      </div>
+                      <div className={cn("px-2 py-0.5 whitespace-pre-wrap", LINE_CLASSES[row.right.type])}>
+                        {row.right.text || " "}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { BookOpen, Plus } from "lucide-react";
+import type { Itinerary } from "@/lib/itinerary";
+import { type Trip, tripDayNumber } from "@/lib/trips";
+import { inclusiveDays } from "@/lib/dates";
+import { markdownToPlainText } from "@/lib/markdown";
+import type { DiaryEntry } from "@/lib/diary";
+
+type JournalEntry = Pick<DiaryEntry, "id" | "title" | "content" | "entry_date" | "location">;
+
+interface TripJournalProps {
+  trip: Trip;
+  itinerary: Itinerary | null;
+}
+
+const dateForDay = (startDate: string, dayNumber: number) => {
+  const date = new Date(`${startDate}T00:00:00`);
+  date.setDate(date.getDate() + dayNumber - 1);
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const TripJournal = ({ trip, itinerary }: TripJournalProps) => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [trip.id]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('diary_entries')
+        .select('id, title, content, entry_date, location')
+        .eq('trip_id', trip.id)
+        .order('entry_date', { ascending: true });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error: any) {
+      console.error('Error fetching journal:', error);
+      toast.error("Failed to load trip journal");
+    }
+  };
+
+  const tripDays = Math.max(inclusiveDays(trip.start_date, trip.end_date), 1);
+  const days = Array.from({ length: tripDays }, (_, index) => index + 1);
+  const outsideTrip = entries.filter(entry => tripDayNumber(trip, entry.entry_date) === null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-primary" />
+              Plan vs. Journal
+            </CardTitle>
+            <CardDescription>What you planned next to what you wrote, day by day</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => navigate('/diary')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Write Entry
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {days.map(dayNumber => {
+          const planned = itinerary?.days.find(day => day.day_number === dayNumber);
+          const written = entries.filter(entry => tripDayNumber(trip, entry.entry_date) === dayNumber);
+
+          return (
+            <div key={dayNumber} className="rounded-lg border p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Badge>Day {dayNumber}</Badge>
+                <span className="text-sm text-muted-foreground">{dateForDay(trip.start_date, dayNumber)}</span>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="font-medium mb-1">Planned</p>
+                  {planned ? (
+                    <ul className="space-y-1">
+                      {planned.slots.flatMap(slot =>
+                        slot.activities.map(activity => (
+                          <li key={activity.id}>
+                            <span className="text-muted-foreground">{slot.label}:</span> {activity.title}
+                          </li>
+                        ))
+                      )}
+                    </ul>
+                  ) : (
+                    <p className="text-muted-foreground">Nothing planned</p>
+                  )}
+                </div>
+                <div>
+                  <p className="font-medium mb-1">Journal</p>
+                  {written.length > 0 ? (
+                    <div className="space-y-2">
+                      {written.map(entry => (
+                        <div key={entry.id}>
+                          <p className="font-medium">{entry.title}</p>
+                          {entry.location && <p className="text-xs text-muted-foreground">{entry.location}</p>}
+                          <p className="line-clamp-3 whitespace-pre-line">{markdownToPlainText(entry.content)}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">No entries yet</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {outsideTrip.length > 0 && (
+          <div className="rounded-lg border p-4 text-sm">
+            <p className="font-medium mb-2">Outside the trip dates</p>
+            {outsideTrip.map(entry => (
+              <p key={entry.id}>
+                <span className="text-muted-foreground">{entry.entry_date}:</span> {entry.title}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TripJournal;
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Copy, Link2, LogOut, Mail, Trash2, Users, X } from "lucide-react";
+import { z } from "zod";
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  type InviteRole,
+  type TripInvitation,
+  type TripMember,
+  type TripRole,
+  canManageMembers,
+  createInvitation,
+  fetchTripInvitations,
+  fetchTripMembers,
+  inviteLink,
+  isExpired,
+  memberName,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+} from "@/lib/tripMembers";
+import { useAuth } from "@/hooks/useAuth";
+
+interface TripMembersProps {
+  tripId: string;
+  role: TripRole | null;
+  // Called after the current user leaves the trip
+  onLeave: () => void;
+}
+
+const INVITE_ROLES: InviteRole[] = ["editor", "viewer"];
+
+const emailSchema = z.string().trim().email("Enter a valid email address");
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const TripMembers = ({ tripId, role, onLeave }: TripMembersProps) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<TripMember[]>([]);
+  const [invitations, setInvitations] = useState<TripInvitation[]>([]);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [inviting, setInviting] = useState(false);
+  const isOwner = canManageMembers(role);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [tripId, isOwner]);
+
+  const fetchMembers = async () => {
+    try {
+      const [memberRows, invitationRows] = await Promise.all([
+        fetchTripMembers(tripId),
+        isOwner ? fetchTripInvitations(tripId) : Promise.resolve([]),
+      ]);
+      setMembers(memberRows);
+      setInvitations(invitationRows.filter(invitation => !isExpired(invitation)));
+    } catch (error: any) {
+      console.error('Error fetching trip members:', error);
+      toast.error("Failed to load trip members");
+    }
+  };
+
+  const copyLink = async (invitation: TripInvitation) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(invitation.token));
+      toast.success("Invite link copied");
+    } catch (error: any) {
+      console.error('Error copying invite link:', error);
+      toast.error("Couldn't copy the link. Copy it from the address shown instead.");
+    }
+  };
+
+  const invite = async (byEmail: boolean) => {
+    if (!user) return;
+    const parsedEmail = byEmail ? emailSchema.safeParse(email) : null;
+    if (parsedEmail && !parsedEmail.success) {
+      toast.error(parsedEmail.error.issues[0].message);
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const invitation = await createInvitation(tripId, user.id, inviteRole, parsedEmail?.data ?? null);
+      setInvitations(prev => [invitation, ...prev]);
+      setEmail("");
+      if (byEmail) {
+        toast.success(`Invited ${invitation.email}. They'll see it under My Trips when they sign in.`);
+      } else {
+        await copyLink(invitation);
+      }
+    } catch (error: any) {
+      console.error('Error creating invitation:', error);
+      toast.error(error.message || "Failed to create invitation");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const revoke = async (invitation: TripInvitation) => {
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      toast.success("Invitation revoked");
+    } catch (error: any) {
+      console.error('Error revoking invitation:', error);
+      toast.error("Failed to revoke invitation");
+    }
+  };
+
+  const changeRole = async (member: TripMember, next: InviteRole) => {
+    const previous = members;
+    setMembers(prev => prev.map(item => (item.user_id === member.user_id ? { ...item, role: next } : item)));
+    try {
+      await updateMemberRole(tripId, member.user_id, next);
+      toast.success(`${memberName(member)} is now ${ROLE_LABELS[next].toLowerCase()}`);
+    } catch (error: any) {
+      console.error('Error updating member role:', error);
+      setMembers(previous);
+      toast.error("Failed to change role");
+    }
+  };
+
+  const remove = async (member: TripMember) => {
+    const leaving = member.user_id === user?.id;
+    try {
+      await removeMember(tripId, member.user_id);
+      if (leaving) {
+        toast.success("You left the trip");
+        onLeave();
+        return;
+      }
+      setMembers(prev => prev.filter(item => item.user_id !== member.user_id));
+      toast.success(`${memberName(member)} was removed from the trip`);
+    } catch (error: any) {
+      console.error('Error removing member:', error);
+      toast.error(leaving ? "Failed to leave trip" : "Failed to remove member");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          {isOwner ? "Invite travel companions to plan this trip with you" : role ? ROLE_DESCRIPTIONS[role] : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="divide-y">
+          {members.map(member => {
+            const isSelf = member.user_id === user?.id;
+            return (
+              <div key={member.user_id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {memberName(member)}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  {member.full_name && <p className="text-muted-foreground truncate">{member.email}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {isOwner && member.role !== 'owner' ? (
+                    <Select value={member.role} onValueChange={(value) => changeRole(member, value as InviteRole)}>
+                      <SelectTrigger className="w-28 h-8" aria-label={`Role for ${memberName(member)}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITE_ROLES.map(option => (
+                          <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant={member.role === 'owner' ? "default" : "secondary"}>{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {member.role !== 'owner' && (isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(member)}
+                      aria-label={isSelf ? "Leave trip" : `Remove ${memberName(member)}`}
+                    >
+                      {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-3">
+            <Label htmlFor="invite-email">Invite someone</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="friend@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                <SelectTrigger className="sm:w-32" aria-label="Role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITE_ROLES.map(option => (
+                    <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => invite(true)} disabled={inviting || !email.trim()}>
+                <Mail className="h-4 w-4 mr-2" />
+                Invite by email
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => invite(false)} disabled={inviting}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Create invite link
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isOwner && invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pending invitations</p>
+            <div className="divide-y">
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">{invitation.email ?? "Anyone with the link"}</p>
+                    <p className="text-muted-foreground">
+                      {ROLE_LABELS[invitation.role]} • expires {formatDate(invitation.expires_at)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(invitation)} aria-label="Copy invite link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => revoke(invitation)} aria-label="Revoke invitation">
+                      <X className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TripMembers;
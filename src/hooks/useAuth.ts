@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  // True until the persisted session has been read
+  loading: boolean;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = () => {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used within an AuthProvider");
+  return auth;
+};
+
+// Where to send the user after signing in; survives the OAuth round trip
+export const REDIRECT_STORAGE_KEY = "tripsense.redirectAfterLogin";
+
+export const rememberRedirect = (path: string) => sessionStorage.setItem(REDIRECT_STORAGE_KEY, path);
+
+export const takeRedirect = () => {
+  const path = sessionStorage.getItem(REDIRECT_STORAGE_KEY);
+  sessionStorage.removeItem(REDIRECT_STORAGE_KEY);
+  // Only same-site paths, never "//host" or absolute URLs
+  return path && path.startsWith("/") && !path.startsWith("//") ? path : null;
+};
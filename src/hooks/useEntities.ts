@@ -0,0 +1,125 @@
+import { useContext, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { type QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { type EntityRow, type EntityTable, NotAuthenticatedError } from "@/lib/data/backend";
+import { RepositoriesContext } from "@/lib/data/context";
+import type { EntityValues, Repositories, Repository } from "@/lib/data/repositories";
+import { mergeRowChange } from "@/lib/realtime/transport";
+import { useRowChanges } from "@/hooks/useRealtime";
+
+export const queryKeys = {
+  trips: ["trips"],
+  diaryEntries: ["diary_entries"],
+  destinations: ["saved_destinations"],
+} as const;
+
+export const useRepositories = () => useContext(RepositoriesContext);
+
+export const invalidateEntityQueries = (client: QueryClient) =>
+  Promise.all(Object.values(queryKeys).map((queryKey) => client.invalidateQueries({ queryKey })));
+
+// Applies an optimistic change to a cached list and returns the snapshot for rollback
+const patchList = async <T>(client: QueryClient, key: readonly string[], patch: (rows: T[]) => T[]) => {
+  await client.cancelQueries({ queryKey: key });
+  const previous = client.getQueryData<T[]>(key);
+  if (previous) client.setQueryData<T[]>(key, patch(previous));
+  return { previous };
+};
+
+const createEntityHooks = <T extends EntityRow>(
+  key: readonly string[],
+  table: EntityTable,
+  select: (repositories: Repositories) => Repository<T>
+) => {
+  const useRepository = () => select(useRepositories());
+
+  const useList = () => {
+    const repository = useRepository();
+    const client = useQueryClient();
+
+    // Merge other clients' inserts, updates and deletes into whatever view is open
+    useRowChanges(table, (change) => {
+      client.setQueryData<T[]>(key, (rows) => rows && mergeRowChange(rows, change));
+    });
+
+    return useQuery({
+      queryKey: key,
+      queryFn: () => repository.list(),
+      retry: (count, error) => !(error instanceof NotAuthenticatedError) && count < 2,
+    });
+  };
+
+  const useCreate = () => {
+    const repository = useRepository();
+    const client = useQueryClient();
+    return useMutation({
+      mutationFn: (values: EntityValues<T>) => repository.create(values),
+      onSettled: () => client.invalidateQueries({ queryKey: key }),
+    });
+  };
+
+  const useUpdate = () => {
+    const repository = useRepository();
+    const client = useQueryClient();
+    return useMutation({
+      mutationFn: ({ row, values }: { row: T; values: EntityValues<T> }) => repository.update(row, values),
+      onMutate: ({ row, values }) =>
+        patchList<T>(client, key, (rows) => rows.map((item) => (item.id === row.id ? { ...item, ...values } : item))),
+      onError: (_error, _variables, context) => {
+        if (context?.previous) client.setQueryData(key, context.previous);
+      },
+      onSettled: () => client.invalidateQueries({ queryKey: key }),
+    });
+  };
+
+  const useRemove = () => {
+    const repository = useRepository();
+    const client = useQueryClient();
+    return useMutation({
+      mutationFn: (row: T) => repository.remove(row),
+      onMutate: (row) => patchList<T>(client, key, (rows) => rows.filter((item) => item.id !== row.id)),
+      onError: (_error, _row, context) => {
+        if (context?.previous) client.setQueryData(key, context.previous);
+      },
+      onSettled: () => client.invalidateQueries({ queryKey: key }),
+    });
+  };
+
+  return { useList, useCreate, useUpdate, useRemove };
+};
+
+export const {
+  useList: useTrips,
+  useCreate: useCreateTrip,
+  useUpdate: useUpdateTrip,
+  useRemove: useDeleteTrip,
+} = createEntityHooks(queryKeys.trips, 'trips', (repositories) => repositories.trips);
+
+export const {
+  useList: useDiaryEntries,
+  useCreate: useCreateDiaryEntry,
+  useUpdate: useUpdateDiaryEntry,
+  useRemove: useDeleteDiaryEntry,
+} = createEntityHooks(queryKeys.diaryEntries, 'diary_entries', (repositories) => repositories.diaryEntries);
+
+export const {
+  useList: useDestinations,
+  useCreate: useCreateDestination,
+  useUpdate: useUpdateDestination,
+  useRemove: useDeleteDestination,
+} = createEntityHooks(queryKeys.destinations, 'saved_destinations', (repositories) => repositories.destinations);
+
+// Sends signed-out users to /auth and reports other load failures once
+export const useQueryErrorToast = (error: unknown, message: string) => {
+  const navigate = useNavigate();
+  useEffect(() => {
+    if (!error) return;
+    if (error instanceof NotAuthenticatedError) {
+      navigate('/auth');
+      return;
+    }
+    console.error(`${message}:`, error);
+    toast.error(message);
+  }, [error, message, navigate]);
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_RATES,
+  type ExchangeRates,
+  RATES_CHANGED_EVENT,
+  RATES_STORAGE_KEY,
+  loadRates,
+  saveRates,
+} from "@/lib/currency";
+
+// Rates table persisted in localStorage and kept in sync across components and tabs
+export const useExchangeRates = () => {
+  const [rates, setRatesState] = useState<ExchangeRates>(loadRates);
+
+  useEffect(() => {
+    const reload = () => setRatesState(loadRates());
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === RATES_STORAGE_KEY) reload();
+    };
+    window.addEventListener(RATES_CHANGED_EVENT, reload);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      window.removeEventListener(RATES_CHANGED_EVENT, reload);
+      window.removeEventListener("storage", onStorage);
+    };
+  }, []);
+
+  const setRates = useCallback((next: ExchangeRates) => saveRates(next), []);
+  const resetRates = useCallback(() => saveRates(DEFAULT_RATES), []);
+
+  return { rates, setRates, resetRates };
+};
@@ -0,0 +1,31 @@
+import { useQueries } from "@tanstack/react-query";
+import { type GeoPoint, geocoder } from "@/lib/geo/geocoder";
+
+// Geocodes each distinct place name once. Runs offline too, where the gazetteer still answers.
+export const useGeocodedPlaces = (places: string[]) => {
+  const unique = [...new Set(places.map((place) => place.trim()).filter(Boolean))];
+
+  const results = useQueries({
+    queries: unique.map((place) => ({
+      queryKey: ["geocode", place.toLowerCase()],
+      queryFn: ({ signal }: { signal: AbortSignal }) => geocoder.geocode(place, signal),
+      staleTime: Infinity,
+      gcTime: Infinity,
+      retry: false,
+      networkMode: "always" as const,
+    })),
+  });
+
+  const points = new Map<string, GeoPoint | null>();
+  unique.forEach((place, index) => {
+    const { data, isError } = results[index];
+    if (data !== undefined || isError) points.set(place.toLowerCase(), data ?? null);
+  });
+
+  return {
+    // Keyed by lower-cased place name; null means the place could not be located
+    lookup: (place: string) => points.get(place.trim().toLowerCase()),
+    pending: unique.length - points.size,
+    total: unique.length,
+  };
+};
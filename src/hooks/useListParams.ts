@@ -0,0 +1,36 @@
+import { useSearchParams } from "react-router-dom";
+
+// List view state (search, filters, sort, page) kept in the URL query so views can be shared
+// and bookmarked. Changing anything other than the page goes back to the first page.
+export const useListParams = <K extends string>(keys: readonly K[]) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const params = Object.fromEntries(keys.map((key) => [key, searchParams.get(key) ?? ""])) as Record<K, string>;
+  const rawPage = Number(searchParams.get("page"));
+  const page = Number.isInteger(rawPage) && rawPage > 0 ? rawPage : null;
+  const active = keys.some((key) => key !== "sort" && params[key] !== "");
+
+  const update = (changes: Record<string, string>, replace = true) =>
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        for (const [key, value] of Object.entries(changes)) {
+          if (value) next.set(key, value);
+          else next.delete(key);
+        }
+        return next;
+      },
+      { replace }
+    );
+
+  return {
+    params,
+    // Null when the URL doesn't name a page
+    page,
+    // True when any search or filter (not just the sort) is applied
+    active,
+    setParam: (key: K, value: string) => update({ [key]: value, page: "" }),
+    setPage: (next: number) => update({ page: next > 1 ? String(next) : "" }, false),
+    clear: () => update(Object.fromEntries([...keys.filter((key) => key !== "sort"), "page"].map((key) => [key, ""]))),
+  };
+};
@@ -0,0 +1,57 @@
+import { useContext, useEffect, useRef, useState } from "react";
+import { RealtimeContext } from "@/lib/realtime/context";
+import type {
+  PresenceHandle,
+  PresenceMember,
+  RealtimeTable,
+  RowChange,
+  RowFilter,
+} from "@/lib/realtime/transport";
+import { useAuth } from "@/hooks/useAuth";
+
+export const useRealtime = () => useContext(RealtimeContext);
+
+// Calls onChange for every remote change to the table; the latest callback is always used
+export const useRowChanges = (
+  table: RealtimeTable,
+  onChange: (change: RowChange) => void,
+  filter?: RowFilter | null
+) => {
+  const transport = useRealtime();
+  const { user } = useAuth();
+  const callback = useRef(onChange);
+  callback.current = onChange;
+  const enabled = !!user && filter !== null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return transport.subscribe(table, (change) => callback.current(change), filter ?? undefined);
+  }, [transport, table, enabled, filter?.column, filter?.value]);
+};
+
+// Everyone else on the topic. Pass { editing } to show up yourself, or null to only watch.
+export const usePresence = (topic: string | null, own: { editing: boolean } | null) => {
+  const transport = useRealtime();
+  const { user } = useAuth();
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const handle = useRef<PresenceHandle | null>(null);
+  // Presence is visible to everyone on the topic, so it carries the display name but never the email
+  const name = (user?.user_metadata?.full_name as string | undefined) || "Traveler";
+
+  useEffect(() => {
+    if (!topic || !user) return;
+    const joined = transport.joinPresence(topic, setMembers);
+    handle.current = joined;
+    return () => {
+      handle.current = null;
+      joined.leave();
+      setMembers([]);
+    };
+  }, [transport, topic, user?.id]);
+
+  useEffect(() => {
+    if (own && user) handle.current?.track({ userId: user.id, name, editing: own.editing });
+  }, [transport, topic, user?.id, name, own === null, own?.editing]);
+
+  return members.filter((member) => member.userId !== user?.id);
+};
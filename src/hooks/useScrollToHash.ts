@@ -0,0 +1,16 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
+
+// Scrolls to the element named by the URL hash once the page has rendered its content,
+// and returns that id so the page can highlight it
+export const useScrollToHash = (ready: boolean) => {
+  const { hash } = useLocation();
+  const target = decodeURIComponent(hash.slice(1));
+
+  useEffect(() => {
+    if (!ready || !target) return;
+    document.getElementById(target)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [ready, target]);
+
+  return target;
+};
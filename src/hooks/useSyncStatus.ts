@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { invalidateEntityQueries } from "@/hooks/useEntities";
+import { SYNC_CHANGED_EVENT, type SyncConflict, flushQueue, listConflicts, listPending } from "@/lib/offline/sync";
+
+// Connection state plus the offline queue, replayed automatically on reconnect
+export const useSyncStatus = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pending, setPending] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const queryClient = useQueryClient();
+
+  const refresh = useCallback(async () => {
+    try {
+      const [operations, found] = await Promise.all([listPending(), listConflicts()]);
+      setPending(operations.length);
+      setConflicts(found);
+    } catch (error) {
+      console.error('Error reading sync state:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      await flushQueue();
+      // Replayed rows now carry server timestamps
+      invalidateEntityQueries(queryClient);
+    } finally {
+      setSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    refresh();
+    if (navigator.onLine) syncNow();
+
+    const goOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const goOffline = () => setOnline(false);
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    window.addEventListener(SYNC_CHANGED_EVENT, refresh);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      window.removeEventListener(SYNC_CHANGED_EVENT, refresh);
+    };
+  }, [refresh, syncNow]);
+
+  return { online, pending, conflicts, syncing, syncNow };
+};
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { type TravelProfileValues, fetchTravelProfile, saveTravelProfile } from "@/lib/travelProfile";
+import { useAuth } from "@/hooks/useAuth";
+
+const profileKey = (userId: string | undefined) => ["travel_profile", userId ?? ""] as const;
+
+// The signed-in user's travel profile; data is null when they haven't saved one
+export const useTravelProfile = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: profileKey(user?.id),
+    queryFn: () => fetchTravelProfile(user!.id),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveTravelProfile = () => {
+  const { user } = useAuth();
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (values: TravelProfileValues) => {
+      if (!user) throw new Error("Not authenticated");
+      return saveTravelProfile(user.id, values);
+    },
+    onSuccess: (profile) => client.setQueryData(profileKey(user?.id), profile),
+  });
+};
@@ -0,0 +1,811 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      diary_entries: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          content: string
+          entry_date: string
+          location: string | null
+          trip_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          content: string
+          entry_date?: string
+          location?: string | null
+          trip_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          content?: string
+          entry_date?: string
+          location?: string | null
+          trip_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diary_entries_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      diary_media: {
+        Row: {
+          id: string
+          entry_id: string
+          user_id: string
+          path: string
+          thumbnail_path: string
+          width: number
+          height: number
+          taken_at: string | null
+          latitude: number | null
+          longitude: number | null
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          entry_id: string
+          user_id: string
+          path: string
+          thumbnail_path: string
+          width: number
+          height: number
+          taken_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          entry_id?: string
+          user_id?: string
+          path?: string
+          thumbnail_path?: string
+          width?: number
+          height?: number
+          taken_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          position?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diary_media_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "diary_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_payments: {
+        Row: {
+          id: string
+          trip_id: string
+          user_id: string
+          from_participant: string
+          to_participant: string
+          amount: number
+          currency: string
+          paid_on: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          user_id: string
+          from_participant: string
+          to_participant: string
+          amount: number
+          currency?: string
+          paid_on?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          user_id?: string
+          from_participant?: string
+          to_participant?: string
+          amount?: number
+          currency?: string
+          paid_on?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_payments_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expenses: {
+        Row: {
+          id: string
+          trip_id: string
+          user_id: string
+          amount: number
+          currency: string
+          category: string
+          expense_date: string
+          payer: string
+          description: string
+          split_mode: string
+          splits: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          user_id: string
+          amount: number
+          currency?: string
+          category?: string
+          expense_date?: string
+          payer: string
+          description?: string
+          split_mode?: string
+          splits?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          user_id?: string
+          amount?: number
+          currency?: string
+          category?: string
+          expense_date?: string
+          payer?: string
+          description?: string
+          split_mode?: string
+          splits?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interests: {
+        Row: {
+          id: string
+          user_id: string
+          interest: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          interest: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          interest?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      packing_items: {
+        Row: {
+          id: string
+          trip_id: string
+          user_id: string
+          label: string
+          category: string
+          quantity: number
+          packed: boolean
+          position: number
+          source: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          user_id: string
+          label: string
+          category?: string
+          quantity?: number
+          packed?: boolean
+          position?: number
+          source?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          user_id?: string
+          label?: string
+          category?: string
+          quantity?: number
+          packed?: boolean
+          position?: number
+          source?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "packing_items_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      packing_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          items: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          items?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          items?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          id: string
+          full_name: string | null
+          avatar_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          full_name?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          full_name?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_destinations: {
+        Row: {
+          id: string
+          user_id: string
+          destination_name: string
+          location: string | null
+          description: string | null
+          category: string | null
+          notes: string | null
+          status: string
+          trip_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          destination_name: string
+          location?: string | null
+          description?: string | null
+          category?: string | null
+          notes?: string | null
+          status?: string
+          trip_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          destination_name?: string
+          location?: string | null
+          description?: string | null
+          category?: string | null
+          notes?: string | null
+          status?: string
+          trip_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_destinations_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      travel_profiles: {
+        Row: {
+          user_id: string
+          default_interests: string[]
+          budget_min: number | null
+          budget_max: number | null
+          home_currency: string | null
+          dietary_needs: string
+          mobility_constraints: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          default_interests?: string[]
+          budget_min?: number | null
+          budget_max?: number | null
+          home_currency?: string | null
+          dietary_needs?: string
+          mobility_constraints?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          default_interests?: string[]
+          budget_min?: number | null
+          budget_max?: number | null
+          home_currency?: string | null
+          dietary_needs?: string
+          mobility_constraints?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      trip_activities: {
+        Row: {
+          id: string
+          trip_id: string
+          user_id: string
+          day_number: number
+          day_title: string
+          slot_label: string
+          position: number
+          title: string
+          place: string
+          duration_minutes: number | null
+          cost_estimate: number | null
+          category: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          user_id: string
+          day_number: number
+          day_title?: string
+          slot_label: string
+          position?: number
+          title: string
+          place?: string
+          duration_minutes?: number | null
+          cost_estimate?: number | null
+          category?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          user_id?: string
+          day_number?: number
+          day_title?: string
+          slot_label?: string
+          position?: number
+          title?: string
+          place?: string
+          duration_minutes?: number | null
+          cost_estimate?: number | null
+          category?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_activities_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_invitations: {
+        Row: {
+          id: string
+          trip_id: string
+          invited_by: string
+          email: string | null
+          role: string
+          token: string
+          status: string
+          expires_at: string
+          responded_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          invited_by: string
+          email?: string | null
+          role: string
+          token?: string
+          status?: string
+          expires_at?: string
+          responded_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          invited_by?: string
+          email?: string | null
+          role?: string
+          token?: string
+          status?: string
+          expires_at?: string
+          responded_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_invitations_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_members: {
+        Row: {
+          trip_id: string
+          user_id: string
+          role: string
+          created_at: string
+        }
+        Insert: {
+          trip_id: string
+          user_id: string
+          role: string
+          created_at?: string
+        }
+        Update: {
+          trip_id?: string
+          user_id?: string
+          role?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_members_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_revisions: {
+        Row: {
+          id: string
+          trip_id: string
+          user_id: string
+          notes: string
+          itinerary: Json | null
+          source: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trip_id: string
+          user_id: string
+          notes?: string
+          itinerary?: Json | null
+          source: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trip_id?: string
+          user_id?: string
+          notes?: string
+          itinerary?: Json | null
+          source?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_revisions_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trips: {
+        Row: {
+          id: string
+          user_id: string
+          destination: string
+          start_date: string
+          end_date: string
+          budget: number | null
+          currency: string
+          travel_type: string | null
+          status: string
+          notes: string | null
+          interests: string[]
+          member_ids: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          destination: string
+          start_date: string
+          end_date: string
+          budget?: number | null
+          currency?: string
+          travel_type?: string | null
+          status?: string
+          notes?: string | null
+          interests?: string[]
+          member_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          destination?: string
+          start_date?: string
+          end_date?: string
+          budget?: number | null
+          currency?: string
+          travel_type?: string | null
+          status?: string
+          notes?: string | null
+          interests?: string[]
+          member_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      can_edit_trip: {
+        Args: { _trip_id: string }
+        Returns: boolean
+      }
+      is_trip_member: {
+        Args: { _trip_id: string }
+        Returns: boolean
+      }
+      trip_role: {
+        Args: { _trip_id: string }
+        Returns: string
+      }
+      trip_id_from_topic: {
+        Args: { _topic: string }
+        Returns: string
+      }
+      get_trip_invitation: {
+        Args: { _token: string }
+        Returns: {
+          trip_id: string
+          destination: string
+          start_date: string
+          end_date: string
+          role: string
+          status: string
+          email: string
+          expires_at: string
+          invited_by_name: string
+        }[]
+      }
+      list_trip_members: {
+        Args: { _trip_id: string }
+        Returns: {
+          user_id: string
+          role: string
+          full_name: string
+          email: string
+          joined_at: string
+        }[]
+      }
+      my_trip_invitations: {
+        Args: never
+        Returns: {
+          token: string
+          trip_id: string
+          destination: string
+          start_date: string
+          end_date: string
+          role: string
+          expires_at: string
+          invited_by_name: string
+        }[]
+      }
+      respond_to_trip_invitation: {
+        Args: { _token: string; _accept: boolean }
+        Returns: string
+      }
+      reorder_packing_items: {
+        Args: { _ids: string[]; _positions: number[] }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
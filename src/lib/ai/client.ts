@@ -0,0 +1,143 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AiRequestError, errorFromStatus, toAiError } from "@/lib/ai/errors";
+import { mockFetch } from "@/lib/ai/mock";
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// Set VITE_AI_MOCK=true to serve AI edge functions from src/lib/ai/mock.ts
+export const AI_MOCK_ENABLED = import.meta.env.VITE_AI_MOCK === "true";
+
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  onRetry?: (attempt: number, error: AiRequestError, delayMs: number) => void;
+}
+
+export interface AiStreamOptions extends AiCallOptions {
+  // Receives the full text generated so far; restarts from "" after a retry
+  onText?: (text: string) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AiRequestError("aborted"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiRequestError("aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const backoffDelay = (attempt: number) => Math.min(1000 * 2 ** (attempt - 1), 8000) + Math.random() * 250;
+
+const withRetry = async <T>(run: () => Promise<T>, { signal, retries = 3, onRetry }: AiCallOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (raw) {
+      const error = signal?.aborted ? new AiRequestError("aborted") : toAiError(raw);
+      if (!error.retryable || attempt > retries) throw error;
+      const delay = backoffDelay(attempt);
+      onRetry?.(attempt, error, delay);
+      await wait(delay, signal);
+    }
+  }
+};
+
+const post = async (name: string, body: unknown, signal?: AbortSignal) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const init: RequestInit = {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      apikey: PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+  };
+
+  const response = AI_MOCK_ENABLED ? await mockFetch(name, init) : await fetch(`${FUNCTIONS_URL}/${name}`, init);
+  if (!response.ok) {
+    let detail: string | undefined;
+    try {
+      detail = (await response.json()).error;
+    } catch {
+      // Error bodies are not always JSON
+    }
+    throw errorFromStatus(response.status, detail);
+  }
+  return response;
+};
+
+// Reads an OpenAI-style server-sent event stream, calling onDelta per content chunk
+const readEventStream = async (response: Response, onDelta: (delta: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith("data:")) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+      try {
+        const parsed = JSON.parse(payload);
+        if (parsed.error) throw new AiRequestError("server", parsed.error);
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) onDelta(delta);
+      } catch (error) {
+        if (error instanceof AiRequestError) throw error;
+        // Ignore malformed events
+      }
+    }
+  }
+};
+
+/**
+ * Calls an AI edge function and streams its text output. Falls back to the
+ * `recommendations`/`text` field when the function answers with plain JSON.
+ * Retries retryable failures with exponential backoff; aborting the signal
+ * rejects with an `aborted` AiRequestError.
+ */
+export const streamAiFunction = (name: string, body: Record<string, unknown>, options: AiStreamOptions = {}) =>
+  withRetry(async () => {
+    let text = "";
+    options.onText?.(text);
+
+    const response = await post(name, { ...body, stream: true }, options.signal);
+    if (response.headers.get("content-type")?.includes("text/event-stream")) {
+      await readEventStream(response, (delta) => {
+        text += delta;
+        options.onText?.(text);
+      });
+    } else {
+      const data = await response.json();
+      text = data.recommendations ?? data.text ?? "";
+      options.onText?.(text);
+    }
+    return text;
+  }, options);
+
+// Non-streaming call for functions that return structured JSON
+export const invokeAiFunction = <T>(name: string, body: Record<string, unknown>, options: AiCallOptions = {}) =>
+  withRetry(async () => {
+    const response = await post(name, body, options.signal);
+    return (await response.json()) as T;
+  }, options);
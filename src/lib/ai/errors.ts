@@ -0,0 +1,42 @@
+export type AiErrorKind = "rate_limit" | "quota" | "network" | "bad_input" | "aborted" | "server";
+
+const MESSAGES: Record<AiErrorKind, string> = {
+  rate_limit: "Too many requests right now. Please wait a moment and try again.",
+  quota: "AI usage limit reached. Please add credits or try again later.",
+  network: "Couldn't reach the AI service. Check your connection and try again.",
+  bad_input: "The AI service rejected the request. Please check your trip details.",
+  aborted: "Generation cancelled.",
+  server: "The AI service ran into a problem. Please try again.",
+};
+
+export class AiRequestError extends Error {
+  readonly kind: AiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: AiErrorKind, detail?: string, status?: number) {
+    super(detail ? `${MESSAGES[kind]} (${detail})` : MESSAGES[kind]);
+    this.name = "AiRequestError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  // Rate limits, dropped connections and 5xx are worth another attempt
+  get retryable() {
+    return this.kind === "rate_limit" || this.kind === "network" || this.kind === "server";
+  }
+}
+
+export const errorFromStatus = (status: number, detail?: string) => {
+  if (status === 429) return new AiRequestError("rate_limit", detail, status);
+  if (status === 402) return new AiRequestError("quota", detail, status);
+  if (status >= 400 && status < 500) return new AiRequestError("bad_input", detail, status);
+  return new AiRequestError("server", detail, status);
+};
+
+export const toAiError = (error: unknown): AiRequestError => {
+  if (error instanceof AiRequestError) return error;
+  if (error instanceof DOMException && error.name === "AbortError") return new AiRequestError("aborted");
+  // fetch rejects with a TypeError when the network is unavailable
+  if (error instanceof TypeError) return new AiRequestError("network", error.message);
+  return new AiRequestError("server", error instanceof Error ? error.message : undefined);
+};
@@ -0,0 +1,183 @@
+// Local stand-in for the AI edge functions, enabled with VITE_AI_MOCK=true.
+// Answers with an event stream when the request body has `stream: true`,
+// mirroring the real functions. Set VITE_AI_MOCK_FAILURE to a status code
+// (e.g. 429) to make every other attempt fail and exercise the retry path.
+
+import type { PackingSuggestionRequest } from "@/lib/ai/packing";
+import type { RefineRequest } from "@/lib/ai/recommendations";
+import type { SuggestionRequest } from "@/lib/ai/suggestions";
+
+// Request bodies per function. They come straight from the caller, so handlers
+// see every field as optional.
+interface MockRequests {
+  "travel-recommendations": RefineRequest & { mode: "refine" };
+  "destination-suggestions": SuggestionRequest;
+  "packing-suggestions": PackingSuggestionRequest;
+}
+
+type MockHandler<T> = (body: Partial<T>) => string | Record<string, unknown>;
+
+const pick = <T>(items: T[], index: number) => items[index % items.length];
+
+const refineSection = (body: Partial<RefineRequest>) => {
+  const [heading, ...rest] = String(body.section || "").split("\n");
+  const instruction = String(body.instruction || "").toLowerCase();
+  const relaxed = /relax|slow|easy|rest/.test(instruction);
+
+  const lines = rest.filter((line) => !(relaxed && /^\s*-/.test(line) && /evening|dinner|bar/i.test(line)));
+  if (relaxed) lines.push("### Afternoon", "- Free time to rest at the hotel (2 hours)");
+  if (/food|eat|restaurant/.test(instruction)) lines.push("- Street food tasting at the night market (2 hours, $25)");
+  return [heading, ...lines, "", `*Updated: ${body.instruction}*`].join("\n");
+};
+
+const recommendations: MockHandler<MockRequests["travel-recommendations"]> = (body) => {
+  if (body.mode === "refine") return refineSection(body);
+
+  const destination = body.destination || "your destination";
+  const days = Math.max(Number(body.days) || 3, 1);
+  // Like the real function, fall back on the traveller's profile for what the form leaves out
+  const profile = body.profile;
+  const interests = body.interests?.length ? body.interests : profile?.interests?.length ? profile.interests : ["Culture", "Food"];
+  const outing = profile?.mobilityConstraints ? "step-free tram tour" : "walk";
+  const dinner = profile?.dietaryNeeds ? `a local restaurant that caters for ${profile.dietaryNeeds}` : "a local restaurant";
+
+  const lines = [`# ${days}-day ${body.travelType || ""} trip to ${destination}`.replace(/\s+/g, " "), ""];
+  for (let day = 1; day <= days; day++) {
+    const interest = pick(interests, day - 1);
+    lines.push(
+      `## Day ${day}: ${interest} in ${destination}`,
+      "",
+      "### Morning",
+      `- Visit the old town at ${destination} Historic Quarter (2 hours, $15)`,
+      "### Afternoon",
+      `- ${interest} ${outing} - Central district (3 hours, $30)`,
+      "### Evening",
+      `- Dinner at ${dinner} (1.5 hours, $40)`,
+      ""
+    );
+  }
+  lines.push("**Tip:** Carry some cash for small vendors.");
+  return lines.join("\n");
+};
+
+const HIDDEN_GEMS = [
+  { name: "Kinosaki Onsen", location: "Hyogo, Japan", category: "Wellness", description: "A canal-side hot spring town where guests stroll between seven public baths in yukata." },
+  { name: "Matera Sassi", location: "Basilicata, Italy", category: "History", description: "Ancient cave dwellings carved into a ravine, now restored into candlelit hotels and restaurants." },
+  { name: "Chefchaouen", location: "Rif Mountains, Morocco", category: "Photography", description: "A blue-washed mountain town with quiet lanes and trails into the surrounding hills." },
+  { name: "Lofoten Islands", location: "Nordland, Norway", category: "Nature", description: "Jagged peaks rising straight out of the sea, with red fishing cabins and midnight sun hikes." },
+  { name: "Oaxaca City", location: "Oaxaca, Mexico", category: "Food", description: "The home of mole and mezcal, with lively markets and a strong indigenous craft scene." },
+  { name: "Kotor", location: "Bay of Kotor, Montenegro", category: "Adventure", description: "A walled old town beneath a fjord-like bay, with a fortress climb for sweeping views." },
+  { name: "Hoi An Ancient Town", location: "Quang Nam, Vietnam", category: "Culture", description: "Lantern-lit merchant houses, tailors and riverside night markets." },
+  { name: "Siquijor", location: "Central Visayas, Philippines", category: "Beaches", description: "A quiet island of waterfalls, coral reefs and folk healers far from the resort crowds." },
+  { name: "Tbilisi Old Town", location: "Tbilisi, Georgia", category: "Nightlife", description: "Sulphur baths by day and wine bars in restored courtyards by night." },
+  { name: "Ljubljana Central Market", location: "Ljubljana, Slovenia", category: "Shopping", description: "Riverside stalls of local cheese, honey and crafts in a compact, walkable capital." },
+];
+
+const destinationSuggestions: MockHandler<MockRequests["destination-suggestions"]> = (body) => {
+  const saved = new Set((body.savedDestinations ?? []).map((dest) => String(dest.name ?? "").toLowerCase()));
+  const interests = body.interests ?? [];
+  const count = Math.min(Math.max(Number(body.count) || 6, 1), HIDDEN_GEMS.length);
+
+  const suggestions = HIDDEN_GEMS.filter((gem) => !saved.has(gem.name.toLowerCase()))
+    .sort((a, b) => Number(interests.includes(b.category)) - Number(interests.includes(a.category)))
+    .slice(0, count)
+    .map((gem) => ({
+      ...gem,
+      reason: interests.includes(gem.category)
+        ? `Matches your interest in ${gem.category.toLowerCase()}.`
+        : "A lesser-known spot that fits the style of your past trips.",
+    }));
+  return { suggestions };
+};
+
+const PACKING_EXTRAS = [
+  { label: "Universal power adapter", category: "electronics", quantity: 1, reason: "Plug types differ from home." },
+  { label: "Photocopies of your passport", category: "essentials", quantity: 2, reason: "Handy if the original is lost." },
+  { label: "Small amount of local currency", category: "essentials", quantity: 1, reason: "For taxis and street vendors on arrival." },
+  { label: "Packable rain poncho", category: "clothing", quantity: 1, reason: "Showers are common this time of year." },
+  { label: "Offline translation app", category: "electronics", quantity: 1, reason: "English is not widely spoken everywhere." },
+  { label: "Electrolyte sachets", category: "health", quantity: 4, reason: "Long days out in the heat." },
+];
+
+const packingSuggestions: MockHandler<MockRequests["packing-suggestions"]> = (body) => {
+  const existing = new Set((body.existing ?? []).map((label) => String(label).toLowerCase()));
+  const items = PACKING_EXTRAS.filter((item) => !existing.has(item.label.toLowerCase())).map((item) => ({
+    ...item,
+    reason: `${item.reason} (${body.destination || "your destination"})`,
+  }));
+  return { items };
+};
+
+const handlers: { [Name in keyof MockRequests]: MockHandler<MockRequests[Name]> } = {
+  "travel-recommendations": recommendations,
+  "destination-suggestions": destinationSuggestions,
+  "packing-suggestions": packingSuggestions,
+};
+
+const attempts = new Map<string, number>();
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const isMocked = (name: string): name is keyof MockRequests => name in handlers;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const streamText = (text: string, signal?: AbortSignal | null) => {
+  const encoder = new TextEncoder();
+  const tokens = text.match(/\S+\s*|\s+/g) || [];
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const token of tokens) {
+          await sleep(15, signal);
+          const chunk = { choices: [{ delta: { content: token } }] };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+};
+
+export const mockFetch = async (name: string, init: RequestInit): Promise<Response> => {
+  if (!isMocked(name)) return jsonResponse({ error: `No mock for ${name}` }, 404);
+  const handler = handlers[name];
+
+  const failure = Number(import.meta.env.VITE_AI_MOCK_FAILURE);
+  const attempt = (attempts.get(name) ?? 0) + 1;
+  attempts.set(name, attempt);
+  if (failure && attempt % 2 === 1) {
+    await sleep(300, init.signal);
+    return jsonResponse({ error: `Mock failure ${failure}` }, failure);
+  }
+
+  const body = JSON.parse(String(init.body || "{}"));
+  await sleep(400, init.signal);
+  const result = handler(body);
+
+  if (!body.stream) {
+    return jsonResponse(typeof result === "string" ? { recommendations: result } : result);
+  }
+  const text = typeof result === "string" ? result : JSON.stringify(result);
+  return new Response(streamText(text, init.signal), { headers: { "Content-Type": "text/event-stream" } });
+};
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { type AiCallOptions, invokeAiFunction } from "@/lib/ai/client";
+import { type PackingItemDraft, toPackingCategory } from "@/lib/packing/items";
+import type { PackingContext } from "@/lib/packing/templates";
+import type { AiTravelProfile } from "@/lib/travelProfile";
+
+export interface PackingSuggestionRequest extends PackingContext {
+  startDate: string;
+  // Labels already on the list, so the model only proposes additions
+  existing: string[];
+  profile?: AiTravelProfile;
+}
+
+const packingSuggestionSchema = z.object({
+  label: z.string().trim().min(1).max(200),
+  category: z.string().trim().default("other").transform(toPackingCategory),
+  quantity: z.coerce.number().int().positive().catch(1),
+  reason: z.string().trim().default(""),
+});
+
+export interface PackingSuggestion extends PackingItemDraft {
+  reason: string;
+}
+
+// Destination-specific extras on top of the rule-based list. Malformed items are dropped.
+export const fetchPackingSuggestions = async (request: PackingSuggestionRequest, options?: AiCallOptions) => {
+  const { items } = await invokeAiFunction<{ items?: unknown[] }>("packing-suggestions", { ...request }, options);
+  return (items ?? []).flatMap((item): PackingSuggestion[] => {
+    const parsed = packingSuggestionSchema.safeParse(item);
+    if (!parsed.success) return [];
+    const { label, category, quantity, reason } = parsed.data;
+    return [{ label, category, quantity, reason }];
+  });
+};
@@ -0,0 +1,26 @@
+import { type AiStreamOptions, streamAiFunction } from "@/lib/ai/client";
+import type { AiTravelProfile } from "@/lib/travelProfile";
+
+export interface RecommendationRequest {
+  destination: string;
+  budget: number;
+  currency: string;
+  travelType: string;
+  interests: string[];
+  days: number;
+  profile?: AiTravelProfile;
+}
+
+export interface RefineRequest extends RecommendationRequest {
+  // Markdown of the section to rewrite and the full plan for context
+  section: string;
+  plan: string;
+  instruction: string;
+}
+
+export const streamRecommendations = (request: RecommendationRequest, options?: AiStreamOptions) =>
+  streamAiFunction("travel-recommendations", { ...request }, options);
+
+// Regenerates a single day or section; the response replaces only that section
+export const streamSectionRefinement = (request: RefineRequest, options?: AiStreamOptions) =>
+  streamAiFunction("travel-recommendations", { ...request, mode: "refine" }, options);
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { type AiCallOptions, invokeAiFunction } from "@/lib/ai/client";
+import type { AiTravelProfile } from "@/lib/travelProfile";
+
+export interface SuggestionRequest {
+  savedDestinations: { name: string; location: string; category: string; status: string }[];
+  pastTrips: { destination: string; travelType: string; status: string }[];
+  interests: string[];
+  count?: number;
+  profile?: AiTravelProfile;
+}
+
+const suggestionSchema = z.object({
+  name: z.string().trim().min(1),
+  location: z.string().trim().min(1),
+  description: z.string().trim().default(""),
+  category: z.string().trim().default(""),
+  reason: z.string().trim().default(""),
+});
+
+export type DestinationSuggestion = z.infer<typeof suggestionSchema>;
+
+// Proposes new hidden-gem destinations from what the user has saved and travelled to.
+// Malformed items from the model are dropped rather than failing the whole request.
+export const fetchDestinationSuggestions = async (request: SuggestionRequest, options?: AiCallOptions) => {
+  const { suggestions } = await invokeAiFunction<{ suggestions?: unknown[] }>(
+    "destination-suggestions",
+    { ...request },
+    options
+  );
+  return (suggestions ?? []).flatMap((item) => {
+    const parsed = suggestionSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+// Case-insensitive name + location key, for telling whether a suggestion is already saved
+export const suggestionKey = (name: string, location: string) =>
+  `${name.trim().toLowerCase()}|${location.trim().toLowerCase()}`;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { type ExchangeRates, DEFAULT_RATES, convert, parseRatesFile, serializeRatesCsv } from "@/lib/currency";
+
+const rates: ExchangeRates = { base: "EUR", rates: { EUR: 1, USD: 1.1, JPY: 160 }, updated_at: "2026-01-01T00:00:00.000Z" };
+
+describe("parseRatesFile", () => {
+  it("reads a JSON table and pins its base at 1", () => {
+    const parsed = parseRatesFile('{ "base": "eur", "rates": { "usd": "1.1", "JPY": 160, "EUR": 2 } }', "rates.json");
+    expect(parsed.base).toBe("EUR");
+    expect(parsed.rates).toEqual({ EUR: 1, USD: 1.1, JPY: 160 });
+  });
+
+  it("treats a flat map as rates against USD", () => {
+    expect(parseRatesFile('{ "EUR": 0.92, "note": "ignored" }')).toMatchObject({ base: "USD", rates: { USD: 1, EUR: 0.92 } });
+  });
+
+  it("reads CSV rows, skipping the header", () => {
+    const parsed = parseRatesFile("base,EUR\ncurrency,rate\nUSD;1.1\n\"JPY\"\t160", "rates.csv");
+    expect(parsed).toMatchObject({ base: "EUR", rates: { EUR: 1, USD: 1.1, JPY: 160 } });
+  });
+
+  it("round-trips the exported CSV", () => {
+    expect(parseRatesFile(serializeRatesCsv(rates)).rates).toEqual(rates.rates);
+  });
+
+  it("rejects malformed files", () => {
+    expect(() => parseRatesFile("{ base: EUR", "rates.json")).toThrow("The file is not valid JSON");
+    expect(() => parseRatesFile("[1, 2]")).toThrow("No exchange rates found");
+    expect(() => parseRatesFile('{ "EUR": -1 }')).toThrow("Invalid rate for EUR");
+    expect(() => parseRatesFile("hello\nworld")).toThrow("No exchange rates found");
+  });
+});
+
+describe("convert", () => {
+  it("converts through the base currency", () => {
+    expect(convert(110, "USD", "EUR", rates)).toBeCloseTo(100);
+    expect(convert(11, "USD", "JPY", rates)).toBeCloseTo(1600);
+    expect(convert(50, "GBP", "GBP", rates)).toBe(50);
+  });
+
+  it("returns null when either rate is missing", () => {
+    expect(convert(10, "GBP", "EUR", rates)).toBeNull();
+    expect(convert(10, "EUR", "GBP", rates)).toBeNull();
+  });
+
+  it("matches the default table", () => {
+    expect(convert(1, "USD", "EUR", DEFAULT_RATES)).toBe(0.92);
+  });
+});
@@ -0,0 +1,161 @@
+export const CURRENCIES = [
+  "USD", "EUR", "JPY", "GBP", "AUD", "CAD", "CHF", "CNY",
+  "HKD", "INR", "KRW", "MXN", "NZD", "SGD", "THB", "VND",
+] as const;
+
+export const DEFAULT_CURRENCY = "USD";
+
+export interface ExchangeRates {
+  // Every rate is the number of units of that currency per 1 unit of `base`
+  base: string;
+  rates: Record<string, number>;
+  updated_at: string;
+}
+
+// Offline snapshot used until the user edits or imports their own table
+export const DEFAULT_RATES: ExchangeRates = {
+  base: "USD",
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    JPY: 150,
+    GBP: 0.79,
+    AUD: 1.52,
+    CAD: 1.36,
+    CHF: 0.88,
+    CNY: 7.2,
+    HKD: 7.8,
+    INR: 83,
+    KRW: 1350,
+    MXN: 17,
+    NZD: 1.65,
+    SGD: 1.35,
+    THB: 36,
+    VND: 25000,
+  },
+  updated_at: "2024-01-01T00:00:00.000Z",
+};
+
+export const RATES_STORAGE_KEY = "tripsense.exchangeRates";
+// Fired in the current tab; other tabs get the native `storage` event
+export const RATES_CHANGED_EVENT = "tripsense:rates-changed";
+
+export const loadRates = (): ExchangeRates => {
+  try {
+    const stored = localStorage.getItem(RATES_STORAGE_KEY);
+    return stored ? normalizeRates(JSON.parse(stored)) : DEFAULT_RATES;
+  } catch {
+    return DEFAULT_RATES;
+  }
+};
+
+export const saveRates = (rates: ExchangeRates) => {
+  localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates));
+  window.dispatchEvent(new Event(RATES_CHANGED_EVENT));
+};
+
+const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+const normalizeRates = (value: unknown): ExchangeRates => {
+  if (!value || typeof value !== "object") {
+    throw new Error("Exchange rates must be an object");
+  }
+
+  const input = value as Record<string, unknown>;
+  // Either { base, rates: {...} } or a flat { "EUR": 0.92, ... } map against USD
+  const rawRates = (typeof input.rates === "object" && input.rates ? input.rates : input) as Record<string, unknown>;
+  const base = typeof input.base === "string" ? input.base.toUpperCase() : DEFAULT_CURRENCY;
+
+  const rates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(rawRates)) {
+    const upper = code.toUpperCase();
+    if (!isCurrencyCode(upper)) continue;
+    const parsed = typeof rate === "number" ? rate : parseFloat(String(rate));
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`Invalid rate for ${upper}`);
+    }
+    rates[upper] = parsed;
+  }
+  rates[base] = 1;
+
+  if (Object.keys(rates).length < 2) {
+    throw new Error("No exchange rates found");
+  }
+
+  return {
+    base,
+    rates,
+    updated_at: typeof input.updated_at === "string" ? input.updated_at : new Date().toISOString(),
+  };
+};
+
+const parseCsv = (text: string) => {
+  const rates: Record<string, string> = {};
+  let base: string | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const [first, second] = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    if (!first || second === undefined) continue;
+    if (first.toLowerCase() === "base") {
+      base = second;
+      continue;
+    }
+    // Skip a header row such as "currency,rate"
+    if (!isCurrencyCode(first.toUpperCase()) || Number.isNaN(parseFloat(second))) continue;
+    rates[first] = second;
+  }
+
+  return { base, rates };
+};
+
+/**
+ * Parses an imported rates file. JSON may be `{ base, rates }` or a flat
+ * code-to-rate map; CSV is `currency,rate` rows with an optional
+ * `base,<code>` row. Throws with a user-facing message on bad input.
+ */
+export const parseRatesFile = (text: string, fileName = ""): ExchangeRates => {
+  const trimmed = text.trim();
+  const looksLikeJson = fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("{");
+
+  if (looksLikeJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    return { ...normalizeRates(parsed), updated_at: new Date().toISOString() };
+  }
+
+  return { ...normalizeRates(parseCsv(trimmed)), updated_at: new Date().toISOString() };
+};
+
+export const serializeRatesCsv = (rates: ExchangeRates) =>
+  [`base,${rates.base}`, "currency,rate", ...Object.entries(rates.rates).map(([code, rate]) => `${code},${rate}`)].join(
+    "\n"
+  );
+
+/**
+ * Converts between two currencies through the table's base currency.
+ * Returns null when either rate is missing so callers can flag it.
+ */
+export const convert = (amount: number, from: string, to: string, rates: ExchangeRates): number | null => {
+  if (from === to) return amount;
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+export const formatMoney = (
+  amount: number,
+  currency = DEFAULT_CURRENCY,
+  locale = typeof navigator !== "undefined" ? navigator.language : "en-US"
+) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount);
+  } catch {
+    // Unknown currency codes make Intl throw; fall back to a plain number
+    return `${amount.toLocaleString(locale, { maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
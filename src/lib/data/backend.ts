@@ -0,0 +1,133 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { CachedTable } from "@/lib/offline/db";
+import { getCachedUserId, loadRows, mutateRow } from "@/lib/offline/sync";
+
+export type EntityTable = CachedTable;
+
+export interface EntityRow {
+  id: string;
+  updated_at?: string | null;
+}
+
+export interface ListOrder {
+  column: string;
+  ascending: boolean;
+}
+
+export interface MutationResult {
+  id: string;
+  // True when the change was saved locally and is waiting to sync
+  queued: boolean;
+}
+
+// Where entity rows are read from and written to. Rows are scoped to the signed-in user.
+export interface DataBackend {
+  getUserId(): Promise<string | null>;
+  list<T extends EntityRow>(table: EntityTable, userId: string, order: ListOrder): Promise<T[]>;
+  insert(table: EntityTable, userId: string, values: Record<string, unknown>): Promise<MutationResult>;
+  update(
+    table: EntityTable,
+    userId: string,
+    id: string,
+    values: Record<string, unknown>,
+    baseUpdatedAt?: string | null
+  ): Promise<MutationResult>;
+  remove(table: EntityTable, userId: string, id: string, baseUpdatedAt?: string | null): Promise<MutationResult>;
+}
+
+export class NotAuthenticatedError extends Error {
+  constructor() {
+    super("Not authenticated");
+    this.name = "NotAuthenticatedError";
+  }
+}
+
+// Shared tables list every row the user is a member of, not just the ones they created
+const MEMBER_COLUMNS: Partial<Record<EntityTable, string>> = { trips: "member_ids" };
+
+const visibleTo = (table: EntityTable, row: Record<string, unknown>, userId: string) => {
+  const members = row[MEMBER_COLUMNS[table] ?? ""];
+  return row.user_id === userId || (Array.isArray(members) && members.includes(userId));
+};
+
+const compareBy = ({ column, ascending }: ListOrder) => (a: object, b: object) => {
+  const left = String((a as Record<string, unknown>)[column] ?? "");
+  const right = String((b as Record<string, unknown>)[column] ?? "");
+  return ascending ? left.localeCompare(right) : right.localeCompare(left);
+};
+
+// Supabase with the IndexedDB mirror and offline write queue in front of it
+export const createSupabaseBackend = (): DataBackend => ({
+  getUserId: getCachedUserId,
+  async list<T extends EntityRow>(table: EntityTable, userId: string, order: ListOrder) {
+    const memberColumn = MEMBER_COLUMNS[table];
+    const { rows } = await loadRows<EntityRow>(
+      table,
+      userId,
+      () => {
+        const query = supabase.from(table).select('*');
+        const scoped = memberColumn ? query.contains(memberColumn, [userId]) : query.eq('user_id', userId);
+        return scoped.order(order.column, { ascending: order.ascending });
+      },
+      compareBy(order)
+    );
+    // The repository decides which domain type the table's rows are read as
+    return rows as T[];
+  },
+  insert: (table, userId, values) => mutateRow(table, userId, { action: "insert", values }),
+  update: (table, userId, id, values, baseUpdatedAt) =>
+    mutateRow(table, userId, { action: "update", id, values, baseUpdatedAt }),
+  remove: (table, userId, id, baseUpdatedAt) => mutateRow(table, userId, { action: "delete", id, baseUpdatedAt }),
+});
+
+// Keeps rows in memory for tests and local development; contents are lost on reload
+export const createMemoryBackend = (
+  seed: Partial<Record<EntityTable, Record<string, unknown>[]>> = {},
+  userId: string | null = "local-user"
+): DataBackend => {
+  const tables = new Map<EntityTable, Map<string, Record<string, unknown>>>();
+  const tableRows = (table: EntityTable) => {
+    if (!tables.has(table)) {
+      tables.set(table, new Map((seed[table] ?? []).map((row) => [String(row.id), { ...row }])));
+    }
+    return tables.get(table)!;
+  };
+  const ownedRow = (table: EntityTable, owner: string, id: string) => {
+    const row = tableRows(table).get(id);
+    if (!row || !visibleTo(table, row, owner)) throw new Error(`Row not found: ${table}/${id}`);
+    return row;
+  };
+
+  return {
+    async getUserId() {
+      return userId;
+    },
+    async list<T extends EntityRow>(table: EntityTable, owner: string, order: ListOrder) {
+      const rows = [...tableRows(table).values()].filter((row) => visibleTo(table, row, owner));
+      return rows.sort(compareBy(order)).map((row) => ({ ...row }) as unknown as T);
+    },
+    async insert(table, owner, values) {
+      const now = new Date().toISOString();
+      const id = typeof values.id === "string" ? values.id : crypto.randomUUID();
+      tableRows(table).set(id, { created_at: now, ...values, id, user_id: owner, updated_at: now });
+      return { id, queued: false };
+    },
+    async update(table, owner, id, values) {
+      const row = ownedRow(table, owner, id);
+      tableRows(table).set(id, { ...row, ...values, id, updated_at: new Date().toISOString() });
+      return { id, queued: false };
+    },
+    async remove(table, owner, id) {
+      // Members may edit a shared row, but like the delete policies only its owner removes it
+      if (ownedRow(table, owner, id).user_id !== owner) {
+        throw new Error(`Only the owner can delete ${table}/${id}`);
+      }
+      tableRows(table).delete(id);
+      return { id, queued: false };
+    },
+  };
+};
+
+// Set VITE_DATA_BACKEND=memory to run without Supabase
+export const dataBackend: DataBackend =
+  import.meta.env.VITE_DATA_BACKEND === "memory" ? createMemoryBackend() : createSupabaseBackend();
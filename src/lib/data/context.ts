@@ -0,0 +1,6 @@
+import { createContext } from "react";
+import { dataBackend } from "./backend";
+import { type Repositories, createRepositories } from "./repositories";
+
+// Tests can provide repositories over createMemoryBackend() instead
+export const RepositoriesContext = createContext<Repositories>(createRepositories(dataBackend));
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { NotAuthenticatedError, createMemoryBackend } from "@/lib/data/backend";
+import { createRepositories } from "@/lib/data/repositories";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const trip = (id: string, start_date: string, owner = "me", member_ids: string[] = []) => ({
+  id,
+  user_id: owner,
+  member_ids,
+  destination: id,
+  start_date,
+  end_date: start_date,
+});
+
+describe("repositories over the memory backend", () => {
+  it("lists the user's own and shared rows in the repository order", async () => {
+    const { trips } = createRepositories(
+      createMemoryBackend(
+        { trips: [trip("rome", "2026-03-01"), trip("oslo", "2026-05-01", "friend", ["me"]), trip("lima", "2026-04-01", "friend")] },
+        "me"
+      )
+    );
+    const rows = await trips.list();
+    expect(rows.map((row) => row.id)).toEqual(["oslo", "rome"]);
+  });
+
+  it("creates, updates and removes rows", async () => {
+    const { diaryEntries } = createRepositories(createMemoryBackend({}, "me"));
+    const { id, queued } = await diaryEntries.create({ title: "Day one", content: "", entry_date: "2026-05-01" });
+    expect(queued).toBe(false);
+
+    const [created] = await diaryEntries.list();
+    expect(created).toMatchObject({ id, title: "Day one", user_id: "me" });
+
+    await diaryEntries.update(created, { title: "First day" });
+    const [updated] = await diaryEntries.list();
+    expect(updated.title).toBe("First day");
+    expect(updated.created_at).toBe(created.created_at);
+
+    await diaryEntries.remove(updated);
+    expect(await diaryEntries.list()).toEqual([]);
+  });
+
+  it("does not let users change rows they can't see", async () => {
+    const { trips } = createRepositories(createMemoryBackend({ trips: [trip("lima", "2026-04-01", "friend")] }, "me"));
+    await expect(trips.update({ id: "lima" }, { destination: "Cusco" })).rejects.toThrow("Row not found: trips/lima");
+  });
+
+  it("lets only the owner remove a shared row", async () => {
+    const { trips } = createRepositories(
+      createMemoryBackend({ trips: [trip("oslo", "2026-05-01", "friend", ["me"])] }, "me")
+    );
+    await expect(trips.remove({ id: "oslo" })).rejects.toThrow("Only the owner can delete trips/oslo");
+    expect((await trips.list()).map((row) => row.id)).toEqual(["oslo"]);
+  });
+
+  it("rejects signed-out users", async () => {
+    const { destinations } = createRepositories(createMemoryBackend({}, null));
+    await expect(destinations.list()).rejects.toBeInstanceOf(NotAuthenticatedError);
+  });
+});
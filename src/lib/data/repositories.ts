@@ -0,0 +1,55 @@
+import type { Destination } from "@/lib/destinations";
+import type { DiaryEntry } from "@/lib/diary";
+import type { Trip } from "@/lib/trips";
+import {
+  type DataBackend,
+  type EntityRow,
+  type EntityTable,
+  type ListOrder,
+  type MutationResult,
+  NotAuthenticatedError,
+} from "./backend";
+
+// Columns a caller may write; ownership and timestamps are managed by the backend
+export type EntityValues<T> = Partial<Omit<T, "id" | "user_id" | "created_at" | "updated_at">>;
+
+export interface Repository<T extends EntityRow> {
+  list(): Promise<T[]>;
+  create(values: EntityValues<T>): Promise<MutationResult>;
+  // Pass the row being edited so offline replays can detect conflicting edits
+  update(row: Pick<T, "id" | "updated_at">, values: EntityValues<T>): Promise<MutationResult>;
+  remove(row: Pick<T, "id" | "updated_at">): Promise<MutationResult>;
+}
+
+export const createRepository = <T extends EntityRow>(
+  backend: DataBackend,
+  table: EntityTable,
+  order: ListOrder
+): Repository<T> => {
+  const requireUser = async () => {
+    const userId = await backend.getUserId();
+    if (!userId) throw new NotAuthenticatedError();
+    return userId;
+  };
+
+  return {
+    list: async () => backend.list<T>(table, await requireUser(), order),
+    create: async (values) => backend.insert(table, await requireUser(), values),
+    update: async (row, values) => backend.update(table, await requireUser(), row.id, values, row.updated_at),
+    remove: async (row) => backend.remove(table, await requireUser(), row.id, row.updated_at),
+  };
+};
+
+export interface Repositories {
+  getUserId(): Promise<string | null>;
+  trips: Repository<Trip>;
+  diaryEntries: Repository<DiaryEntry>;
+  destinations: Repository<Destination>;
+}
+
+export const createRepositories = (backend: DataBackend): Repositories => ({
+  getUserId: () => backend.getUserId(),
+  trips: createRepository<Trip>(backend, 'trips', { column: 'start_date', ascending: false }),
+  diaryEntries: createRepository<DiaryEntry>(backend, 'diary_entries', { column: 'entry_date', ascending: false }),
+  destinations: createRepository<Destination>(backend, 'saved_destinations', { column: 'created_at', ascending: false }),
+});
@@ -0,0 +1,14 @@
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Local calendar date as YYYY-MM-DD, the format of the date columns
+export const todayIsoDate = (now = new Date()) => {
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+// Calendar days from one date to another, counting both: a trip from the 1st to the 3rd lasts 3 days
+export const inclusiveDays = (from: string, to: string) => daysBetween(from, to) + 1;
@@ -0,0 +1,84 @@
+import { INTEREST_OPTIONS, type Interest, type Trip } from "@/lib/trips";
+import { toTripStatus } from "@/lib/tripStatus";
+
+export const DESTINATION_STATUSES = ["wishlist", "planned", "visited"] as const;
+
+export type DestinationStatus = (typeof DESTINATION_STATUSES)[number];
+
+export const DESTINATION_STATUS_LABELS: Record<DestinationStatus, string> = {
+  wishlist: "Wishlist",
+  planned: "Planned",
+  visited: "Visited",
+};
+
+export interface Destination {
+  id: string;
+  destination_name: string;
+  location: string;
+  description: string;
+  category: string;
+  notes: string;
+  status?: string | null;
+  // Trip planned from this destination, if any
+  trip_id?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export const toDestinationStatus = (value: string | null | undefined): DestinationStatus =>
+  (DESTINATION_STATUSES as readonly string[]).includes(value ?? "") ? (value as DestinationStatus) : "wishlist";
+
+// Category words that suggest PlanTrip interests; categories are free text
+const CATEGORY_INTERESTS: [RegExp, Interest][] = [
+  [/adventure|hik|trek|climb|surf|dive|diving|ski/, "Adventure"],
+  [/cultur|temple|museum|art|festival|tradition/, "Culture"],
+  [/food|cuisine|restaurant|market|street food|wine|cafe|coffee/, "Food"],
+  [/photo|view|scenic|sunset/, "Photography"],
+  [/nature|park|mountain|forest|lake|waterfall|wildlife|hik|trek/, "Nature"],
+  [/histor|heritage|ruin|castle|monument|museum/, "History"],
+  [/beach|island|coast|sea/, "Beaches"],
+  [/shop|market|bazaar/, "Shopping"],
+  [/night|bar|club|party/, "Nightlife"],
+  [/wellness|spa|yoga|retreat|hot spring|onsen/, "Wellness"],
+];
+
+export const interestsForCategory = (category: string | null | undefined): Interest[] => {
+  const text = (category ?? "").toLowerCase();
+  if (!text) return [];
+  return INTEREST_OPTIONS.filter((interest) =>
+    CATEGORY_INTERESTS.some(([pattern, match]) => match === interest && pattern.test(text))
+  );
+};
+
+// Text for PlanTrip's destination field, e.g. "Fushimi Inari, Kyoto, Japan"
+export const tripDestinationFor = (destination: Pick<Destination, "destination_name" | "location">) => {
+  const name = destination.destination_name.trim();
+  const location = destination.location.trim();
+  if (!name) return location;
+  return location.toLowerCase().includes(name.toLowerCase()) ? location : `${name}, ${location}`;
+};
+
+// Status a destination should have given its linked trip: visited once the trip is completed,
+// and back on the wishlist if the trip was deleted
+export const progressFromTrip = (
+  destination: Destination,
+  trips: Pick<Trip, "id" | "status">[]
+): DestinationStatus => {
+  const status = toDestinationStatus(destination.status);
+  if (status !== "planned") return status;
+  if (!destination.trip_id) return "wishlist";
+  const trip = trips.find((item) => item.id === destination.trip_id);
+  return trip && toTripStatus(trip.status) === "completed" ? "visited" : status;
+};
+
+export const applyTripProgress = (destinations: Destination[], trips: Pick<Trip, "id" | "status">[]) => {
+  const changed: Destination[] = [];
+  const updated = destinations.map((destination) => {
+    const status = progressFromTrip(destination, trips);
+    if (status === toDestinationStatus(destination.status)) return destination;
+    const next = { ...destination, status };
+    changed.push(next);
+    return next;
+  });
+  return { destinations: updated, changed };
+};
@@ -0,0 +1,10 @@
+export interface DiaryEntry {
+  id: string;
+  title: string;
+  content: string;
+  entry_date: string;
+  location: string;
+  trip_id: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
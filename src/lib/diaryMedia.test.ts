@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+import { type DiaryMedia, resolveDiaryPhotos } from "@/lib/diaryMedia";
+import { type StorageAdapter, createMemoryStorageAdapter } from "@/lib/storage";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const media = (id: string): DiaryMedia => ({
+  id,
+  entry_id: "entry",
+  path: `user/entry/${id}.jpg`,
+  thumbnail_path: `user/entry/${id}_thumb.jpg`,
+  width: 100,
+  height: 100,
+  taken_at: null,
+  latitude: null,
+  longitude: null,
+  position: 0,
+});
+
+describe("resolveDiaryPhotos", () => {
+  it("skips photos whose files are missing", async () => {
+    const storage = createMemoryStorageAdapter();
+    const blob = new Blob(["jpeg"], { type: "image/jpeg" });
+    await storage.upload("user/entry/a.jpg", blob, "image/jpeg");
+    await storage.upload("user/entry/a_thumb.jpg", blob, "image/jpeg");
+
+    const photos = await resolveDiaryPhotos([media("a"), media("b")], storage);
+    expect(photos.map((photo) => photo.id)).toEqual(["a"]);
+    expect(photos[0].url).toMatch(/^blob:/);
+    expect(photos[0].thumbnailUrl).not.toBe(photos[0].url);
+  });
+
+  it("asks for both URLs of a photo in one request", async () => {
+    const getUrls = vi.fn(async (paths: string[]) => paths.map((path) => `https://cdn.test/${path}`));
+    const storage: StorageAdapter = { upload: vi.fn(), remove: vi.fn(), getUrls };
+
+    const [photo] = await resolveDiaryPhotos([media("a")], storage);
+    expect(getUrls).toHaveBeenCalledTimes(1);
+    expect(photo.thumbnailUrl).toBe("https://cdn.test/user/entry/a_thumb.jpg");
+  });
+});
@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import { processImage } from "@/lib/media";
+import { type StorageAdapter, mediaStorage } from "@/lib/storage";
+
+export interface DiaryMedia {
+  id: string;
+  entry_id: string;
+  path: string;
+  thumbnail_path: string;
+  width: number;
+  height: number;
+  taken_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  position: number;
+}
+
+// A stored photo with URLs resolved through the storage adapter
+export interface DiaryPhoto extends DiaryMedia {
+  url: string;
+  thumbnailUrl: string;
+}
+
+export const MAX_PHOTOS_PER_ENTRY = 12;
+
+export const uploadDiaryPhotos = async (
+  userId: string,
+  entryId: string,
+  files: File[],
+  // Photos added to an existing entry go after the ones already stored
+  firstPosition = 0,
+  storage: StorageAdapter = mediaStorage
+) => {
+  const rows = [];
+  for (const [index, file] of files.entries()) {
+    const processed = await processImage(file);
+    const name = crypto.randomUUID();
+    const path = `${userId}/${entryId}/${name}.jpg`;
+    const thumbnailPath = `${userId}/${entryId}/${name}_thumb.jpg`;
+
+    await storage.upload(path, processed.image, "image/jpeg");
+    await storage.upload(thumbnailPath, processed.thumbnail, "image/jpeg");
+
+    rows.push({
+      entry_id: entryId,
+      user_id: userId,
+      path,
+      thumbnail_path: thumbnailPath,
+      width: processed.width,
+      height: processed.height,
+      taken_at: processed.exif.takenAt,
+      latitude: processed.exif.latitude,
+      longitude: processed.exif.longitude,
+      position: firstPosition + index,
+    });
+  }
+
+  if (rows.length === 0) return;
+  const { error } = await supabase.from('diary_media').insert(rows);
+  if (error) throw error;
+};
+
+// One URL request per photo covers the image and its thumbnail. Photos whose files
+// are gone, e.g. from the memory adapter after a reload, are left out.
+export const resolveDiaryPhotos = async (media: DiaryMedia[], storage: StorageAdapter = mediaStorage) => {
+  const results = await Promise.allSettled(
+    media.map(async (item): Promise<DiaryPhoto> => {
+      const [url, thumbnailUrl] = await storage.getUrls([item.path, item.thumbnail_path]);
+      return { ...item, url, thumbnailUrl };
+    })
+  );
+  return results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+};
+
+export const diaryPhotoPaths = (media: Pick<DiaryMedia, "path" | "thumbnail_path">[]) =>
+  media.flatMap((item) => [item.path, item.thumbnail_path]);
+
+export const removeDiaryPhotos = (media: Pick<DiaryMedia, "path" | "thumbnail_path">[], storage: StorageAdapter = mediaStorage) =>
+  storage.remove(diaryPhotoPaths(media));
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import type { Tables } from "@/integrations/supabase/types";
+import { inclusiveDays } from "@/lib/dates";
+
+export const EXPENSE_CATEGORIES = [
+  "accommodation",
+  "transport",
+  "food",
+  "activities",
+  "shopping",
+  "other",
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export const SPLIT_MODES = ["equal", "shares", "exact"] as const;
+
+export type SplitMode = (typeof SPLIT_MODES)[number];
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: "Equally",
+  shares: "By shares",
+  exact: "Exact amounts",
+};
+
+// A weight for "shares", an amount in the expense currency for "exact", ignored for "equal"
+export interface ExpenseSplit {
+  participant: string;
+  value: number;
+}
+
+export interface Expense {
+  id: string;
+  trip_id: string;
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  expense_date: string;
+  payer: string;
+  description: string;
+  // Who shares the cost; empty when the payer covered it alone
+  split_mode: SplitMode;
+  splits: ExpenseSplit[];
+  created_at: string;
+}
+
+const toSplits = (value: unknown): ExpenseSplit[] =>
+  Array.isArray(value)
+    ? value.flatMap((split) =>
+        split && typeof split === "object" && typeof split.participant === "string"
+          ? [{ participant: split.participant, value: Number(split.value) || 0 }]
+          : []
+      )
+    : [];
+
+export const toExpense = (row: Tables<'expenses'>): Expense => ({
+  ...row,
+  amount: Number(row.amount),
+  category: (EXPENSE_CATEGORIES as readonly string[]).includes(row.category) ? (row.category as ExpenseCategory) : "other",
+  split_mode: (SPLIT_MODES as readonly string[]).includes(row.split_mode) ? (row.split_mode as SplitMode) : "equal",
+  splits: toSplits(row.splits),
+});
+
+export const expenseFormSchema = z.object({
+  amount: z.preprocess(
+    (value) => (value === "" || value === null || value === undefined ? undefined : Number(value)),
+    z
+      .number({ required_error: "Amount is required", invalid_type_error: "Amount must be a number" })
+      .positive("Amount must be greater than zero")
+  ),
+  currency: z.string().trim().length(3, "Use a 3-letter currency code").toUpperCase(),
+  category: z.enum(EXPENSE_CATEGORIES),
+  expense_date: z.string().min(1, "Date is required"),
+  payer: z.string().trim().min(1, "Payer is required"),
+  description: z.string().trim().default(""),
+});
+
+export type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
+
+export interface CategoryTotal {
+  category: ExpenseCategory;
+  total: number;
+  share: number;
+}
+
+export interface ExpenseSummary {
+  total: number;
+  remaining: number;
+  percentUsed: number;
+  byCategory: CategoryTotal[];
+  tripDays: number;
+  elapsedDays: number;
+  // Average spend per elapsed trip day, null before the trip starts
+  dailyBurn: number | null;
+  projectedTotal: number;
+  projectedOverspend: number;
+}
+
+/**
+ * Budget-vs-actual for a trip. Expenses dated before the trip (flights,
+ * deposits) count towards the total but not towards the daily burn rate,
+ * which is projected over the remaining days to estimate the final spend.
+ */
+export const summarizeExpenses = (
+  expenses: Pick<Expense, "amount" | "category" | "expense_date">[],
+  trip: { budget: number; start_date: string; end_date: string },
+  today: string
+): ExpenseSummary => {
+  const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+  const budget = Number(trip.budget) || 0;
+
+  const byCategory = EXPENSE_CATEGORIES.map((category) => {
+    const categoryTotal = expenses
+      .filter((expense) => expense.category === category)
+      .reduce((sum, expense) => sum + Number(expense.amount), 0);
+    return { category, total: categoryTotal, share: total > 0 ? categoryTotal / total : 0 };
+  })
+    .filter((entry) => entry.total > 0)
+    .sort((a, b) => b.total - a.total);
+
+  const tripDays = Math.max(inclusiveDays(trip.start_date, trip.end_date), 1);
+  const elapsedDays = today < trip.start_date ? 0 : Math.min(inclusiveDays(trip.start_date, today), tripDays);
+
+  const inTripTotal = expenses
+    .filter((expense) => expense.expense_date >= trip.start_date)
+    .reduce((sum, expense) => sum + Number(expense.amount), 0);
+
+  const dailyBurn = elapsedDays > 0 ? inTripTotal / elapsedDays : null;
+  const projectedTotal = dailyBurn === null ? total : total + dailyBurn * (tripDays - elapsedDays);
+
+  return {
+    total,
+    remaining: budget - total,
+    percentUsed: budget > 0 ? (total / budget) * 100 : 0,
+    byCategory,
+    tripDays,
+    elapsedDays,
+    dailyBurn,
+    projectedTotal,
+    projectedOverspend: Math.max(projectedTotal - budget, 0),
+  };
+};
@@ -0,0 +1,177 @@
+// Offline fallback for geocoding: major travel cities and country centroids.
+// Coordinates are approximate city centres, which is plenty for a world map.
+
+export type GazetteerEntry = [name: string, country: string, latitude: number, longitude: number];
+
+export const CITIES: GazetteerEntry[] = [
+  ["Amsterdam", "Netherlands", 52.37, 4.9],
+  ["Athens", "Greece", 37.98, 23.73],
+  ["Auckland", "New Zealand", -36.85, 174.76],
+  ["Bangkok", "Thailand", 13.76, 100.5],
+  ["Barcelona", "Spain", 41.39, 2.17],
+  ["Beijing", "China", 39.9, 116.41],
+  ["Berlin", "Germany", 52.52, 13.4],
+  ["Bogota", "Colombia", 4.71, -74.07],
+  ["Boston", "United States", 42.36, -71.06],
+  ["Budapest", "Hungary", 47.5, 19.04],
+  ["Buenos Aires", "Argentina", -34.6, -58.38],
+  ["Cairo", "Egypt", 30.04, 31.24],
+  ["Cape Town", "South Africa", -33.92, 18.42],
+  ["Cancun", "Mexico", 21.16, -86.85],
+  ["Chicago", "United States", 41.88, -87.63],
+  ["Copenhagen", "Denmark", 55.68, 12.57],
+  ["Cusco", "Peru", -13.53, -71.97],
+  ["Delhi", "India", 28.61, 77.21],
+  ["Dubai", "United Arab Emirates", 25.2, 55.27],
+  ["Dublin", "Ireland", 53.35, -6.26],
+  ["Dubrovnik", "Croatia", 42.65, 18.09],
+  ["Edinburgh", "United Kingdom", 55.95, -3.19],
+  ["Florence", "Italy", 43.77, 11.26],
+  ["Goa", "India", 15.3, 74.12],
+  ["Hanoi", "Vietnam", 21.03, 105.85],
+  ["Havana", "Cuba", 23.11, -82.37],
+  ["Helsinki", "Finland", 60.17, 24.94],
+  ["Ho Chi Minh City", "Vietnam", 10.82, 106.63],
+  ["Hong Kong", "China", 22.32, 114.17],
+  ["Honolulu", "United States", 21.31, -157.86],
+  ["Istanbul", "Turkey", 41.01, 28.98],
+  ["Jaipur", "India", 26.91, 75.79],
+  ["Jakarta", "Indonesia", -6.21, 106.85],
+  ["Kathmandu", "Nepal", 27.72, 85.32],
+  ["Krakow", "Poland", 50.06, 19.94],
+  ["Kuala Lumpur", "Malaysia", 3.14, 101.69],
+  ["Kyoto", "Japan", 35.01, 135.77],
+  ["Lima", "Peru", -12.05, -77.04],
+  ["Lisbon", "Portugal", 38.72, -9.14],
+  ["London", "United Kingdom", 51.51, -0.13],
+  ["Los Angeles", "United States", 34.05, -118.24],
+  ["Madrid", "Spain", 40.42, -3.7],
+  ["Marrakech", "Morocco", 31.63, -8.01],
+  ["Melbourne", "Australia", -37.81, 144.96],
+  ["Mexico City", "Mexico", 19.43, -99.13],
+  ["Miami", "United States", 25.76, -80.19],
+  ["Milan", "Italy", 45.46, 9.19],
+  ["Montreal", "Canada", 45.5, -73.57],
+  ["Moscow", "Russia", 55.76, 37.62],
+  ["Mumbai", "India", 19.08, 72.88],
+  ["Munich", "Germany", 48.14, 11.58],
+  ["Nairobi", "Kenya", -1.29, 36.82],
+  ["Naples", "Italy", 40.85, 14.27],
+  ["New York", "United States", 40.71, -74.01],
+  ["Nice", "France", 43.7, 7.27],
+  ["Osaka", "Japan", 34.69, 135.5],
+  ["Oslo", "Norway", 59.91, 10.75],
+  ["Paris", "France", 48.86, 2.35],
+  ["Phuket", "Thailand", 7.88, 98.39],
+  ["Porto", "Portugal", 41.16, -8.63],
+  ["Prague", "Czech Republic", 50.08, 14.44],
+  ["Reykjavik", "Iceland", 64.15, -21.94],
+  ["Rio de Janeiro", "Brazil", -22.91, -43.17],
+  ["Rome", "Italy", 41.9, 12.5],
+  ["San Francisco", "United States", 37.77, -122.42],
+  ["Santiago", "Chile", -33.45, -70.67],
+  ["Santorini", "Greece", 36.39, 25.46],
+  ["Seoul", "South Korea", 37.57, 126.98],
+  ["Seville", "Spain", 37.39, -5.98],
+  ["Shanghai", "China", 31.23, 121.47],
+  ["Singapore", "Singapore", 1.35, 103.82],
+  ["Stockholm", "Sweden", 59.33, 18.07],
+  ["Sydney", "Australia", -33.87, 151.21],
+  ["Taipei", "Taiwan", 25.03, 121.57],
+  ["Tokyo", "Japan", 35.68, 139.69],
+  ["Toronto", "Canada", 43.65, -79.38],
+  ["Ubud", "Indonesia", -8.51, 115.26],
+  ["Vancouver", "Canada", 49.28, -123.12],
+  ["Venice", "Italy", 45.44, 12.32],
+  ["Vienna", "Austria", 48.21, 16.37],
+  ["Zurich", "Switzerland", 47.38, 8.54],
+];
+
+export const COUNTRIES: GazetteerEntry[] = [
+  ["Argentina", "Argentina", -38.42, -63.62],
+  ["Australia", "Australia", -25.27, 133.78],
+  ["Austria", "Austria", 47.52, 14.55],
+  ["Bali", "Indonesia", -8.34, 115.09],
+  ["Brazil", "Brazil", -14.24, -51.93],
+  ["Canada", "Canada", 56.13, -106.35],
+  ["Chile", "Chile", -35.68, -71.54],
+  ["China", "China", 35.86, 104.2],
+  ["Colombia", "Colombia", 4.57, -74.3],
+  ["Costa Rica", "Costa Rica", 9.75, -83.75],
+  ["Croatia", "Croatia", 45.1, 15.2],
+  ["Cuba", "Cuba", 21.52, -77.78],
+  ["Czech Republic", "Czech Republic", 49.82, 15.47],
+  ["Denmark", "Denmark", 56.26, 9.5],
+  ["Egypt", "Egypt", 26.82, 30.8],
+  ["Finland", "Finland", 61.92, 25.75],
+  ["France", "France", 46.23, 2.21],
+  ["Germany", "Germany", 51.17, 10.45],
+  ["Greece", "Greece", 39.07, 21.82],
+  ["Hungary", "Hungary", 47.16, 19.5],
+  ["Iceland", "Iceland", 64.96, -19.02],
+  ["India", "India", 20.59, 78.96],
+  ["Indonesia", "Indonesia", -0.79, 113.92],
+  ["Ireland", "Ireland", 53.41, -8.24],
+  ["Italy", "Italy", 41.87, 12.57],
+  ["Japan", "Japan", 36.2, 138.25],
+  ["Kenya", "Kenya", -0.02, 37.91],
+  ["Malaysia", "Malaysia", 4.21, 101.98],
+  ["Mexico", "Mexico", 23.63, -102.55],
+  ["Morocco", "Morocco", 31.79, -7.09],
+  ["Nepal", "Nepal", 28.39, 84.12],
+  ["Netherlands", "Netherlands", 52.13, 5.29],
+  ["New Zealand", "New Zealand", -40.9, 174.89],
+  ["Norway", "Norway", 60.47, 8.47],
+  ["Peru", "Peru", -9.19, -75.02],
+  ["Philippines", "Philippines", 12.88, 121.77],
+  ["Poland", "Poland", 51.92, 19.15],
+  ["Portugal", "Portugal", 39.4, -8.22],
+  ["Russia", "Russia", 61.52, 105.32],
+  ["Singapore", "Singapore", 1.35, 103.82],
+  ["South Africa", "South Africa", -30.56, 22.94],
+  ["South Korea", "South Korea", 35.91, 127.77],
+  ["Spain", "Spain", 40.46, -3.75],
+  ["Sri Lanka", "Sri Lanka", 7.87, 80.77],
+  ["Sweden", "Sweden", 60.13, 18.64],
+  ["Switzerland", "Switzerland", 46.82, 8.23],
+  ["Taiwan", "Taiwan", 23.7, 120.96],
+  ["Thailand", "Thailand", 15.87, 100.99],
+  ["Turkey", "Turkey", 38.96, 35.24],
+  ["United Arab Emirates", "United Arab Emirates", 23.42, 53.85],
+  ["United Kingdom", "United Kingdom", 55.38, -3.44],
+  ["United States", "United States", 37.09, -95.71],
+  ["Vietnam", "Vietnam", 14.06, 108.28],
+];
+
+// Common alternative spellings mapped to gazetteer names
+export const ALIASES: Record<string, string> = {
+  "nyc": "New York",
+  "new york city": "New York",
+  "la": "Los Angeles",
+  "sf": "San Francisco",
+  "new delhi": "Delhi",
+  "bombay": "Mumbai",
+  "saigon": "Ho Chi Minh City",
+  "rio": "Rio de Janeiro",
+  "marrakesh": "Marrakech",
+  "kyōto": "Kyoto",
+  "tōkyō": "Tokyo",
+  "praha": "Prague",
+  "roma": "Rome",
+  "firenze": "Florence",
+  "venezia": "Venice",
+  "lisboa": "Lisbon",
+  "wien": "Vienna",
+  "münchen": "Munich",
+  "uk": "United Kingdom",
+  "england": "United Kingdom",
+  "scotland": "United Kingdom",
+  "great britain": "United Kingdom",
+  "usa": "United States",
+  "us": "United States",
+  "united states of america": "United States",
+  "uae": "United Arab Emirates",
+  "korea": "South Korea",
+  "czechia": "Czech Republic",
+  "holland": "Netherlands",
+};
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type Geocoder, createFallbackGeocoder, createGazetteerGeocoder, createNominatimGeocoder } from "@/lib/geo/geocoder";
+
+describe("createGazetteerGeocoder", () => {
+  const geocoder = createGazetteerGeocoder();
+
+  it("finds a city in any comma-separated part", async () => {
+    expect(await geocoder.geocode("Old Town, Prague, Czechia")).toMatchObject({ label: "Prague, Czech Republic", source: "gazetteer" });
+  });
+
+  it("ignores case and accents", async () => {
+    expect((await geocoder.geocode("KYŌTO"))?.label).toBe("Kyoto, Japan");
+  });
+
+  it("falls back to a country mentioned in the text", async () => {
+    expect((await geocoder.geocode("Somewhere in Peru"))?.label).toBe("Peru");
+  });
+
+  it("resolves null for unknown and empty queries", async () => {
+    expect(await geocoder.geocode("Atlantis")).toBeNull();
+    expect(await geocoder.geocode(" , ")).toBeNull();
+  });
+});
+
+describe("createNominatimGeocoder", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("parses the first match", async () => {
+    const fetchMock = vi.fn(async (_url: string | URL) =>
+      new Response(JSON.stringify([{ lat: "35.01", lon: "135.76", display_name: "Kyoto, Japan" }]))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const point = await createNominatimGeocoder("https://geo.test/search").geocode("Kyoto");
+    expect(point).toEqual({ latitude: 35.01, longitude: 135.76, label: "Kyoto, Japan", source: "nominatim" });
+    expect(String(fetchMock.mock.calls[0][0])).toBe("https://geo.test/search?q=Kyoto&format=jsonv2&limit=1");
+  });
+
+  it("resolves null when nothing matches and throws on HTTP errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("[]")));
+    expect(await createNominatimGeocoder("https://geo.test/search").geocode("Atlantis")).toBeNull();
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    await expect(createNominatimGeocoder("https://geo.test/search").geocode("Kyoto")).rejects.toThrow(
+      "Geocoding failed with status 503"
+    );
+  });
+});
+
+describe("createFallbackGeocoder", () => {
+  it("moves on to the next geocoder when one fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const failing: Geocoder = { geocode: () => Promise.reject(new Error("offline")) };
+    const point = await createFallbackGeocoder([failing, createGazetteerGeocoder()]).geocode("Lisbon");
+    expect(point?.source).toBe("gazetteer");
+  });
+});
@@ -0,0 +1,165 @@
+import { ALIASES, CITIES, COUNTRIES, type GazetteerEntry } from "@/lib/geo/gazetteer";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  // Human-readable name of what the query matched
+  label: string;
+  source: "gazetteer" | "nominatim";
+}
+
+// Turns a free-text place name such as "Kyoto, Japan" into coordinates; resolves null when unknown
+export interface Geocoder {
+  geocode(query: string, signal?: AbortSignal): Promise<GeoPoint | null>;
+}
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const toPoint = ([name, country, latitude, longitude]: GazetteerEntry): GeoPoint => ({
+  latitude,
+  longitude,
+  label: name === country ? name : `${name}, ${country}`,
+  source: "gazetteer",
+});
+
+// Matches each comma-separated part of the query against known cities, then countries,
+// so "Old Town, Prague, Czechia" finds Prague and "Somewhere in Peru" falls back to Peru
+export const createGazetteerGeocoder = (): Geocoder => {
+  const aliases = new Map(Object.entries(ALIASES).map(([alias, name]) => [normalize(alias), normalize(name)]));
+  const index = (entries: GazetteerEntry[]) => new Map(entries.map((entry) => [normalize(entry[0]), entry]));
+  const cities = index(CITIES);
+  const countries = index(COUNTRIES);
+
+  const lookup = (part: string, entries: Map<string, GazetteerEntry>) => {
+    const key = normalize(part);
+    return entries.get(key) ?? entries.get(aliases.get(key) ?? "");
+  };
+
+  // Whole-word search for names mentioned anywhere in the query
+  const mention = (text: string, entries: Map<string, GazetteerEntry>) => {
+    const padded = ` ${normalize(text)} `;
+    for (const [key, entry] of entries) {
+      if (padded.includes(` ${key} `)) return entry;
+    }
+    return undefined;
+  };
+
+  return {
+    async geocode(query) {
+      const parts = query.split(",").map((part) => part.trim()).filter(Boolean);
+      if (parts.length === 0) return null;
+
+      const city = parts.map((part) => lookup(part, cities)).find(Boolean) ?? mention(query, cities);
+      if (city) return toPoint(city);
+
+      const country =
+        [...parts].reverse().map((part) => lookup(part, countries)).find(Boolean) ?? mention(query, countries);
+      return country ? toPoint(country) : null;
+    },
+  };
+};
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search";
+// Nominatim's usage policy allows at most one request per second
+const NOMINATIM_INTERVAL_MS = 1100;
+
+export const createNominatimGeocoder = (baseUrl = NOMINATIM_URL): Geocoder => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const throttled = <T>(task: () => Promise<T>) => {
+    const run = queue.then(task);
+    queue = run
+      .catch(() => undefined)
+      .then(() => new Promise((resolve) => setTimeout(resolve, NOMINATIM_INTERVAL_MS)));
+    return run;
+  };
+
+  return {
+    geocode(query, signal) {
+      return throttled(async () => {
+        signal?.throwIfAborted();
+        const params = new URLSearchParams({ q: query, format: "jsonv2", limit: "1" });
+        const response = await fetch(`${baseUrl}?${params}`, {
+          signal,
+          headers: { Accept: "application/json" },
+        });
+        if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+
+        const [match] = (await response.json()) as { lat: string; lon: string; display_name: string }[];
+        if (!match) return null;
+        return {
+          latitude: Number(match.lat),
+          longitude: Number(match.lon),
+          label: match.display_name,
+          source: "nominatim",
+        };
+      });
+    },
+  };
+};
+
+// Tries each geocoder in turn; a failing or empty result moves on to the next one
+export const createFallbackGeocoder = (geocoders: Geocoder[]): Geocoder => ({
+  async geocode(query, signal) {
+    for (const geocoder of geocoders) {
+      try {
+        const point = await geocoder.geocode(query, signal);
+        if (point) return point;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Error geocoding, trying the next geocoder:', error);
+      }
+    }
+    return null;
+  },
+});
+
+const CACHE_STORAGE_KEY = "tripsense.geocodeCache";
+
+// Remembers found places in localStorage so each one is only looked up once per browser.
+// Misses are only remembered for the session, since they may be down to a failed request.
+export const createCachedGeocoder = (geocoder: Geocoder, storageKey = CACHE_STORAGE_KEY): Geocoder => {
+  const misses = new Set<string>();
+  const read = (): Record<string, GeoPoint> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? "{}");
+    } catch {
+      return {};
+    }
+  };
+
+  return {
+    async geocode(query, signal) {
+      const key = normalize(query);
+      if (!key || misses.has(key)) return null;
+      const cache = read();
+      if (key in cache) return cache[key];
+
+      const point = await geocoder.geocode(query, signal);
+      if (!point) {
+        misses.add(key);
+        return null;
+      }
+      try {
+        localStorage.setItem(storageKey, JSON.stringify({ ...read(), [key]: point }));
+      } catch (error) {
+        console.error('Error caching geocoding result:', error);
+      }
+      return point;
+    },
+  };
+};
+
+// Place names stay in the browser by default. Set VITE_GEOCODER=nominatim to look
+// them up with OpenStreetMap's Nominatim first, falling back to the gazetteer.
+export const geocoder: Geocoder = createCachedGeocoder(
+  import.meta.env.VITE_GEOCODER === "nominatim"
+    ? createFallbackGeocoder([createNominatimGeocoder(), createGazetteerGeocoder()])
+    : createGazetteerGeocoder()
+);
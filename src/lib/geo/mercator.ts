@@ -0,0 +1,50 @@
+// Web Mercator helpers for slippy-map tiles. World coordinates are normalised to 0..1 on
+// both axes, so a point's pixel position at zoom z is its world coordinate times worldSize(z).
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 18;
+// Mercator is undefined at the poles; tiles stop at this latitude
+const MAX_LATITUDE = 85.0511;
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const project = (latitude: number, longitude: number): WorldPoint => {
+  const lat = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180;
+  return {
+    x: (longitude + 180) / 360,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2,
+  };
+};
+
+// Picks the highest zoom at which every point fits inside the viewport, and the centre between them
+export const fitPoints = (
+  points: WorldPoint[],
+  width: number,
+  height: number,
+  padding = 48,
+  maxZoom = 10
+): { center: WorldPoint; zoom: number } => {
+  if (points.length === 0) return { center: { x: 0.5, y: 0.5 }, zoom: MIN_ZOOM };
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const spanX = Math.max(maxX - minX, 1e-6);
+  const spanY = Math.max(maxY - minY, 1e-6);
+  const fit = Math.log2(
+    Math.min((width - padding * 2) / (spanX * TILE_SIZE), (height - padding * 2) / (spanY * TILE_SIZE))
+  );
+
+  return {
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+    zoom: clampZoom(Math.min(maxZoom, Math.floor(fit))),
+  };
+};
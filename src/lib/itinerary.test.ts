@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { type Itinerary, compactItinerary, dayKeys, fromActivityRows, parseActivityText, readStoredItinerary, replaceDay, toActivityRows, updateDayTitle } from "@/lib/itinerary";
+
+const itinerary: Itinerary = {
+  days: [
+    {
+      day_number: 1,
+      title: "Old Town",
+      slots: [
+        {
+          label: "Morning",
+          activities: [
+            { id: "a", title: " Castle tour ", place: "Castle", duration_minutes: 90.5, cost_estimate: 12, category: "culture" },
+            { id: "b", title: "  ", place: "", duration_minutes: null, cost_estimate: null, category: "other" },
+          ],
+        },
+        {
+          label: "Evening",
+          activities: [{ id: "c", title: "Dinner", place: "", duration_minutes: null, cost_estimate: 30, category: "food" }],
+        },
+      ],
+    },
+  ],
+};
+
+describe("toActivityRows", () => {
+  it("drops untitled activities and numbers positions per day", () => {
+    const rows = toActivityRows("trip", "user", itinerary);
+    expect(rows.map((row) => [row.title, row.slot_label, row.position])).toEqual([
+      ["Castle tour", "Morning", 0],
+      ["Dinner", "Evening", 1],
+    ]);
+  });
+
+  it("rounds durations for the integer column", () => {
+    const rows = toActivityRows("trip", "user", itinerary);
+    expect(rows.map((row) => row.duration_minutes)).toEqual([91, null]);
+  });
+
+  it("round-trips through fromActivityRows", () => {
+    const restored = fromActivityRows(toActivityRows("trip", "user", itinerary));
+    expect(restored?.days[0].slots.map((slot) => slot.activities.map((activity) => activity.title))).toEqual([
+      ["Castle tour"],
+      ["Dinner"],
+    ]);
+  });
+});
+
+describe("readStoredItinerary", () => {
+  it("reads plans saved with blank activities", () => {
+    const stored = JSON.parse(JSON.stringify(itinerary));
+    const { itinerary: read, readable } = readStoredItinerary(stored);
+    expect(readable).toBe(true);
+    expect(read?.days[0].slots[0].activities.map((activity) => activity.title)).toEqual(["Castle tour"]);
+  });
+
+  it("tells a missing plan apart from an unreadable one", () => {
+    expect(readStoredItinerary(null)).toEqual({ itinerary: null, readable: true });
+    expect(readStoredItinerary({ days: "soon" })).toEqual({ itinerary: null, readable: false });
+  });
+
+  it("reads a range as its first number", () => {
+    const stored = JSON.parse(JSON.stringify(itinerary));
+    Object.assign(stored.days[0].slots[0].activities[0], { duration_minutes: "2-3", cost_estimate: "$10-20" });
+    const [activity] = readStoredItinerary(stored).itinerary.days[0].slots[0].activities;
+    expect([activity.duration_minutes, activity.cost_estimate]).toEqual([2, 10]);
+  });
+});
+
+describe("parseActivityText", () => {
+  it("takes the place after the last at or in", () => {
+    expect(parseActivityText("Check in at hotel")).toMatchObject({ title: "Check in", place: "hotel" });
+    expect(parseActivityText("Lunch at Café Louvre (20 min)")).toMatchObject({ title: "Lunch", place: "Café Louvre" });
+  });
+});
+
+describe("compactItinerary", () => {
+  it("drops blank activities and the slots and days left empty", () => {
+    const blank = { ...itinerary.days[0], day_number: 2, slots: [{ label: "Morning", activities: [itinerary.days[0].slots[0].activities[1]] }] };
+    const compacted = compactItinerary({ days: [...itinerary.days, blank] });
+    expect(compacted?.days.map((day) => day.day_number)).toEqual([1]);
+    expect(compactItinerary({ days: [blank] })).toBeNull();
+  });
+});
+
+describe("day keys", () => {
+  const repeated: Itinerary = {
+    days: [
+      { ...itinerary.days[0], day_number: 2, title: "First" },
+      { ...itinerary.days[0], day_number: 2, title: "Second" },
+    ],
+  };
+
+  it("number repeated days like the plan's sections", () => {
+    expect(dayKeys(repeated)).toEqual(["day-2", "day-2-2"]);
+  });
+
+  it("change only the addressed day when day numbers repeat", () => {
+    expect(updateDayTitle(repeated, "day-2-2", "Beach").days.map((day) => day.title)).toEqual(["First", "Beach"]);
+    const replaced = replaceDay(repeated, "day-2", { day_number: 9, title: "Markets", slots: [] });
+    expect(replaced.days.map((day) => [day.day_number, day.title])).toEqual([[2, "Markets"], [2, "Second"]]);
+  });
+});
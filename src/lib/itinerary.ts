@@ -0,0 +1,456 @@
+import { z } from "zod";
+
+export const ACTIVITY_CATEGORIES = [
+  "sightseeing",
+  "food",
+  "culture",
+  "nature",
+  "adventure",
+  "shopping",
+  "nightlife",
+  "wellness",
+  "transport",
+  "other",
+] as const;
+
+export type ActivityCategory = (typeof ACTIVITY_CATEGORIES)[number];
+
+export interface ItineraryActivity {
+  id: string;
+  title: string;
+  place: string;
+  duration_minutes: number | null;
+  cost_estimate: number | null;
+  category: ActivityCategory;
+}
+
+export interface ItinerarySlot {
+  label: string;
+  activities: ItineraryActivity[];
+}
+
+export interface ItineraryDay {
+  day_number: number;
+  title: string;
+  slots: ItinerarySlot[];
+}
+
+export interface Itinerary {
+  days: ItineraryDay[];
+}
+
+// Row shape of the `trip_activities` table
+export interface TripActivityRow {
+  id?: string;
+  trip_id: string;
+  user_id: string;
+  day_number: number;
+  day_title: string;
+  slot_label: string;
+  position: number;
+  title: string;
+  place: string;
+  duration_minutes: number | null;
+  cost_estimate: number | null;
+  category: string;
+}
+
+const newId = () => crypto.randomUUID();
+
+const optionalNumber = z
+  .union([z.number(), z.string(), z.null()])
+  .optional()
+  .transform((value) => {
+    if (value === null || value === undefined || value === "") return null;
+    // "2-3" or "$10-20" count as their first number
+    const parsed = typeof value === "number" ? value : parseFloat(value.match(/\d[\d,]*(?:\.\d+)?/)?.[0].replace(/,/g, "") ?? "");
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  });
+
+const activitySchema = z.object({
+  title: z.string().trim().min(1),
+  place: z.string().trim().optional().default(""),
+  duration_minutes: optionalNumber,
+  cost_estimate: optionalNumber,
+  category: z.string().optional().default("other"),
+});
+
+const slotSchema = z.object({
+  label: z.string().trim().min(1),
+  activities: z.array(activitySchema).default([]),
+});
+
+const daySchema = z.object({
+  day_number: z.coerce.number().int().positive(),
+  title: z.string().trim().optional().default(""),
+  slots: z.array(slotSchema).default([]),
+});
+
+const itinerarySchema = z.object({
+  days: z.array(daySchema).min(1),
+});
+
+// Saved plans keep whatever the editor held, including activities whose title was
+// still blank, so revisions are read with blank titles and labels allowed
+const storedItinerarySchema = z.object({
+  days: z.array(
+    daySchema.extend({
+      slots: z
+        .array(
+          slotSchema.extend({
+            label: z.string().trim().transform((label) => label || "Anytime"),
+            activities: z.array(activitySchema.extend({ title: z.string().trim().default("") })).default([]),
+          })
+        )
+        .default([]),
+    })
+  ),
+});
+
+const CATEGORY_KEYWORDS: [ActivityCategory, RegExp][] = [
+  ["food", /\b(breakfast|lunch|dinner|brunch|cafe|café|restaurant|market|food|street food|eat|tasting|bakery)\b/i],
+  ["nightlife", /\b(bar|pub|club|nightlife|cocktail|izakaya)\b/i],
+  ["nature", /\b(park|garden|hike|hiking|mountain|lake|beach|forest|waterfall|trail)\b/i],
+  ["culture", /\b(museum|temple|shrine|gallery|church|cathedral|palace|castle|theatre|theater|heritage)\b/i],
+  ["shopping", /\b(shop|shopping|mall|boutique|souvenir|bazaar)\b/i],
+  ["wellness", /\b(spa|onsen|massage|yoga|hot spring|relax)\b/i],
+  ["adventure", /\b(kayak|rafting|diving|snorkel|zipline|climb|surf|safari)\b/i],
+  ["transport", /\b(train|flight|airport|transfer|bus|ferry|check[- ]in|check[- ]out)\b/i],
+  ["sightseeing", /\b(tour|visit|explore|view|viewpoint|landmark|walk|stroll)\b/i],
+];
+
+export const normalizeCategory = (value: string | undefined, hint = ""): ActivityCategory => {
+  const lowered = (value || "").toLowerCase().trim();
+  if ((ACTIVITY_CATEGORIES as readonly string[]).includes(lowered)) {
+    return lowered as ActivityCategory;
+  }
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(`${lowered} ${hint}`));
+  return match ? match[0] : "other";
+};
+
+const fromValidated = (data: z.infer<typeof itinerarySchema>): Itinerary => ({
+  days: data.days
+    .map((day) => ({
+      day_number: day.day_number,
+      title: day.title,
+      slots: day.slots.map((slot) => ({
+        label: slot.label,
+        activities: slot.activities.map((activity) => ({
+          id: newId(),
+          title: activity.title,
+          place: activity.place,
+          duration_minutes: activity.duration_minutes,
+          cost_estimate: activity.cost_estimate,
+          category: normalizeCategory(activity.category, activity.title),
+        })),
+      })),
+    }))
+    .sort((a, b) => a.day_number - b.day_number),
+});
+
+const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text.trim();
+  if (!candidate.startsWith("{")) return undefined;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
+
+const DAY_HEADING = /^#{0,6}\s*\**\s*day\s+(\d+)\s*\**\s*[:\-–—.]?\s*(.*?)\**\s*$/i;
+const SLOT_LABEL = /^#{0,6}\s*\**\s*(early morning|morning|midday|afternoon|evening|late night|night|breakfast|lunch|dinner|\d{1,2}:\d{2}\s*(?:am|pm)?|\d{1,2}\s*(?:am|pm))\b\s*\**\s*(?:[:\-–—]\s*\**\s*(.*)|$)/i;
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+(.*)$/;
+
+export const isDayHeading = (line: string) => DAY_HEADING.test(line);
+
+const stripMarkdown = (text: string) => text.replace(/\*\*|__|`/g, "").replace(/\s+/g, " ").trim();
+
+export const parseActivityText = (raw: string): Omit<ItineraryActivity, "id"> => {
+  const text = stripMarkdown(raw);
+
+  const costMatch = text.match(/(?:[$€£¥₹]\s?(\d[\d,]*(?:\.\d+)?))|(?:(\d[\d,]*(?:\.\d+)?)\s?(?:usd|eur|jpy|gbp|inr))/i);
+  const cost = costMatch ? parseFloat((costMatch[1] || costMatch[2]).replace(/,/g, "")) : null;
+
+  const durationMatch = text.match(/(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?)\b/i);
+  let duration: number | null = null;
+  if (durationMatch) {
+    const amount = parseFloat(durationMatch[1]);
+    duration = /^h/i.test(durationMatch[2]) ? Math.round(amount * 60) : Math.round(amount);
+  }
+
+  // "Title at Place (details)" or "Title - Place: details". The place follows the last
+  // "at"/"in", so "Check in at hotel" keeps "Check in" as its title
+  const [head] = text.split(/\s*[(:]\s*/);
+  const atMatch = head.match(/^(.*\S)\s+(?:at|in)\s+(.+)$/i);
+  const dashMatch = head.match(/^(.*?)\s+[-–—]\s+(.+)$/);
+  const split = atMatch || dashMatch;
+  const title = (split ? split[1] : head).trim() || text;
+  const place = split ? split[2].trim() : "";
+
+  return {
+    title,
+    place,
+    duration_minutes: duration,
+    cost_estimate: cost,
+    category: normalizeCategory(undefined, text),
+  };
+};
+
+const parseMarkdown = (text: string): Itinerary | null => {
+  const days: ItineraryDay[] = [];
+  let currentDay: ItineraryDay | null = null;
+  let currentSlot: ItinerarySlot | null = null;
+
+  const ensureSlot = (label: string) => {
+    if (!currentDay) return null;
+    const existing = currentDay.slots.find((slot) => slot.label.toLowerCase() === label.toLowerCase());
+    if (existing) return existing;
+    const slot: ItinerarySlot = { label, activities: [] };
+    currentDay.slots.push(slot);
+    return slot;
+  };
+
+  const pushActivity = (raw: string) => {
+    const slot = currentSlot || ensureSlot("Anytime");
+    if (!slot || !stripMarkdown(raw)) return;
+    slot.activities.push({ id: newId(), ...parseActivityText(raw) });
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const dayMatch = line.match(DAY_HEADING);
+    if (dayMatch) {
+      currentDay = { day_number: parseInt(dayMatch[1], 10), title: stripMarkdown(dayMatch[2] || ""), slots: [] };
+      currentSlot = null;
+      days.push(currentDay);
+      continue;
+    }
+    if (!currentDay) continue;
+
+    const bullet = line.match(BULLET);
+    const body = bullet ? bullet[1] : line;
+    const slotMatch = body.match(SLOT_LABEL);
+    if (slotMatch) {
+      const label = stripMarkdown(slotMatch[1]);
+      currentSlot = ensureSlot(label.charAt(0).toUpperCase() + label.slice(1));
+      if (slotMatch[2]) pushActivity(slotMatch[2]);
+      continue;
+    }
+
+    if (bullet) pushActivity(bullet[1]);
+  }
+
+  const filled = days
+    .map((day) => ({ ...day, slots: day.slots.filter((slot) => slot.activities.length > 0) }))
+    .filter((day) => day.slots.length > 0);
+  return filled.length > 0 ? { days: filled.sort((a, b) => a.day_number - b.day_number) } : null;
+};
+
+// Drops blank activities and the slots and days they leave empty; null when nothing is left
+export const compactItinerary = (itinerary: Itinerary | null): Itinerary | null => {
+  if (!itinerary) return null;
+  const days = itinerary.days
+    .map((day) => ({
+      ...day,
+      slots: day.slots
+        .map((slot) => ({ ...slot, activities: slot.activities.filter((activity) => activity.title.trim()) }))
+        .filter((slot) => slot.activities.length > 0),
+    }))
+    .filter((day) => day.slots.length > 0);
+  return days.length > 0 ? { days } : null;
+};
+
+/**
+ * Reads an itinerary saved with a revision. `readable` is false when something was
+ * stored but doesn't look like an itinerary, as opposed to a revision without a plan.
+ */
+export const readStoredItinerary = (input: unknown): { itinerary: Itinerary | null; readable: boolean } => {
+  if (input === null || input === undefined) return { itinerary: null, readable: true };
+  const result = storedItinerarySchema.safeParse(input);
+  return result.success
+    ? { itinerary: compactItinerary(fromValidated(result.data)), readable: true }
+    : { itinerary: null, readable: false };
+};
+
+/**
+ * Turns a `travel-recommendations` response into a validated itinerary.
+ * Accepts a structured object, a JSON string (optionally fenced) or the
+ * Markdown the model usually returns. Returns null if no days can be found.
+ */
+export const parseItinerary = (input: unknown): Itinerary | null => {
+  if (!input) return null;
+
+  const candidate = typeof input === "string" ? extractJson(input) : input;
+  if (candidate) {
+    const result = itinerarySchema.safeParse(candidate);
+    if (result.success) return fromValidated(result.data);
+  }
+
+  return typeof input === "string" ? parseMarkdown(input) : null;
+};
+
+export const createActivity = (): ItineraryActivity => ({
+  id: newId(),
+  title: "",
+  place: "",
+  duration_minutes: null,
+  cost_estimate: null,
+  category: "other",
+});
+
+/**
+ * Keys for the days of an itinerary, matching the plan's section keys: "day-3", and
+ * "day-3-2" for a second Day 3. Days are addressed by key so a repeated day number
+ * doesn't make an edit land on both days.
+ */
+export const dayKeys = (itinerary: Itinerary) => {
+  const seen = new Map<number, number>();
+  return itinerary.days.map((day) => {
+    const count = (seen.get(day.day_number) ?? 0) + 1;
+    seen.set(day.day_number, count);
+    return count === 1 ? `day-${day.day_number}` : `day-${day.day_number}-${count}`;
+  });
+};
+
+const mapDay = (itinerary: Itinerary, dayKey: string, update: (day: ItineraryDay) => ItineraryDay): Itinerary => {
+  const keys = dayKeys(itinerary);
+  return { days: itinerary.days.map((day, index) => (keys[index] === dayKey ? update(day) : day)) };
+};
+
+const mapSlot = (
+  itinerary: Itinerary,
+  dayKey: string,
+  slotIndex: number,
+  update: (activities: ItineraryActivity[]) => ItineraryActivity[]
+): Itinerary =>
+  mapDay(itinerary, dayKey, (day) => ({
+    ...day,
+    slots: day.slots.map((slot, index) => (index === slotIndex ? { ...slot, activities: update(slot.activities) } : slot)),
+  }));
+
+export const updateActivity = (
+  itinerary: Itinerary,
+  dayKey: string,
+  slotIndex: number,
+  activityId: string,
+  changes: Partial<Omit<ItineraryActivity, "id">>
+) =>
+  mapSlot(itinerary, dayKey, slotIndex, (activities) =>
+    activities.map((activity) => (activity.id === activityId ? { ...activity, ...changes } : activity))
+  );
+
+export const moveActivity = (
+  itinerary: Itinerary,
+  dayKey: string,
+  slotIndex: number,
+  activityId: string,
+  direction: -1 | 1
+) =>
+  mapSlot(itinerary, dayKey, slotIndex, (activities) => {
+    const from = activities.findIndex((activity) => activity.id === activityId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= activities.length) return activities;
+    const next = [...activities];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+  });
+
+export const removeActivity = (itinerary: Itinerary, dayKey: string, slotIndex: number, activityId: string) =>
+  mapSlot(itinerary, dayKey, slotIndex, (activities) => activities.filter((activity) => activity.id !== activityId));
+
+export const addActivity = (itinerary: Itinerary, dayKey: string, slotIndex: number) =>
+  mapSlot(itinerary, dayKey, slotIndex, (activities) => [...activities, createActivity()]);
+
+// Swaps in a regenerated day, keeping its number and position in the trip
+export const replaceDay = (itinerary: Itinerary, dayKey: string, day: ItineraryDay): Itinerary =>
+  mapDay(itinerary, dayKey, (existing) => ({ ...day, day_number: existing.day_number }));
+
+export const updateDayTitle = (itinerary: Itinerary, dayKey: string, title: string): Itinerary =>
+  mapDay(itinerary, dayKey, (day) => ({ ...day, title }));
+
+export const totalEstimatedCost = (itinerary: Itinerary) =>
+  itinerary.days.reduce(
+    (sum, day) =>
+      sum +
+      day.slots.reduce(
+        (slotSum, slot) =>
+          slotSum + slot.activities.reduce((activitySum, activity) => activitySum + (activity.cost_estimate || 0), 0),
+        0
+      ),
+    0
+  );
+
+export const toActivityRows = (tripId: string, userId: string, itinerary: Itinerary): TripActivityRow[] =>
+  itinerary.days.flatMap((day) => {
+    let position = 0;
+    return day.slots.flatMap((slot) =>
+      slot.activities
+        .filter((activity) => activity.title.trim())
+        .map((activity) => ({
+          trip_id: tripId,
+          user_id: userId,
+          day_number: day.day_number,
+          day_title: day.title,
+          slot_label: slot.label,
+          position: position++,
+          title: activity.title.trim(),
+          place: activity.place.trim(),
+          // The column is an integer; AI plans sometimes give fractional minutes
+          duration_minutes: activity.duration_minutes === null ? null : Math.round(activity.duration_minutes),
+          cost_estimate: activity.cost_estimate,
+          category: activity.category,
+        }))
+    );
+  });
+
+export const fromActivityRows = (rows: TripActivityRow[]): Itinerary | null => {
+  if (rows.length === 0) return null;
+
+  const sorted = [...rows].sort((a, b) => a.day_number - b.day_number || a.position - b.position);
+  const days: ItineraryDay[] = [];
+  for (const row of sorted) {
+    let day = days.find((d) => d.day_number === row.day_number);
+    if (!day) {
+      day = { day_number: row.day_number, title: row.day_title || "", slots: [] };
+      days.push(day);
+    }
+    let slot = day.slots.find((s) => s.label === row.slot_label);
+    if (!slot) {
+      slot = { label: row.slot_label, activities: [] };
+      day.slots.push(slot);
+    }
+    slot.activities.push({
+      id: row.id || newId(),
+      title: row.title,
+      place: row.place || "",
+      duration_minutes: row.duration_minutes,
+      cost_estimate: row.cost_estimate === null ? null : Number(row.cost_estimate),
+      category: normalizeCategory(row.category),
+    });
+  }
+  return { days };
+};
+
+// Renders an itinerary back into the Markdown layout parseItinerary understands
+export const itineraryToMarkdown = (itinerary: Itinerary) =>
+  itinerary.days
+    .map((day) =>
+      [
+        `## Day ${day.day_number}${day.title ? `: ${day.title}` : ""}`,
+        ...day.slots.flatMap((slot) => [
+          `### ${slot.label}`,
+          ...slot.activities.map((activity) => {
+            const details = [
+              activity.duration_minutes !== null && `${activity.duration_minutes} min`,
+              activity.cost_estimate !== null && `~${activity.cost_estimate}`,
+              activity.category,
+            ].filter(Boolean);
+            return `- ${activity.title}${activity.place ? ` at ${activity.place}` : ""} (${details.join(", ")})`;
+          }),
+        ]),
+      ].join("\n")
+    )
+    .join("\n\n");
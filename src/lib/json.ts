@@ -0,0 +1,4 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Plain data for a jsonb column; interfaces lack the index signature Json needs
+export const toJson = (value: unknown): Json => JSON.parse(JSON.stringify(value ?? null));
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { compareAmount, inDateRange, inNumberRange, matchesSearch, paginate } from "@/lib/listQuery";
+
+describe("matchesSearch", () => {
+  it("needs every term somewhere in the fields, ignoring case and accents", () => {
+    expect(matchesSearch("kyoto FOOD", ["Kyōto", "food tour"])).toBe(true);
+    expect(matchesSearch("kyoto beach", ["Kyoto", null])).toBe(false);
+    expect(matchesSearch("  ", [])).toBe(true);
+  });
+});
+
+describe("inDateRange", () => {
+  it("matches trips that overlap the range", () => {
+    expect(inDateRange("2026-05-10", "", "2026-05-01", "2026-05-12")).toBe(true);
+    expect(inDateRange("2026-05-13", "", "2026-05-01", "2026-05-12")).toBe(false);
+    expect(inDateRange("", "2026-04-30", "2026-05-01")).toBe(false);
+  });
+});
+
+describe("inNumberRange", () => {
+  it("treats blank and invalid bounds as open", () => {
+    expect(inNumberRange("100", "", 100)).toBe(true);
+    expect(inNumberRange("abc", "50", 40)).toBe(true);
+    expect(inNumberRange("", "50", 60)).toBe(false);
+  });
+
+  it("excludes missing values once a bound is set", () => {
+    expect(inNumberRange("", "", null)).toBe(true);
+    expect(inNumberRange("0", "", null)).toBe(false);
+  });
+});
+
+describe("compareAmount", () => {
+  it("sorts missing values last in both directions", () => {
+    const values = [null, 300, 100, null, 200];
+    expect([...values].sort((a, b) => compareAmount(a, b, "asc"))).toEqual([100, 200, 300, null, null]);
+    expect([...values].sort((a, b) => compareAmount(a, b, "desc"))).toEqual([300, 200, 100, null, null]);
+  });
+});
+
+describe("paginate", () => {
+  it("clamps the page to the available rows", () => {
+    expect(paginate([1, 2, 3, 4, 5], 9, 2)).toEqual({ rows: [5], page: 3, start: 4 });
+  });
+});
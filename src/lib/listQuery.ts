@@ -0,0 +1,61 @@
+// Client-side search, filtering, sorting and paging for the list pages. Lists are loaded
+// whole from the repositories (and the offline cache), so narrowing them happens here.
+
+export interface SortOption<T> {
+  value: string;
+  label: string;
+  compare: (a: T, b: T) => number;
+}
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+// Every whitespace-separated term must appear in at least one of the fields
+export const matchesSearch = (query: string, fields: (string | null | undefined)[]) => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = normalize(fields.filter(Boolean).join("\n"));
+  return terms.every((term) => haystack.includes(term));
+};
+
+// Inclusive range over ISO dates (YYYY-MM-DD); empty bounds are open. Pass an end date to
+// match anything that overlaps the range, e.g. a trip that starts before it and ends inside.
+export const inDateRange = (from: string, to: string, start: string, end = start) =>
+  (!from || end.slice(0, 10) >= from) && (!to || start.slice(0, 10) <= to);
+
+// Inclusive numeric range from input strings; blank or invalid bounds are open. A missing
+// value only passes while both bounds are open.
+export const inNumberRange = (min: string, max: string, value: number | null) => {
+  const low = min === "" ? NaN : Number(min);
+  const high = max === "" ? NaN : Number(max);
+  if (value === null) return Number.isNaN(low) && Number.isNaN(high);
+  return (Number.isNaN(low) || value >= low) && (Number.isNaN(high) || value <= high);
+};
+
+// Numeric comparison that sorts missing values last in either direction
+export const compareAmount = (a: number | null, b: number | null, direction: "asc" | "desc") => {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  return direction === "asc" ? a - b : b - a;
+};
+
+export const compareText = (a: string | null | undefined, b: string | null | undefined) =>
+  (a ?? "").localeCompare(b ?? "", undefined, { sensitivity: "base", numeric: true });
+
+export const sortRows = <T>(rows: T[], options: SortOption<T>[], value: string) => {
+  const option = options.find((item) => item.value === value) ?? options[0];
+  return [...rows].sort(option.compare);
+};
+
+export const pageCount = (total: number, pageSize: number) => Math.max(1, Math.ceil(total / pageSize));
+
+// Page (1-based) that holds the row at the given index
+export const pageOf = (index: number, pageSize: number) => Math.floor(index / pageSize) + 1;
+
+export const paginate = <T>(rows: T[], page: number, pageSize: number) => {
+  const current = Math.min(Math.max(1, page), pageCount(rows.length, pageSize));
+  const start = (current - 1) * pageSize;
+  return { rows: rows.slice(start, start + pageSize), page: current, start };
+};
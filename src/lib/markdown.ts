@@ -0,0 +1,245 @@
+// Small Markdown parser producing a plain AST. Rendering happens through
+// React elements (see MarkdownRenderer), never through raw HTML, so the only
+// injection surface is URLs, which go through sanitizeUrl.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string | null; children: InlineNode[] }
+  | { type: "image"; src: string | null; alt: string };
+
+export interface ListItem {
+  children: InlineNode[];
+  // null for plain items, true/false for "- [x]" / "- [ ]"
+  checked: boolean | null;
+  // Source line of the item, used to toggle checkboxes
+  line: number;
+  sublist: ListBlock | null;
+}
+
+export interface ListBlock {
+  type: "list";
+  ordered: boolean;
+  start: number;
+  items: ListItem[];
+}
+
+export type BlockNode =
+  | { type: "heading"; level: number; children: InlineNode[] }
+  | { type: "paragraph"; children: InlineNode[] }
+  | ListBlock
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "hr" };
+
+const SAFE_IMAGE_DATA = /^data:image\/(png|jpe?g|gif|webp);base64,/i;
+
+/**
+ * Returns the URL if it is safe to put in href/src, otherwise null.
+ * Allows http(s), mailto, relative URLs and, for images, blob: and
+ * base64 raster data URLs.
+ */
+export const sanitizeUrl = (url: string, kind: "link" | "image" = "link"): string | null => {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside the scheme
+  // eslint-disable-next-line no-control-regex
+  const normalized = trimmed.replace(/[\u0000-\u0020\u007f]/g, "").toLowerCase();
+
+  if (/^(https?:|mailto:)/.test(normalized)) return trimmed;
+  if (kind === "image" && (normalized.startsWith("blob:") || SAFE_IMAGE_DATA.test(normalized))) return trimmed;
+  if (!/^[a-z][a-z0-9+.-]*:/.test(normalized)) return trimmed;
+  return null;
+};
+
+// Link target with at most one level of balanced parentheses and an optional title
+const URL_PART = String.raw`((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?`;
+
+const INLINE_PATTERNS: [RegExp, (match: RegExpExecArray) => InlineNode][] = [
+  [/`([^`]+)`/y, (m) => ({ type: "code", text: m[1] })],
+  [new RegExp(String.raw`!\[([^\]]*)\]\(${URL_PART}\)`, "y"), (m) => ({ type: "image", alt: m[1], src: sanitizeUrl(m[2], "image") })],
+  [new RegExp(String.raw`\[([^\]]+)\]\(${URL_PART}\)`, "y"), (m) => ({ type: "link", href: sanitizeUrl(m[2]), children: parseInline(m[1]) })],
+  [/\*\*(?=\S)([\s\S]*?\S)\*\*/y, (m) => ({ type: "strong", children: parseInline(m[1]) })],
+  [/__(?=\S)([\s\S]*?\S)__/y, (m) => ({ type: "strong", children: parseInline(m[1]) })],
+  [/\*(?=\S)([\s\S]*?\S)\*/y, (m) => ({ type: "em", children: parseInline(m[1]) })],
+  [/_(?=\S)([\s\S]*?\S)_(?![A-Za-z0-9])/y, (m) => ({ type: "em", children: parseInline(m[1]) })],
+  [/https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/y, (m) => ({ type: "link", href: sanitizeUrl(m[0]), children: [{ type: "text", text: m[0] }] })],
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  outer: while (index < text.length) {
+    // Backslash escapes the next punctuation character
+    if (text[index] === "\\" && /[\\`*_[\]()#!-]/.test(text[index + 1] ?? "")) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+    // Intraword underscores (snake_case) are not emphasis
+    const prevIsWord = index > 0 && /[A-Za-z0-9]/.test(text[index - 1]);
+    for (const [pattern, build] of INLINE_PATTERNS) {
+      if (prevIsWord && pattern.source.startsWith("_")) continue;
+      pattern.lastIndex = index;
+      const match = pattern.exec(text);
+      if (match) {
+        flush();
+        nodes.push(build(match));
+        index += match[0].length;
+        continue outer;
+      }
+    }
+    buffer += text[index++];
+  }
+  flush();
+  return nodes;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, "  ").length;
+
+const parseList = (lines: string[], start: number, offset: number): [ListBlock, number] => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const list: ListBlock = { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) break;
+
+    const match = line.match(LIST_ITEM);
+    const indent = indentOf(line);
+    // A switch between bullets and numbers starts a new list
+    if (match && indent === baseIndent && /\d/.test(match[2]) !== ordered) break;
+    if (match && indent === baseIndent) {
+      const checkbox = match[3].match(CHECKBOX);
+      list.items.push({
+        children: parseInline(checkbox ? checkbox[2] : match[3]),
+        checked: checkbox ? checkbox[1] !== " " : null,
+        line: offset + i,
+        sublist: null,
+      });
+      i++;
+    } else if (match && indent > baseIndent && list.items.length > 0) {
+      const [sublist, next] = parseList(lines, i, offset);
+      list.items[list.items.length - 1].sublist = sublist;
+      i = next;
+    } else if (!match && indent > baseIndent && list.items.length > 0) {
+      // Lazy continuation of the previous item
+      const item = list.items[list.items.length - 1];
+      item.children = [...item.children, { type: "text", text: " " }, ...parseInline(line.trim())];
+      i++;
+    } else {
+      break;
+    }
+  }
+  return [list, i];
+};
+
+const parseBlocks = (lines: string[], offset: number): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: "hr" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      const quoteStart = i;
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted, offset + quoteStart) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, i, offset);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !HEADING.test(lines[i]) &&
+      !FENCE.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i]) &&
+      !HR.test(lines[i])
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"), 0);
+
+// Flips "- [ ]" and "- [x]" on the given source line
+export const toggleChecklistItem = (source: string, line: number) => {
+  const lines = source.split("\n");
+  const current = lines[line];
+  if (current === undefined) return source;
+  lines[line] = current.replace(/^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/, (_, prefix, mark) => `${prefix}[${mark === " " ? "x" : " "}]`);
+  return lines.join("\n");
+};
+
+// Strips Markdown syntax for previews and search
+export const markdownToPlainText = (source: string) =>
+  source
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(new RegExp(String.raw`!?\[([^\]]*)\]\(${URL_PART}\)`, "g"), "$1")
+    .replace(/^\s*#{1,6}\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/gm, "")
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "")
+    .replace(/(\*\*|__|\*|`)/g, "")
+    .replace(/(^|[^A-Za-z0-9])_(?=\S)|(\S)_(?![A-Za-z0-9])/g, "$1$2")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
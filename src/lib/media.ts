@@ -0,0 +1,168 @@
+export interface ExifData {
+  takenAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  exif: ExifData;
+}
+
+export const MAX_IMAGE_DIMENSION = 2048;
+export const THUMBNAIL_DIMENSION = 320;
+
+const EMPTY_EXIF: ExifData = { takenAt: null, latitude: null, longitude: null };
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME = 0x0132;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      // Offset of the entry's value field; large values store a pointer there
+      valueOffset: entry + 8,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, tiffStart: number, little: boolean, entry?: { count: number; valueOffset: number }) => {
+  if (!entry) return null;
+  const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  let text = "";
+  for (let i = 0; i < entry.count - 1 && start + i < view.byteLength; i++) {
+    text += String.fromCharCode(view.getUint8(start + i));
+  }
+  return text;
+};
+
+const readCoordinate = (view: DataView, tiffStart: number, little: boolean, entry?: { count: number; valueOffset: number }) => {
+  if (!entry || entry.count < 3) return null;
+  const start = tiffStart + view.getUint32(entry.valueOffset, little);
+  if (start + 24 > view.byteLength) return null;
+  const rational = (index: number) => {
+    const denominator = view.getUint32(start + index * 8 + 4, little);
+    return denominator ? view.getUint32(start + index * 8, little) / denominator : 0;
+  };
+  return rational(0) + rational(1) / 60 + rational(2) / 3600;
+};
+
+// EXIF stores "YYYY:MM:DD HH:MM:SS" in camera-local time
+const exifDateToIso = (value: string | null) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : null;
+};
+
+/**
+ * Reads capture time and GPS position from a JPEG's EXIF block. Returns
+ * nulls for other formats or when the data is missing or malformed.
+ */
+export const readExif = async (file: Blob): Promise<ExifData> => {
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return EMPTY_EXIF;
+
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+        const exifPointer = ifd0.get(TAG_EXIF_IFD);
+        const exifIfd = exifPointer
+          ? readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little)
+          : new Map();
+        const takenAt = exifDateToIso(
+          readAscii(view, tiffStart, little, exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ??
+            readAscii(view, tiffStart, little, ifd0.get(TAG_DATE_TIME))
+        );
+
+        let latitude: number | null = null;
+        let longitude: number | null = null;
+        const gpsPointer = ifd0.get(TAG_GPS_IFD);
+        if (gpsPointer) {
+          const gps = readIfd(view, tiffStart, view.getUint32(gpsPointer.valueOffset, little), little);
+          latitude = readCoordinate(view, tiffStart, little, gps.get(TAG_GPS_LATITUDE));
+          longitude = readCoordinate(view, tiffStart, little, gps.get(TAG_GPS_LONGITUDE));
+          if (latitude !== null && readAscii(view, tiffStart, little, gps.get(TAG_GPS_LATITUDE_REF)) === "S") {
+            latitude = -latitude;
+          }
+          if (longitude !== null && readAscii(view, tiffStart, little, gps.get(TAG_GPS_LONGITUDE_REF)) === "W") {
+            longitude = -longitude;
+          }
+        }
+
+        return { takenAt, latitude, longitude };
+      }
+      if ((marker & 0xff00) !== 0xff00) break;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error('Error reading EXIF data:', error);
+  }
+  return EMPTY_EXIF;
+};
+
+const scaleToFit = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const renderToBlob = (bitmap: ImageBitmap, width: number, height: number, quality: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, width, height);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), "image/jpeg", quality)
+  );
+};
+
+/**
+ * Prepares a photo for upload: extracts EXIF first (re-encoding drops it),
+ * then produces a downscaled JPEG and a small thumbnail.
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  if (!file.type.startsWith("image/")) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const exif = await readExif(file);
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const full = scaleToFit(bitmap.width, bitmap.height, MAX_IMAGE_DIMENSION);
+    const thumb = scaleToFit(bitmap.width, bitmap.height, THUMBNAIL_DIMENSION);
+    const [image, thumbnail] = await Promise.all([
+      renderToBlob(bitmap, full.width, full.height, 0.85),
+      renderToBlob(bitmap, thumb.width, thumb.height, 0.7),
+    ]);
+    return { image, thumbnail, width: full.width, height: full.height, exif };
+  } finally {
+    bitmap.close();
+  }
+};
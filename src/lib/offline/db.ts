@@ -0,0 +1,143 @@
+// Thin promise wrapper around the IndexedDB database that mirrors the
+// user's trips, diary entries and saved destinations for offline use.
+// Shared trips are found through their member_ids as well as user_id.
+
+export const CACHED_TABLES = ["trips", "diary_entries", "saved_destinations"] as const;
+export type CachedTable = typeof CACHED_TABLES[number];
+
+export interface CachedRow {
+  id: string;
+  user_id: string;
+  updated_at?: string | null;
+  [column: string]: unknown;
+}
+
+const DB_NAME = "tripsense-offline";
+const DB_VERSION = 2;
+// Array column listing everyone a row is shared with, indexed per entry
+const MEMBER_INDEX = "member_ids";
+export const QUEUE_STORE = "sync_queue";
+export const CONFLICT_STORE = "sync_conflicts";
+
+type RecordStore = typeof QUEUE_STORE | typeof CONFLICT_STORE;
+type StoreName = CachedTable | RecordStore;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const table of CACHED_TABLES) {
+          if (!db.objectStoreNames.contains(table)) {
+            db.createObjectStore(table, { keyPath: "id" }).createIndex("user_id", "user_id");
+          }
+        }
+        const trips = request.transaction!.objectStore("trips");
+        if (!trips.indexNames.contains(MEMBER_INDEX)) {
+          trips.createIndex(MEMBER_INDEX, MEMBER_INDEX, { multiEntry: true });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+          db.createObjectStore(CONFLICT_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs the callback inside one transaction and resolves once it commits
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    let result: T | undefined;
+    if (request) request.onsuccess = () => (result = request.result);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const readRows = async <T extends CachedRow>(table: CachedTable, userId: string) => {
+  const db = await openDb();
+  const store = db.transaction(table).objectStore(table);
+  const [owned, shared] = await Promise.all([
+    promisify(store.index("user_id").getAll(userId)),
+    store.indexNames.contains(MEMBER_INDEX) ? promisify(store.index(MEMBER_INDEX).getAll(userId)) : [],
+  ]);
+  const rows = new Map([...owned, ...shared].map((row) => [row.id, row]));
+  return [...rows.values()] as T[];
+};
+
+export const readRow = async <T extends CachedRow>(table: CachedTable, id: string) =>
+  (await withStore<T>(table, "readonly", (store) => store.get(id) as IDBRequest<T>)) ?? null;
+
+export const putRows = (table: CachedTable, rows: CachedRow[]) =>
+  withStore(table, "readwrite", (store) => {
+    rows.forEach((row) => store.put(row));
+  });
+
+// Replaces everything cached for the user with a fresh server snapshot
+export const replaceRows = async (table: CachedTable, userId: string, rows: CachedRow[]) => {
+  const stale = await readRows(table, userId);
+  await withStore(table, "readwrite", (store) => {
+    stale.forEach((row) => store.delete(row.id));
+    rows.forEach((row) => store.put(row));
+  });
+};
+
+export const deleteRow = (table: CachedTable, id: string) =>
+  withStore(table, "readwrite", (store) => {
+    store.delete(id);
+  });
+
+export const readAll = async <T>(name: RecordStore) =>
+  ((await withStore<T[]>(name, "readonly", (store) => store.getAll() as IDBRequest<T[]>)) ?? []);
+
+export const addRecord = async <T>(name: RecordStore, record: T) =>
+  (await withStore<IDBValidKey>(name, "readwrite", (store) => store.add(record))) as number;
+
+export const deleteRecord = (name: RecordStore, id: number) =>
+  withStore(name, "readwrite", (store) => {
+    store.delete(id);
+  });
+
+export const putRecord = <T>(name: RecordStore, record: T) =>
+  withStore(name, "readwrite", (store) => {
+    store.put(record);
+  });
+
+// Empties every store, cached rows and queued changes alike
+export const clearAll = async () => {
+  const db = await openDb();
+  const names: StoreName[] = [...CACHED_TABLES, QUEUE_STORE, CONFLICT_STORE];
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(names, "readwrite");
+    names.forEach((name) => transaction.objectStore(name).clear());
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import { type SyncOperation, UpdateRejectedError, isNetworkError, mergeOperation, mutateRow } from "@/lib/offline/sync";
+import { putRows } from "@/lib/offline/db";
+
+const serverRow = { id: "trip-1", user_id: "owner", destination: "Rome", updated_at: "2026-10-01T10:00:00Z" };
+
+// Updates match nothing, as when row-level security blocks them; reads return the server row
+vi.mock("@/integrations/supabase/client", () => {
+  const result = (data: unknown) => ({ maybeSingle: async () => ({ data, error: null }) });
+  return {
+    supabase: {
+      from: () => ({
+        update: () => ({ eq: () => ({ select: () => result(null) }) }),
+        select: () => ({ eq: () => result(serverRow) }),
+      }),
+    },
+  };
+});
+
+vi.mock("@/lib/offline/db", () => ({
+  CONFLICT_STORE: "sync_conflicts",
+  QUEUE_STORE: "sync_queue",
+  readAll: vi.fn(async () => []),
+  putRows: vi.fn(async () => undefined),
+  deleteRow: vi.fn(async () => undefined),
+}));
+
+const operation = (action: SyncOperation["action"], values: Record<string, unknown> = {}, id = 1): SyncOperation => ({
+  id,
+  table: "trips",
+  action,
+  rowId: "trip-1",
+  userId: "user-1",
+  values,
+  baseUpdatedAt: action === "insert" ? null : "2026-10-01T10:00:00Z",
+  queuedAt: "2026-10-19T10:00:00Z",
+});
+
+describe("mergeOperation", () => {
+  it("merges an update into a pending insert", () => {
+    const merged = mergeOperation(operation("insert", { destination: "Rome", budget: 100 }), operation("update", { budget: 200 }, 2));
+    expect(merged).toMatchObject({ id: 1, action: "insert", values: { destination: "Rome", budget: 200 } });
+  });
+
+  it("merges updates and keeps the original base version", () => {
+    const existing = operation("update", { notes: "a" });
+    const merged = mergeOperation(existing, { ...operation("update", { budget: 5 }, 2), baseUpdatedAt: "2026-10-02T00:00:00Z" });
+    expect(merged).toMatchObject({ id: 1, values: { notes: "a", budget: 5 }, baseUpdatedAt: existing.baseUpdatedAt });
+  });
+
+  it("cancels an insert that is deleted before it syncs", () => {
+    expect(mergeOperation(operation("insert", { destination: "Rome" }), operation("delete", {}, 2))).toBeNull();
+  });
+
+  it("turns a pending update into a delete", () => {
+    const merged = mergeOperation(operation("update", { notes: "a" }), operation("delete", {}, 2));
+    expect(merged).toMatchObject({ id: 1, action: "delete", values: {} });
+  });
+
+  it("does not fold an update into a pending delete", () => {
+    const existing = operation("delete");
+    expect(mergeOperation(existing, operation("update", { notes: "late" }, 2))).toBe(existing);
+  });
+});
+
+describe("isNetworkError", () => {
+  it("recognises fetch failures", () => {
+    expect(isNetworkError({ message: "TypeError: Failed to fetch" })).toBe(true);
+    expect(isNetworkError({ message: "new row violates row-level security policy" })).toBe(false);
+  });
+});
+
+describe("mutateRow", () => {
+  it("rejects an update that matched no row and restores the server copy", async () => {
+    const change = { action: "update" as const, id: "trip-1", values: { destination: "Paris" } };
+    await expect(mutateRow("trips", "user-1", change)).rejects.toBeInstanceOf(UpdateRejectedError);
+    expect(putRows).toHaveBeenCalledWith("trips", [serverRow]);
+  });
+});
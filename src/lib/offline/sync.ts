@@ -0,0 +1,384 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  CONFLICT_STORE,
+  type CachedRow,
+  type CachedTable,
+  QUEUE_STORE,
+  addRecord,
+  clearAll,
+  deleteRecord,
+  deleteRow,
+  putRecord,
+  putRows,
+  readAll,
+  readRow,
+  readRows,
+  replaceRows,
+} from "./db";
+import { mediaStorage } from "@/lib/storage";
+
+export type SyncAction = "insert" | "update" | "delete";
+
+export interface SyncOperation {
+  id?: number;
+  table: CachedTable;
+  action: SyncAction;
+  rowId: string;
+  userId: string;
+  values: Record<string, unknown>;
+  // updated_at of the row when it was edited; null for rows not yet on the server
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  // Storage paths to remove once this delete reaches the server
+  files?: string[];
+}
+
+export type ConflictKind = "changed" | "deleted" | "rejected";
+
+export interface SyncConflict {
+  id?: number;
+  kind: ConflictKind;
+  operation: SyncOperation;
+  // Current server version, or null when the row no longer exists there
+  serverRow: CachedRow | null;
+  reason: string;
+  detectedAt: string;
+}
+
+export interface RowChange {
+  action: SyncAction;
+  // Required for update and delete; generated for inserts when missing
+  id?: string;
+  values?: Record<string, unknown>;
+  baseUpdatedAt?: string | null;
+}
+
+export const SYNC_CHANGED_EVENT = "tripsense:sync-changed";
+
+// An update that matched no row: it was deleted, or row-level security no longer lets
+// this user change it. Supabase reports both as an empty result rather than an error.
+export class UpdateRejectedError extends Error {
+  constructor() {
+    super("This change was rejected: the row was deleted or you can no longer edit it");
+    this.name = "UpdateRejectedError";
+  }
+}
+
+const notify = () => window.dispatchEvent(new Event(SYNC_CHANGED_EVENT));
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine;
+
+// supabase-js reports fetch failures as errors rather than throwing
+export const isNetworkError = (error: unknown) => {
+  if (!isOnline()) return true;
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return /failed to fetch|networkerror|load failed|fetch failed|network request failed/i.test(message);
+};
+
+// Reads the persisted session, which works without a connection
+export const getCachedUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+export const listPending = () => readAll<SyncOperation>(QUEUE_STORE);
+export const listConflicts = () => readAll<SyncConflict>(CONFLICT_STORE);
+
+// Forgets the cached rows and any unsynced changes, e.g. when the user signs out
+export const clearOfflineData = async () => {
+  await clearAll();
+  notify();
+};
+
+// Pending changes still have to win over a fresh server snapshot
+const overlayPending = <T extends { id: string }>(rows: T[], operations: SyncOperation[]) =>
+  operations.reduce<T[]>((result, op) => {
+    if (op.action === "delete") return result.filter((row) => row.id !== op.rowId);
+    if (op.action === "insert") return [...result.filter((row) => row.id !== op.rowId), op.values as T];
+    return result.map((row) => (row.id === op.rowId ? { ...row, ...op.values } : row));
+  }, rows);
+
+/**
+ * Loads the user's rows from the server and mirrors them into the local
+ * cache. Falls back to the cache when offline or the request cannot reach
+ * the server; other errors are rethrown.
+ */
+export const loadRows = async <T extends { id: string }>(
+  table: CachedTable,
+  userId: string,
+  fetchRows: () => PromiseLike<{ data: T[] | null; error: unknown }>,
+  compare?: (a: T, b: T) => number
+): Promise<{ rows: T[]; fromCache: boolean }> => {
+  const sort = (rows: T[]) => (compare ? [...rows].sort(compare) : rows);
+
+  if (isOnline()) {
+    const { data, error } = await fetchRows();
+    if (!error) {
+      try {
+        const pending = (await listPending()).filter((op) => op.table === table && op.userId === userId);
+        const rows = overlayPending(data ?? [], pending);
+        await replaceRows(table, userId, rows as unknown as CachedRow[]);
+        return { rows: sort(rows), fromCache: false };
+      } catch (cacheError) {
+        // IndexedDB can be unavailable (e.g. private browsing); stay online-only
+        console.error('Error updating offline cache:', cacheError);
+        return { rows: sort(data ?? []), fromCache: false };
+      }
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  const cached = (await readRows(table, userId)) as unknown as T[];
+  return { rows: sort(cached), fromCache: true };
+};
+
+// Queued values were checked against the table's columns when the change was made.
+// Inserts need the exact table, the builder rejects a union of insert shapes.
+const insertRemote = (table: CachedTable, values: Record<string, unknown>) => {
+  switch (table) {
+    case 'trips':
+      return supabase.from('trips').insert(values as TablesInsert<'trips'>).select().single();
+    case 'diary_entries':
+      return supabase.from('diary_entries').insert(values as TablesInsert<'diary_entries'>).select().single();
+    case 'saved_destinations':
+      return supabase.from('saved_destinations').insert(values as TablesInsert<'saved_destinations'>).select().single();
+  }
+};
+
+const remoteTable = (table: CachedTable) => ({
+  insert: (values: Record<string, unknown>) => insertRemote(table, values),
+  update: (id: string, values: Record<string, unknown>) =>
+    supabase.from(table).update(values as TablesUpdate<CachedTable>).eq('id', id).select().maybeSingle(),
+  remove: (id: string) => supabase.from(table).delete().eq('id', id),
+  fetch: (id: string) => supabase.from(table).select('*').eq('id', id).maybeSingle(),
+});
+
+const applyRemote = async (op: SyncOperation): Promise<CachedRow | null> => {
+  const table = remoteTable(op.table);
+  if (op.action === "insert") {
+    const { data, error } = await table.insert(op.values);
+    if (error) throw error;
+    return data;
+  }
+  if (op.action === "update") {
+    const { data, error } = await table.update(op.rowId, op.values);
+    if (error) throw error;
+    if (!data) throw new UpdateRejectedError();
+    return data;
+  }
+  const { error } = await table.remove(op.rowId);
+  if (error) throw error;
+  return null;
+};
+
+// Puts the server's copy of a row back in the cache, or drops it when the server has none
+const restoreServerRow = async (table: CachedTable, rowId: string) => {
+  const { data, error } = await remoteTable(table).fetch(rowId);
+  if (error) throw error;
+  if (data) await putRows(table, [data]);
+  else await deleteRow(table, rowId);
+  return data;
+};
+
+const applyLocal = async (op: SyncOperation) => {
+  if (op.action === "delete") return deleteRow(op.table, op.rowId);
+  if (op.action === "insert") {
+    return putRows(op.table, [{ created_at: op.queuedAt, updated_at: null, ...op.values, id: op.rowId, user_id: op.userId }]);
+  }
+  const current = await readRow(op.table, op.rowId);
+  if (current) await putRows(op.table, [{ ...current, ...op.values }]);
+};
+
+/**
+ * Folds a new change into the one already queued for the same row, so each
+ * row has at most one pending operation and keeps the updated_at it was
+ * based on. Null means both cancel out and nothing is left to sync.
+ */
+export const mergeOperation = (existing: SyncOperation, op: SyncOperation): SyncOperation | null => {
+  if (op.action === "delete") {
+    // The row never reached the server, so there is nothing to delete there
+    if (existing.action === "insert") return null;
+    return { ...op, id: existing.id, baseUpdatedAt: existing.baseUpdatedAt };
+  }
+  // Nothing can change a row that is already going away
+  if (existing.action === "delete") return existing;
+  return { ...existing, values: { ...existing.values, ...op.values } };
+};
+
+const enqueue = async ({ id, ...op }: SyncOperation) => {
+  const existing = (await listPending()).find((item) => item.table === op.table && item.rowId === op.rowId);
+  // Let IndexedDB assign the queue key
+  if (!existing) return addRecord(QUEUE_STORE, op);
+
+  const merged = mergeOperation(existing, op);
+  if (!merged) return deleteRecord(QUEUE_STORE, existing.id!);
+  if (merged !== existing) return putRecord(QUEUE_STORE, merged);
+};
+
+/**
+ * Writes a change to the server when possible. Offline, or while older
+ * changes are still queued, the change is applied to the local cache and
+ * queued for replay instead. `row` is the saved server row, if any.
+ */
+export const mutateRow = async (table: CachedTable, userId: string, change: RowChange) => {
+  const rowId = change.id ?? crypto.randomUUID();
+  const op: SyncOperation = {
+    table,
+    action: change.action,
+    rowId,
+    userId,
+    values: change.action === "insert" ? { ...change.values, id: rowId, user_id: userId } : change.values ?? {},
+    baseUpdatedAt: change.baseUpdatedAt ?? null,
+    queuedAt: new Date().toISOString(),
+  };
+
+  const pending = await listPending().catch(() => [] as SyncOperation[]);
+  if (isOnline() && pending.length === 0) {
+    try {
+      const row = await applyRemote(op);
+      if (row) await putRows(table, [row]).catch(() => undefined);
+      else if (op.action === "delete") await deleteRow(table, rowId).catch(() => undefined);
+      return { id: rowId, queued: false, row };
+    } catch (error) {
+      if (error instanceof UpdateRejectedError) {
+        await restoreServerRow(table, rowId).catch((cacheError) => console.error('Error refreshing offline cache:', cacheError));
+      }
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await enqueue(op);
+  await applyLocal(op);
+  notify();
+  if (isOnline()) void flushQueue();
+  return { id: rowId, queued: true, row: null };
+};
+
+const detectConflict = async (op: SyncOperation): Promise<SyncConflict | null> => {
+  if (op.action === "insert" || op.baseUpdatedAt === null) return null;
+
+  const { data: serverRow, error } = await remoteTable(op.table).fetch(op.rowId);
+  if (error) throw error;
+
+  const detectedAt = new Date().toISOString();
+  if (!serverRow) {
+    return op.action === "update"
+      ? { kind: "deleted", operation: op, serverRow: null, reason: "Deleted on another device", detectedAt }
+      : null;
+  }
+  if (serverRow.updated_at !== op.baseUpdatedAt) {
+    return {
+      kind: "changed",
+      operation: op,
+      serverRow,
+      reason: "Changed on another device while you were offline",
+      detectedAt,
+    };
+  }
+  return null;
+};
+
+const replayQueue = async () => {
+  // Changes queued while replaying are picked up by the next pass
+  let pending = await listPending();
+  while (pending.length > 0) {
+    for (const op of pending) {
+      try {
+        const conflict = await detectConflict(op);
+        if (conflict) {
+          await addRecord(CONFLICT_STORE, conflict);
+        } else {
+          const row = await applyRemote(op);
+          if (row) await putRows(op.table, [row]);
+          if (op.files?.length) {
+            await mediaStorage.remove(op.files).catch((storageError) => console.error('Error removing files:', storageError));
+          }
+        }
+      } catch (error: any) {
+        // Keep this and later changes for the next reconnect
+        if (isNetworkError(error)) return;
+        console.error('Error replaying offline change:', error);
+        // The local copy still has the change; show what the server has instead
+        const serverRow = error instanceof UpdateRejectedError ? await restoreServerRow(op.table, op.rowId) : null;
+        await addRecord<SyncConflict>(CONFLICT_STORE, {
+          kind: "rejected",
+          operation: op,
+          serverRow,
+          reason: error?.message || "The server rejected this change",
+          detectedAt: new Date().toISOString(),
+        });
+      }
+      await deleteRecord(QUEUE_STORE, op.id!);
+    }
+    pending = await listPending();
+  }
+};
+
+/**
+ * Removes a deleted row's files once its queued delete has synced, or right
+ * away if it already has. Files of a delete the server rejected are kept,
+ * since the row is still there.
+ */
+export const removeFilesAfterSync = async (table: CachedTable, rowId: string, files: string[]) => {
+  if (files.length === 0) return;
+  const queued = (await listPending()).find((op) => op.table === table && op.rowId === rowId && op.action === "delete");
+  if (queued) return putRecord(QUEUE_STORE, { ...queued, files: [...(queued.files ?? []), ...files] });
+  const conflicts = await listConflicts();
+  if (conflicts.some(({ operation }) => operation.table === table && operation.rowId === rowId)) return;
+  await mediaStorage.remove(files);
+};
+
+let flushing: Promise<void> | null = null;
+
+// Replays queued changes in order; concurrent calls share one run
+export const flushQueue = () => {
+  if (!flushing) {
+    flushing = replayQueue()
+      .catch((error) => console.error('Error syncing offline changes:', error))
+      .finally(() => {
+        flushing = null;
+        notify();
+      });
+  }
+  return flushing;
+};
+
+/**
+ * "local" re-queues the offline change on top of the server version;
+ * "server" drops it and restores the server row in the cache. A rejected
+ * change would only be rejected again, so it is always dropped; the user
+ * can edit the row and save it again.
+ */
+export const resolveConflict = async (conflict: SyncConflict, keep: "local" | "server") => {
+  const { operation } = conflict;
+  const dropped = keep === "server" || conflict.kind === "rejected";
+
+  let serverRow = conflict.serverRow;
+  if (conflict.kind === "rejected") {
+    const { data, error } = await remoteTable(operation.table).fetch(operation.rowId);
+    if (error) throw error;
+    serverRow = data;
+  }
+  await deleteRecord(CONFLICT_STORE, conflict.id!);
+
+  if (dropped) {
+    if (serverRow) await putRows(operation.table, [serverRow]);
+    else await deleteRow(operation.table, operation.rowId);
+    notify();
+    return;
+  }
+
+  if (conflict.kind === "deleted") {
+    // Recreate a remotely deleted row from the locally edited copy
+    const local = await readRow(operation.table, operation.rowId);
+    if (local) {
+      const { created_at, updated_at, ...values } = local;
+      await enqueue({ ...operation, action: "insert", values, baseUpdatedAt: null });
+    }
+  } else {
+    await enqueue({ ...operation, baseUpdatedAt: serverRow?.updated_at ?? null });
+  }
+  notify();
+  if (isOnline()) await flushQueue();
+};
@@ -0,0 +1,174 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export const PACKING_CATEGORIES = [
+  "essentials",
+  "clothing",
+  "toiletries",
+  "health",
+  "electronics",
+  "gear",
+  "kids",
+  "other",
+] as const;
+
+export type PackingCategory = (typeof PACKING_CATEGORIES)[number];
+
+export type PackingItemSource = "template" | "ai" | "custom";
+
+// An item as it appears in a template, before it is added to a trip
+export interface PackingItemDraft {
+  label: string;
+  category: PackingCategory;
+  quantity: number;
+}
+
+export interface PackingItem extends PackingItemDraft {
+  id: string;
+  trip_id: string;
+  packed: boolean;
+  position: number;
+  source: PackingItemSource;
+  created_at: string;
+}
+
+export interface PackingTemplate {
+  id: string;
+  name: string;
+  items: PackingItemDraft[];
+  created_at: string;
+}
+
+export const toPackingCategory = (value: string): PackingCategory =>
+  (PACKING_CATEGORIES as readonly string[]).includes(value) ? (value as PackingCategory) : "other";
+
+// Template items are a jsonb column; anything without a label is dropped
+const toTemplateItems = (value: Json): PackingItemDraft[] =>
+  (Array.isArray(value) ? value : []).flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item) || typeof item.label !== "string") return [];
+    return [{
+      label: item.label,
+      category: toPackingCategory(String(item.category ?? "other")),
+      quantity: Number(item.quantity) || 1,
+    }];
+  });
+
+export const toPackingTemplate = (row: Tables<'packing_templates'>): PackingTemplate => ({
+  id: row.id,
+  name: row.name,
+  items: toTemplateItems(row.items),
+  created_at: row.created_at,
+});
+
+const itemKey = (label: string) => label.trim().toLowerCase();
+
+// Drafts whose label isn't on the list yet, without duplicates among themselves
+export const newPackingItems = <T extends Pick<PackingItemDraft, "label">>(existing: { label: string }[], drafts: T[]) => {
+  const seen = new Set(existing.map((item) => itemKey(item.label)));
+  return drafts.filter((draft) => {
+    const key = itemKey(draft.label);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Swaps an item with its neighbour; returns the two items whose positions changed
+export const moveItem = (items: PackingItem[], id: string, direction: -1 | 1) => {
+  const from = items.findIndex((item) => item.id === id);
+  const to = from + direction;
+  if (from < 0 || to < 0 || to >= items.length) return null;
+  const moved = { ...items[from], position: items[to].position };
+  const swapped = { ...items[to], position: items[from].position };
+  const next = [...items];
+  next[to] = moved;
+  next[from] = swapped;
+  return { items: next, changed: [moved, swapped] };
+};
+
+export const fetchPackingItems = async (tripId: string) => {
+  const { data, error } = await supabase
+    .from('packing_items')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as PackingItem[];
+};
+
+// Appends the drafts after the current last position
+export const addPackingItems = async (
+  tripId: string,
+  userId: string,
+  drafts: PackingItemDraft[],
+  source: PackingItemSource,
+  afterPosition: number
+) => {
+  if (drafts.length === 0) return [];
+  const { data, error } = await supabase
+    .from('packing_items')
+    .insert(
+      drafts.map((draft, index) => ({
+        ...draft,
+        trip_id: tripId,
+        user_id: userId,
+        source,
+        position: afterPosition + index + 1,
+      }))
+    )
+    .select('*');
+  if (error) throw error;
+  return ((data ?? []) as PackingItem[]).sort((a, b) => a.position - b.position);
+};
+
+export const updatePackingItem = async (
+  id: string,
+  changes: Partial<Pick<PackingItem, "label" | "category" | "quantity" | "packed" | "position">>
+) => {
+  const { error } = await supabase.from('packing_items').update(changes).eq('id', id);
+  if (error) throw error;
+};
+
+// One request for the whole move, so a swap can't half-apply
+export const reorderPackingItems = async (items: Pick<PackingItem, "id" | "position">[]) => {
+  if (items.length === 0) return;
+  const { error } = await supabase.rpc('reorder_packing_items', {
+    _ids: items.map((item) => item.id),
+    _positions: items.map((item) => item.position),
+  });
+  if (error) throw error;
+};
+
+export const removePackingItems = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('packing_items').delete().in('id', ids);
+  if (error) throw error;
+};
+
+export const fetchPackingTemplates = async () => {
+  const { data, error } = await supabase
+    .from('packing_templates')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map(toPackingTemplate);
+};
+
+export const savePackingTemplate = async (userId: string, name: string, items: PackingItemDraft[]) => {
+  const { data, error } = await supabase
+    .from('packing_templates')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      items: items.map(({ label, category, quantity }) => ({ label, category, quantity })),
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return toPackingTemplate(data);
+};
+
+export const deletePackingTemplate = async (id: string) => {
+  const { error } = await supabase.from('packing_templates').delete().eq('id', id);
+  if (error) throw error;
+};
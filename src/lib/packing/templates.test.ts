@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { calculateDays } from "@/lib/trips";
+import { type PackingContext, generatePackingList } from "@/lib/packing/templates";
+
+const context = (overrides: Partial<PackingContext> = {}): PackingContext => ({
+  destination: "Lisbon",
+  days: 3,
+  travelType: "couple",
+  interests: [],
+  ...overrides,
+});
+
+const quantityOf = (items: { label: string; quantity: number }[], label: string) =>
+  items.find((item) => item.label === label)?.quantity;
+
+describe("generatePackingList", () => {
+  it("packs one outfit per day, up to a week", () => {
+    expect(quantityOf(generatePackingList(context({ days: 3 })).items, "Underwear")).toBe(3);
+    expect(quantityOf(generatePackingList(context({ days: 12 })).items, "Underwear")).toBe(7);
+    expect(quantityOf(generatePackingList(context({ days: 3 })).items, "Trousers or shorts")).toBe(2);
+  });
+
+  it("treats a Friday to Sunday trip as a weekend", () => {
+    const { templates } = generatePackingList(context({ days: calculateDays("2026-05-01", "2026-05-03") }));
+    expect(templates).toContain("Weekend");
+    expect(templates).not.toContain("Long trip");
+  });
+
+  it("adds long-trip items from a week on", () => {
+    const { templates } = generatePackingList(context({ days: calculateDays("2026-05-01", "2026-05-07") }));
+    expect(templates).toContain("Long trip");
+    expect(templates).not.toContain("Weekend");
+  });
+
+  it("never lists the same item twice", () => {
+    const { items } = generatePackingList(context({ destination: "Bali", travelType: "family", interests: ["Beaches", "Adventure"] }));
+    const labels = items.map((item) => item.label.toLowerCase());
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+});
+
+describe("calculateDays", () => {
+  it("counts the first and last day", () => {
+    expect(calculateDays("2026-05-01", "2026-05-01")).toBe(1);
+    expect(calculateDays("2026-05-01", "2026-05-03")).toBe(3);
+    expect(calculateDays("", "2026-05-03")).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import type { PackingCategory, PackingItemDraft } from "@/lib/packing/items";
+
+// What a packing list is generated from
+export interface PackingContext {
+  destination: string;
+  days: number;
+  travelType: string;
+  interests: string[];
+}
+
+type ItemSpec = [label: string, category: PackingCategory, quantity?: number];
+
+interface PackingRule {
+  name: string;
+  applies: (context: PackingContext) => boolean;
+  items: (context: PackingContext) => ItemSpec[];
+}
+
+const COLD_PLACES = /iceland|norway|finland|sweden|lapland|alaska|greenland|antarctic|arctic|siberia|alps|ski|patagonia|himalaya|nepal|tibet|mongolia|yukon|svalbard/i;
+const HOT_PLACES = /bali|thailand|phuket|maldives|caribbean|hawaii|cancun|fiji|philippines|vietnam|singapore|malaysia|goa|sri lanka|dubai|egypt|morocco|mexico|costa rica|brazil|seychelles|mauritius/i;
+
+const hasInterest = (context: PackingContext, interest: string) => context.interests.includes(interest);
+
+// Pack for up to a week and plan on laundry after that
+const outfits = (context: PackingContext) => Math.min(Math.max(context.days, 1), 7);
+
+/**
+ * The built-in template library. Every rule whose condition matches adds its
+ * items; later rules never duplicate an earlier label.
+ */
+export const PACKING_RULES: PackingRule[] = [
+  {
+    name: "Essentials",
+    applies: () => true,
+    items: (context) => [
+      ["Passport or ID", "essentials"],
+      ["Wallet and cards", "essentials"],
+      ["Travel insurance details", "essentials"],
+      ["Booking confirmations", "essentials"],
+      ["Phone", "electronics"],
+      ["Phone charger", "electronics"],
+      ["Underwear", "clothing", outfits(context)],
+      ["Socks", "clothing", outfits(context)],
+      ["T-shirts or tops", "clothing", outfits(context)],
+      ["Trousers or shorts", "clothing", Math.ceil(outfits(context) / 2)],
+      ["Sleepwear", "clothing"],
+      ["Comfortable walking shoes", "clothing"],
+      ["Toothbrush and toothpaste", "toiletries"],
+      ["Deodorant", "toiletries"],
+      ["Shampoo and body wash", "toiletries"],
+      ["Prescription medication", "health"],
+      ["Painkillers", "health"],
+    ],
+  },
+  {
+    name: "Long trip",
+    applies: (context) => context.days >= 7,
+    items: () => [
+      ["Laundry bag", "gear"],
+      ["Travel detergent", "toiletries"],
+      ["Spare medication supply", "health"],
+      ["Nail clippers", "toiletries"],
+    ],
+  },
+  {
+    name: "Weekend",
+    applies: (context) => context.days <= 3,
+    items: () => [["Carry-on sized toiletry bag", "toiletries"]],
+  },
+  {
+    name: "Cold weather",
+    applies: (context) => COLD_PLACES.test(context.destination),
+    items: () => [
+      ["Warm jacket", "clothing"],
+      ["Thermal base layers", "clothing", 2],
+      ["Beanie", "clothing"],
+      ["Gloves", "clothing"],
+      ["Scarf", "clothing"],
+      ["Lip balm", "toiletries"],
+    ],
+  },
+  {
+    name: "Hot weather",
+    applies: (context) => HOT_PLACES.test(context.destination),
+    items: () => [
+      ["Sunscreen", "toiletries"],
+      ["Sunglasses", "essentials"],
+      ["Sun hat", "clothing"],
+      ["Insect repellent", "health"],
+      ["Reusable water bottle", "gear"],
+    ],
+  },
+  {
+    name: "Beach",
+    applies: (context) => hasInterest(context, "Beaches"),
+    items: () => [
+      ["Swimwear", "clothing", 2],
+      ["Beach towel", "gear"],
+      ["Flip-flops", "clothing"],
+      ["Sunscreen", "toiletries"],
+      ["After-sun lotion", "toiletries"],
+      ["Waterproof phone pouch", "electronics"],
+    ],
+  },
+  {
+    name: "Adventure",
+    applies: (context) => hasInterest(context, "Adventure") || hasInterest(context, "Nature"),
+    items: () => [
+      ["Hiking boots", "clothing"],
+      ["Daypack", "gear"],
+      ["Rain jacket", "clothing"],
+      ["First aid kit", "health"],
+      ["Headlamp", "gear"],
+      ["Reusable water bottle", "gear"],
+      ["Insect repellent", "health"],
+    ],
+  },
+  {
+    name: "Photography",
+    applies: (context) => hasInterest(context, "Photography"),
+    items: () => [
+      ["Camera", "electronics"],
+      ["Spare camera batteries", "electronics", 2],
+      ["Memory cards", "electronics", 2],
+      ["Lens cleaning cloth", "electronics"],
+      ["Power bank", "electronics"],
+    ],
+  },
+  {
+    name: "Culture",
+    applies: (context) => hasInterest(context, "Culture") || hasInterest(context, "History"),
+    items: () => [
+      ["Modest outfit for religious sites", "clothing"],
+      ["Light scarf or shawl", "clothing"],
+      ["Guidebook or offline maps", "essentials"],
+    ],
+  },
+  {
+    name: "Food",
+    applies: (context) => hasInterest(context, "Food"),
+    items: () => [
+      ["Antacids", "health"],
+      ["Hand sanitizer", "toiletries"],
+    ],
+  },
+  {
+    name: "Nightlife",
+    applies: (context) => hasInterest(context, "Nightlife"),
+    items: () => [
+      ["Going-out outfit", "clothing"],
+      ["Dress shoes", "clothing"],
+      ["Earplugs", "health"],
+    ],
+  },
+  {
+    name: "Wellness",
+    applies: (context) => hasInterest(context, "Wellness"),
+    items: () => [
+      ["Workout clothes", "clothing", 2],
+      ["Swimwear", "clothing"],
+      ["Sleep mask", "health"],
+    ],
+  },
+  {
+    name: "Shopping",
+    applies: (context) => hasInterest(context, "Shopping"),
+    items: () => [
+      ["Foldable tote bag", "gear"],
+      ["Spare luggage space or packable bag", "gear"],
+    ],
+  },
+  {
+    name: "Family",
+    applies: (context) => context.travelType === "family",
+    items: (context) => [
+      ["Kids' clothes", "kids", outfits(context)],
+      ["Snacks for the journey", "kids"],
+      ["Games or tablet for the journey", "kids"],
+      ["Children's medication", "kids"],
+      ["Wet wipes", "toiletries"],
+      ["Copies of children's documents", "essentials"],
+    ],
+  },
+  {
+    name: "Group",
+    applies: (context) => context.travelType === "group",
+    items: () => [
+      ["Shared first aid kit", "health"],
+      ["Portable speaker", "electronics"],
+      ["Card or board game", "gear"],
+    ],
+  },
+  {
+    name: "Couple",
+    applies: (context) => context.travelType === "couple",
+    items: () => [["Outfit for a nice dinner", "clothing"]],
+  },
+  {
+    name: "Solo",
+    applies: (context) => context.travelType === "solo",
+    items: () => [
+      ["Emergency contact card", "essentials"],
+      ["Padlock for hostel lockers", "gear"],
+      ["Power bank", "electronics"],
+    ],
+  },
+];
+
+export const generatePackingList = (context: PackingContext) => {
+  const rules = PACKING_RULES.filter((rule) => rule.applies(context));
+  const seen = new Set<string>();
+  const items: PackingItemDraft[] = [];
+  for (const rule of rules) {
+    for (const [label, category, quantity = 1] of rule.items(context)) {
+      const key = label.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push({ label, category, quantity });
+    }
+  }
+  // Names of the templates that contributed, e.g. for "Based on Essentials, Beach"
+  return { items, templates: rules.map((rule) => rule.name) };
+};
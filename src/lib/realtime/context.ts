@@ -0,0 +1,5 @@
+import { createContext } from "react";
+import { type RealtimeTransport, realtimeTransport } from "./transport";
+
+// Tests can provide createMemoryTransport() instead
+export const RealtimeContext = createContext<RealtimeTransport>(realtimeTransport);
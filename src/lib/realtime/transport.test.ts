@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { createSupabaseTransport, mergeRowChange } from "@/lib/realtime/transport";
+
+const { supabase } = vi.hoisted(() => {
+  const channel = (topic: string) => {
+    const handlers: ((payload: unknown) => void)[] = [];
+    const self = {
+      topic,
+      handlers,
+      on: vi.fn((_type: string, _filter: unknown, handler: (payload: unknown) => void) => {
+        handlers.push(handler);
+        return self;
+      }),
+      subscribe: vi.fn(() => self),
+    };
+    return self;
+  };
+  return { supabase: { channel: vi.fn(channel), removeChannel: vi.fn() } };
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase }));
+
+describe("createSupabaseTransport", () => {
+  it("shares one channel between subscribers to the same table", () => {
+    const transport = createSupabaseTransport();
+    const first = vi.fn();
+    const second = vi.fn();
+    const stopFirst = transport.subscribe("trips", first);
+    const stopSecond = transport.subscribe("trips", second);
+
+    expect(supabase.channel).toHaveBeenCalledTimes(1);
+    const [channel] = supabase.channel.mock.results.map((result) => result.value);
+    channel.handlers[0]({ eventType: "UPDATE", new: { id: "trip-1" }, old: {} });
+    expect(first).toHaveBeenCalledWith({ table: "trips", event: "UPDATE", row: { id: "trip-1" } });
+    expect(second).toHaveBeenCalledTimes(1);
+
+    stopFirst();
+    expect(supabase.removeChannel).not.toHaveBeenCalled();
+    stopSecond();
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channel);
+  });
+});
+
+describe("mergeRowChange", () => {
+  const rows = [{ id: "a", title: "A" }, { id: "b", title: "B" }];
+
+  it("adds, updates and removes rows", () => {
+    expect(mergeRowChange(rows, { table: "trips", event: "INSERT", row: { id: "c", title: "C" } })[0].id).toBe("c");
+    expect(mergeRowChange(rows, { table: "trips", event: "UPDATE", row: { id: "b", title: "B2" } })[1].title).toBe("B2");
+    expect(mergeRowChange(rows, { table: "trips", event: "DELETE", row: { id: "a" } })).toEqual([{ id: "b", title: "B" }]);
+  });
+});
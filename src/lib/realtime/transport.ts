@@ -0,0 +1,190 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { EntityTable } from "@/lib/data/backend";
+
+export type RealtimeTable = EntityTable | "trip_revisions";
+
+export type RowChangeEvent = "INSERT" | "UPDATE" | "DELETE";
+
+export interface RealtimeRow {
+  id: string;
+  [column: string]: unknown;
+}
+
+export interface RowChange {
+  table: RealtimeTable;
+  event: RowChangeEvent;
+  // The new row, or for deletes the old one (which may only carry its id)
+  row: RealtimeRow;
+}
+
+// Only changes where row[column] equals value are delivered
+export interface RowFilter {
+  column: string;
+  value: string;
+}
+
+export interface PresenceState {
+  userId: string;
+  name: string;
+  editing: boolean;
+}
+
+export interface PresenceMember extends PresenceState {
+  // One per open tab, so the same user can appear more than once
+  sessionId: string;
+}
+
+export interface PresenceHandle {
+  track(state: PresenceState): void;
+  leave(): void;
+}
+
+// Pushes row changes and presence from other clients. Swap in createMemoryTransport() to drive it from tests.
+export interface RealtimeTransport {
+  subscribe(table: RealtimeTable, onChange: (change: RowChange) => void, filter?: RowFilter): () => void;
+  // Call track() to appear to others; members are reported whether or not this client tracks
+  joinPresence(topic: string, onSync: (members: PresenceMember[]) => void): PresenceHandle;
+}
+
+export const mergeRowChange = <T extends { id: string }>(rows: T[], change: RowChange): T[] => {
+  const { event, row } = change;
+  if (event === "DELETE") return rows.filter((item) => item.id !== row.id);
+  const index = rows.findIndex((item) => item.id === row.id);
+  if (index === -1) return [row as unknown as T, ...rows];
+  return rows.map((item, position) => (position === index ? ({ ...item, ...row } as T) : item));
+};
+
+// Presence topics are private channels, so realtime checks trip membership before a client can join
+const joinSupabasePresence: RealtimeTransport["joinPresence"] = (topic, onSync) => {
+  const sessionId = crypto.randomUUID();
+  const channel = supabase.channel(topic, { config: { private: true, presence: { key: sessionId } } });
+  let current: PresenceState | null = null;
+  let subscribed = false;
+
+  channel.on('presence', { event: 'sync' }, () => {
+    const members = Object.entries(channel.presenceState<PresenceState>()).map(([key, [state]]) => ({
+      userId: state.userId,
+      name: state.name,
+      editing: state.editing,
+      sessionId: key,
+    }));
+    onSync(members);
+  });
+  channel.subscribe((status) => {
+    subscribed = status === 'SUBSCRIBED';
+    if (subscribed && current) channel.track(current);
+  });
+
+  return {
+    track(state) {
+      current = state;
+      if (subscribed) channel.track(state);
+    },
+    leave() {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+// Subscribers to the same table and filter share one channel, which closes with the last of them
+export const createSupabaseTransport = (): RealtimeTransport => {
+  const shared = new Map<string, { channel: RealtimeChannel; listeners: Set<(change: RowChange) => void> }>();
+
+  const openChannel = (topic: string, table: RealtimeTable, filter?: RowFilter) => {
+    const listeners = new Set<(change: RowChange) => void>();
+    const channel = supabase
+      .channel(topic)
+      .on<RealtimeRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: filter && `${filter.column}=eq.${filter.value}` },
+        (payload: RealtimePostgresChangesPayload<RealtimeRow>) => {
+          const change: RowChange = {
+            table,
+            event: payload.eventType,
+            // Deletes only carry the old row's primary key unless the table has REPLICA IDENTITY FULL
+            row: payload.eventType === "DELETE" ? (payload.old as RealtimeRow) : payload.new,
+          };
+          listeners.forEach((listener) => listener(change));
+        }
+      )
+      .subscribe();
+    return { channel, listeners };
+  };
+
+  return {
+    subscribe(table, onChange, filter) {
+      const topic = filter ? `changes:${table}:${filter.column}=${filter.value}` : `changes:${table}`;
+      if (!shared.has(topic)) shared.set(topic, openChannel(topic, table, filter));
+      const { channel, listeners } = shared.get(topic)!;
+      // Wrapped so the same callback can subscribe twice and unsubscribe once
+      const listener = (change: RowChange) => onChange(change);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size > 0) return;
+        shared.delete(topic);
+        supabase.removeChannel(channel);
+      };
+    },
+    joinPresence: joinSupabasePresence,
+  };
+};
+
+export interface MemoryTransport extends RealtimeTransport {
+  // Delivers a change as if another client had written it
+  emit(change: RowChange): void;
+}
+
+// In-process fake: every joinPresence() call acts as a separate client on the same topic
+export const createMemoryTransport = (): MemoryTransport => {
+  const listeners = new Set<{ table: RealtimeTable; filter?: RowFilter; onChange: (change: RowChange) => void }>();
+  const topics = new Map<string, Map<string, { state: PresenceState | null; onSync: (members: PresenceMember[]) => void }>>();
+
+  const syncTopic = (topic: string) => {
+    const sessions = topics.get(topic);
+    if (!sessions) return;
+    const members = [...sessions].flatMap(([sessionId, { state }]) => (state ? [{ ...state, sessionId }] : []));
+    sessions.forEach(({ onSync }) => onSync(members));
+  };
+
+  return {
+    subscribe(table, onChange, filter) {
+      const listener = { table, filter, onChange };
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    joinPresence(topic, onSync) {
+      const sessionId = crypto.randomUUID();
+      if (!topics.has(topic)) topics.set(topic, new Map());
+      topics.get(topic)!.set(sessionId, { state: null, onSync });
+      syncTopic(topic);
+
+      return {
+        track(state) {
+          const session = topics.get(topic)?.get(sessionId);
+          if (!session) return;
+          session.state = state;
+          syncTopic(topic);
+        },
+        leave() {
+          topics.get(topic)?.delete(sessionId);
+          syncTopic(topic);
+        },
+      };
+    },
+    emit(change) {
+      for (const { table, filter, onChange } of [...listeners]) {
+        if (table !== change.table) continue;
+        if (filter && String(change.row[filter.column]) !== filter.value) continue;
+        onChange(change);
+      }
+    },
+  };
+};
+
+// Follows VITE_DATA_BACKEND=memory, where there is no server to push changes
+export const realtimeTransport: RealtimeTransport =
+  import.meta.env.VITE_DATA_BACKEND === "memory" ? createMemoryTransport() : createSupabaseTransport();
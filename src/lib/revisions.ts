@@ -0,0 +1,90 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { type Itinerary, itineraryToMarkdown, readStoredItinerary } from "@/lib/itinerary";
+
+export type RevisionSource = "ai" | "manual";
+
+export interface TripRevision {
+  id: string;
+  trip_id: string;
+  notes: string;
+  itinerary: Itinerary | null;
+  // False when the stored plan couldn't be read; restoring it would wipe the trip's activities
+  readable: boolean;
+  source: RevisionSource;
+  created_at: string;
+}
+
+export const toRevision = (row: Tables<'trip_revisions'>): TripRevision => ({
+  ...row,
+  ...readStoredItinerary(row.itinerary),
+  source: row.source === 'ai' ? 'ai' : 'manual',
+});
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  ai: "AI generated",
+  manual: "Manual edit",
+};
+
+// Plain-text form of a revision used for diffing
+export const revisionText = (revision: Pick<TripRevision, "notes" | "itinerary">) =>
+  [revision.itinerary ? itineraryToMarkdown(revision.itinerary) : "", revision.notes || ""]
+    .filter(Boolean)
+    .join("\n\n---\n\n");
+
+export type DiffLineType = "same" | "removed" | "added" | "empty";
+
+export interface DiffRow {
+  left: { text: string; type: DiffLineType };
+  right: { text: string; type: DiffLineType };
+}
+
+/**
+ * Line-based side-by-side diff using the longest common subsequence.
+ * Removed and added runs between matches are paired up row by row.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flushChanges = () => {
+    const length = Math.max(removed.length, added.length);
+    for (let k = 0; k < length; k++) {
+      rows.push({
+        left: k < removed.length ? { text: removed[k], type: "removed" } : { text: "", type: "empty" },
+        right: k < added.length ? { text: added[k], type: "added" } : { text: "", type: "empty" },
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushChanges();
+      rows.push({ left: { text: a[i], type: "same" }, right: { text: b[j], type: "same" } });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flushChanges();
+
+  return rows;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { refinementError, replaceSection, replacedSectionKey, splitSections } from "@/lib/sections";
+
+const plan = [
+  "# 2-day trip to Kyoto",
+  "",
+  "## Day 1: Temples",
+  "- Kiyomizu-dera (2 hours)",
+  "",
+  "",
+  "## Day 2: Food",
+  "- Nishiki Market (3 hours)",
+  "",
+].join("\n");
+
+describe("splitSections", () => {
+  it("splits on day headings and keeps the intro as an overview", () => {
+    const sections = splitSections(plan);
+    expect(sections.map((section) => [section.key, section.heading, section.dayNumber])).toEqual([
+      ["overview", "Overview", null],
+      ["day-1", "Day 1: Temples", 1],
+      ["day-2", "Day 2: Food", 2],
+    ]);
+  });
+
+  it("falls back to the most frequent heading level", () => {
+    const sections = splitSections("## Where to stay\nHotels\n## Getting around\nTrains\n## Getting around\nBuses");
+    expect(sections.map((section) => section.key)).toEqual([
+      "heading-where-to-stay",
+      "heading-getting-around",
+      "heading-getting-around-2",
+    ]);
+  });
+
+  it("keeps keys stable when another section is removed", () => {
+    const before = splitSections("## Stay\nA\n## Eat\nB\n## Tips\nC");
+    const after = splitSections("## Eat\nB\n## Tips\nC");
+    expect(after.map((section) => section.key)).toEqual(before.slice(1).map((section) => section.key));
+  });
+});
+
+describe("replaceSection", () => {
+  it("replaces one section and leaves the separators untouched", () => {
+    const updated = replaceSection(plan, "day-1", "## Day 1: Gardens\n- Moss garden (1 hour)\n");
+    expect(updated).toBe(plan.replace("## Day 1: Temples\n- Kiyomizu-dera (2 hours)", "## Day 1: Gardens\n- Moss garden (1 hour)"));
+  });
+
+  it("returns the text unchanged when the section content is the same", () => {
+    const [, day1] = splitSections(plan);
+    expect(replaceSection(`\n\n${plan}`, "day-1", day1.content)).toBe(`\n\n${plan}`);
+  });
+});
+
+describe("replacedSectionKey", () => {
+  it("follows a section whose heading the refinement renamed", () => {
+    const text = "## Stay\nA\n## Eat\nB";
+    expect(replacedSectionKey(text, "heading-stay", "## Where to sleep\nC")).toBe("heading-where-to-sleep");
+    expect(replacedSectionKey(plan, "day-2", "## Day 2: Markets\n- Fish market (1 hour)")).toBe("day-2");
+  });
+});
+
+describe("refinementError", () => {
+  const [overview, day1] = splitSections(plan);
+
+  it("requires a heading for anything but the overview", () => {
+    expect(refinementError(day1, "- Just a bullet")).toBe("The refined section is missing its heading");
+    expect(refinementError(day1, "\n## Day 1: Gardens\n- Moss garden")).toBeNull();
+    expect(refinementError(overview, "A shorter intro")).toBeNull();
+  });
+
+  it("rejects empty refinements", () => {
+    expect(refinementError(overview, "  \n")).toBe("The refined section is empty");
+  });
+});
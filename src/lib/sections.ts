@@ -0,0 +1,139 @@
+import { isDayHeading } from "@/lib/itinerary";
+
+export interface PlanSection {
+  // Key derived from the heading, e.g. "day-3" or "heading-getting-around", so
+  // it survives edits to other sections
+  key: string;
+  heading: string;
+  content: string;
+  dayNumber: number | null;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*)$/;
+
+const headingText = (line: string) => line.replace(/^#{1,6}\s*/, "").replace(/\*\*/g, "").trim();
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const isHeading = (line: string) => isDayHeading(line) || MARKDOWN_HEADING.test(line);
+
+/**
+ * Splits an itinerary text into refinable sections. Day headings ("Day 3",
+ * "## Day 3: Kyoto") are used when present, otherwise the most frequent
+ * Markdown heading level. Text before the first boundary becomes "Overview".
+ */
+export const splitSections = (text: string): PlanSection[] => {
+  const lines = text.split("\n");
+  const hasDays = lines.some(isDayHeading);
+
+  let boundaryLevel = 0;
+  if (!hasDays) {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+      const match = line.match(MARKDOWN_HEADING);
+      if (match) counts.set(match[1].length, (counts.get(match[1].length) ?? 0) + 1);
+    }
+    const repeated = [...counts.entries()].filter(([, count]) => count > 1).map(([level]) => level);
+    boundaryLevel = repeated.length ? Math.min(...repeated) : Math.min(...counts.keys(), 7);
+  }
+
+  const isBoundary = (line: string) => {
+    if (hasDays) return isDayHeading(line);
+    const match = line.match(MARKDOWN_HEADING);
+    return !!match && match[1].length === boundaryLevel;
+  };
+
+  const sections: PlanSection[] = [];
+  const usedKeys = new Set<string>();
+  let current: string[] = [];
+  let heading = "Overview";
+
+  // Repeated headings get a numeric suffix: "heading-tips", "heading-tips-2"
+  const uniqueKey = (base: string) => {
+    let key = base;
+    for (let n = 2; usedKeys.has(key); n++) key = `${base}-${n}`;
+    usedKeys.add(key);
+    return key;
+  };
+
+  const flush = () => {
+    const content = current.join("\n");
+    if (!content.trim()) return;
+    const dayMatch = heading.match(/day\s+(\d+)/i);
+    const dayNumber = hasDays && dayMatch ? parseInt(dayMatch[1], 10) : null;
+    const base = sections.length === 0 && heading === "Overview" ? "overview" : `heading-${slug(heading) || "section"}`;
+    sections.push({
+      key: uniqueKey(dayNumber !== null ? `day-${dayNumber}` : base),
+      heading,
+      content,
+      dayNumber,
+    });
+  };
+
+  for (const line of lines) {
+    if (isBoundary(line)) {
+      flush();
+      current = [line];
+      heading = headingText(line);
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+};
+
+/**
+ * Swaps one section's content and leaves the rest of the text byte for byte,
+ * including the blank lines between sections and any leading whitespace.
+ */
+export const replaceSection = (text: string, key: string, content: string) => {
+  const sections = splitSections(text);
+  const original = sections.map((section) => section.content).join("\n");
+  // Only a whitespace-only prefix is left out of the sections
+  const prefix = text.slice(0, text.length - original.length);
+  const trailing = (value: string) => value.match(/\s*$/)![0];
+  return (
+    prefix +
+    sections
+      .map((section) => (section.key === key ? content.trimEnd() + trailing(section.content) : section.content))
+      .join("\n")
+  );
+};
+
+// The key of whatever replaceSection puts in the section's place. It changes when the new
+// content renames the heading, so state keyed by section can follow the section.
+export const replacedSectionKey = (text: string, key: string, content: string) => {
+  const index = splitSections(text).findIndex((section) => section.key === key);
+  if (index === -1) return key;
+  return splitSections(replaceSection(text, key, content))[index]?.key ?? key;
+};
+
+// Why a refined section can't replace the original, or null when it can. Anything
+// but the overview has to keep a heading, or it would merge into the section above.
+export const refinementError = (section: PlanSection, content: string) => {
+  if (!content.trim()) return "The refined section is empty";
+  if (section.key === "overview") return null;
+  const firstLine = content.trimStart().split("\n")[0];
+  return isHeading(firstLine) ? null : "The refined section is missing its heading";
+};
+
+export interface SectionVersion {
+  id: string;
+  content: string;
+  // The follow-up prompt that produced this version; empty for the original
+  instruction: string;
+  created_at: string;
+}
+
+export const createSectionVersion = (content: string, instruction = ""): SectionVersion => ({
+  id: crypto.randomUUID(),
+  content,
+  instruction,
+  created_at: new Date().toISOString(),
+});
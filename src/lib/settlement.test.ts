@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { ExpenseSplit } from "@/lib/expenses";
+import { computeBalances, serializeLedgerCsv, settleUp, splitAmounts, splitError } from "@/lib/settlement";
+
+const identity = (amount: number) => amount;
+
+const expense = (amount: number, payer: string, splits: ExpenseSplit[], split_mode: "equal" | "shares" | "exact" = "equal") => ({
+  amount,
+  currency: "EUR",
+  payer,
+  split_mode,
+  splits,
+});
+
+const equally = (...participants: string[]) => participants.map((participant) => ({ participant, value: 1 }));
+
+describe("splitAmounts", () => {
+  it("gives leftover cents to the largest remainders", () => {
+    const parts = splitAmounts(10, "equal", equally("Ann", "Ben", "Cal"));
+    expect([...parts.values()]).toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it("weights share splits", () => {
+    const parts = splitAmounts(90, "shares", [
+      { participant: "Ann", value: 2 },
+      { participant: "Ben", value: 1 },
+    ]);
+    expect(parts.get("Ann")).toBe(60);
+    expect(parts.get("Ben")).toBe(30);
+  });
+
+  it("takes exact splits as given", () => {
+    const parts = splitAmounts(50, "exact", [
+      { participant: "Ann", value: 20 },
+      { participant: "Ben", value: 30 },
+    ]);
+    expect(parts.get("Ben")).toBe(30);
+  });
+});
+
+describe("splitError", () => {
+  it("rejects exact splits that don't add up", () => {
+    expect(splitError(50, "exact", [{ participant: "Ann", value: 20 }])).toBe("The amounts add up to 20.00, not 50.00");
+  });
+
+  it("rejects duplicate participants", () => {
+    expect(splitError(10, "equal", equally("Ann", " ann"))).toBe("Each person can only be listed once");
+  });
+
+  it("accepts a valid split", () => {
+    expect(splitError(10, "equal", equally("Ann", "Ben"))).toBeNull();
+  });
+});
+
+describe("computeBalances", () => {
+  it("credits the payer and debits every share", () => {
+    const balances = computeBalances([expense(30, "Ann", equally("Ann", "Ben", "Cal"))], [], identity);
+    expect(balances).toEqual([
+      { participant: "Ann", paid: 30, share: 10, net: 20 },
+      { participant: "Ben", paid: 0, share: 10, net: -10 },
+      { participant: "Cal", paid: 0, share: 10, net: -10 },
+    ]);
+  });
+
+  it("applies recorded payments", () => {
+    const balances = computeBalances(
+      [expense(30, "Ann", equally("Ann", "Ben", "Cal"))],
+      [{ amount: 10, currency: "EUR", from_participant: "Ben", to_participant: "Ann" }],
+      identity
+    );
+    expect(balances.map((balance) => balance.net)).toEqual([10, 0, -10]);
+  });
+
+  it("skips rows without an exchange rate", () => {
+    const balances = computeBalances(
+      [expense(30, "Ann", equally("Ann", "Ben")), { ...expense(40, "Ben", equally("Ann", "Ben")), currency: "XYZ" }],
+      [],
+      (amount, currency) => (currency === "EUR" ? amount : null)
+    );
+    expect(balances.map((balance) => balance.net)).toEqual([15, -15]);
+  });
+});
+
+describe("settleUp", () => {
+  it("settles n people in at most n - 1 transfers", () => {
+    const transfers = settleUp([
+      { participant: "Ann", net: 50 },
+      { participant: "Ben", net: -20 },
+      { participant: "Cal", net: -30 },
+    ]);
+    expect(transfers).toEqual([
+      { from: "Cal", to: "Ann", amount: 30 },
+      { from: "Ben", to: "Ann", amount: 20 },
+    ]);
+  });
+
+  it("returns nothing when everyone is even", () => {
+    expect(settleUp([{ participant: "Ann", net: 0 }])).toEqual([]);
+  });
+});
+
+describe("serializeLedgerCsv", () => {
+  it("quotes cells and closes with a balance row", () => {
+    const csv = serializeLedgerCsv(
+      [{ ...expense(20, "Ann", equally("Ann", "Ben")), expense_date: "2026-05-01", description: "Dinner, drinks", category: "food" }],
+      [],
+      "EUR",
+      identity
+    );
+    const lines = csv.split("\n");
+    expect(lines[1]).toContain('"Dinner, drinks"');
+    expect(lines[2]).toBe(",balance,,,,,,,,10.00,-10.00");
+  });
+});
@@ -0,0 +1,270 @@
+import type { Expense, ExpenseSplit, SplitMode } from "@/lib/expenses";
+
+// Money one participant paid back to another
+export interface Payment {
+  id: string;
+  trip_id: string;
+  from_participant: string;
+  to_participant: string;
+  amount: number;
+  currency: string;
+  paid_on: string;
+  created_at: string;
+}
+
+export interface Balance {
+  participant: string;
+  // Expenses they paid for, and their share of all expenses
+  paid: number;
+  share: number;
+  // Positive when the group owes them, negative when they owe the group
+  net: number;
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Converts an amount into the currency balances are kept in, null when there is no rate
+export type ToLedgerCurrency = (amount: number, currency: string) => number | null;
+
+type LedgerExpense = Pick<Expense, "amount" | "currency" | "payer" | "split_mode" | "splits">;
+type LedgerPayment = Pick<Payment, "amount" | "currency" | "from_participant" | "to_participant">;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const roundCents = (amount: number) => toCents(amount) / 100;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * What each participant owes for one expense. Equal and share splits are
+ * rounded to the cent and the leftover cents go to the largest remainders,
+ * so the parts always add up to the amount. Exact splits are taken as given.
+ */
+export const splitAmounts = (amount: number, mode: SplitMode, splits: ExpenseSplit[]) => {
+  if (mode === "exact") return new Map(splits.map((split) => [split.participant, split.value]));
+
+  const weights = splits.map((split) => (mode === "equal" ? 1 : Math.max(split.value, 0)));
+  const totalWeight = sum(weights);
+  if (totalWeight <= 0) return new Map<string, number>();
+
+  const cents = toCents(amount);
+  const exact = weights.map((weight) => (cents * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = cents - sum(parts);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index] += 1;
+    leftover -= 1;
+  }
+  return new Map(splits.map((split, index) => [split.participant, parts[index] / 100]));
+};
+
+// Form state for a split: included participants mapped to a weight ("shares") or amount ("exact") input
+export type SplitInputs = Record<string, string>;
+
+export const splitsFromInputs = (mode: SplitMode, inputs: SplitInputs): ExpenseSplit[] =>
+  Object.entries(inputs).map(([participant, value]) => ({
+    participant,
+    value: mode === "equal" ? 1 : Number(value),
+  }));
+
+// Why a split can't be saved, or null when it is valid
+export const splitError = (amount: number, mode: SplitMode, splits: ExpenseSplit[]) => {
+  if (splits.length === 0) return "Choose who shares this expense";
+  const names = splits.map((split) => split.participant.trim().toLowerCase());
+  if (names.some((name) => !name)) return "Every participant needs a name";
+  if (new Set(names).size !== names.length) return "Each person can only be listed once";
+  if (mode === "shares" && splits.some((split) => !(split.value > 0))) return "Shares must be greater than zero";
+  if (mode === "exact") {
+    if (splits.some((split) => !(split.value >= 0))) return "Amounts cannot be negative";
+    const total = sum(splits.map((split) => toCents(split.value)));
+    if (total !== toCents(amount)) {
+      return `The amounts add up to ${(total / 100).toFixed(2)}, not ${amount.toFixed(2)}`;
+    }
+  }
+  return null;
+};
+
+// Everyone who paid, shares an expense or took part in a payment, alphabetically
+export const participantsOf = (expenses: LedgerExpense[], payments: LedgerPayment[] = []) =>
+  [
+    ...new Set([
+      ...expenses.flatMap((expense) => [expense.payer, ...expense.splits.map((split) => split.participant)]),
+      ...payments.flatMap((payment) => [payment.from_participant, payment.to_participant]),
+    ]),
+  ]
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+
+// Each participant's share of one expense in ledger currency; the payer alone when it isn't split
+const ledgerShares = (expense: LedgerExpense, toLedger: ToLedgerCurrency) => {
+  const converted = toLedger(Number(expense.amount), expense.currency);
+  if (converted === null) return null;
+  if (expense.splits.length === 0) return new Map([[expense.payer, converted]]);
+  const ratio = Number(expense.amount) > 0 ? converted / Number(expense.amount) : 0;
+  const shares = splitAmounts(Number(expense.amount), expense.split_mode, expense.splits);
+  return new Map([...shares].map(([participant, share]) => [participant, share * ratio]));
+};
+
+/**
+ * Per-person totals in ledger currency. Payments move money from the payer's
+ * debt to the recipient's credit. Rows without an exchange rate are skipped;
+ * callers already warn about those.
+ */
+export const computeBalances = (
+  expenses: LedgerExpense[],
+  payments: LedgerPayment[],
+  toLedger: ToLedgerCurrency
+): Balance[] => {
+  const balances = new Map(
+    participantsOf(expenses, payments).map((participant) => [participant, { participant, paid: 0, share: 0, net: 0 }])
+  );
+
+  for (const expense of expenses) {
+    const shares = ledgerShares(expense, toLedger);
+    if (!shares) continue;
+    const payer = balances.get(expense.payer)!;
+    const paid = sum([...shares.values()]);
+    payer.paid += paid;
+    payer.net += paid;
+    for (const [participant, share] of shares) {
+      const balance = balances.get(participant)!;
+      balance.share += share;
+      balance.net -= share;
+    }
+  }
+
+  for (const payment of payments) {
+    const amount = toLedger(Number(payment.amount), payment.currency);
+    if (amount === null) continue;
+    balances.get(payment.from_participant)!.net += amount;
+    balances.get(payment.to_participant)!.net -= amount;
+  }
+
+  return [...balances.values()].map((balance) => ({
+    ...balance,
+    paid: roundCents(balance.paid),
+    share: roundCents(balance.share),
+    net: roundCents(balance.net),
+  }));
+};
+
+/**
+ * Who pays whom so everyone ends up even. Repeatedly matches the biggest
+ * debtor with the biggest creditor, which settles n people in at most n - 1
+ * payments.
+ */
+export const settleUp = (balances: Pick<Balance, "participant" | "net">[]): Transfer[] => {
+  const debtors = balances
+    .filter((balance) => toCents(balance.net) < 0)
+    .map((balance) => ({ participant: balance.participant, cents: -toCents(balance.net) }));
+  const creditors = balances
+    .filter((balance) => toCents(balance.net) > 0)
+    .map((balance) => ({ participant: balance.participant, cents: toCents(balance.net) }));
+
+  const transfers: Transfer[] = [];
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(debtor.cents, creditor.cents);
+    transfers.push({ from: debtor.participant, to: creditor.participant, amount: cents / 100 });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+  return transfers;
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: (string | number)[]) => cells.map(csvCell).join(",");
+
+/**
+ * The full ledger as CSV: one row per expense and payment, with each
+ * participant's net effect in ledger currency, and a closing balance row.
+ */
+export const serializeLedgerCsv = (
+  expenses: (LedgerExpense & Pick<Expense, "expense_date" | "description" | "category">)[],
+  payments: (LedgerPayment & Pick<Payment, "paid_on">)[],
+  ledgerCurrency: string,
+  toLedger: ToLedgerCurrency
+) => {
+  const participants = participantsOf(expenses, payments);
+  const money = (value: number | null | undefined) => (value ? value.toFixed(2) : "");
+
+  const expenseRows = expenses.map((expense) => {
+    const shares = ledgerShares(expense, toLedger);
+    const paid = shares ? sum([...shares.values()]) : null;
+    const effect = (participant: string) =>
+      shares ? roundCents((participant === expense.payer ? paid! : 0) - (shares.get(participant) ?? 0)) : null;
+    return {
+      date: expense.expense_date,
+      cells: [
+        expense.expense_date,
+        "expense",
+        expense.description,
+        expense.category,
+        expense.payer,
+        expense.splits.map((split) => split.participant).join("; "),
+        Number(expense.amount).toFixed(2),
+        expense.currency,
+        money(paid),
+        ...participants.map((participant) => money(effect(participant))),
+      ],
+    };
+  });
+
+  const paymentRows = payments.map((payment) => {
+    const amount = toLedger(Number(payment.amount), payment.currency);
+    const effect = (participant: string) => {
+      if (amount === null) return null;
+      if (participant === payment.from_participant) return amount;
+      return participant === payment.to_participant ? -amount : 0;
+    };
+    return {
+      date: payment.paid_on,
+      cells: [
+        payment.paid_on,
+        "payment",
+        `${payment.from_participant} paid ${payment.to_participant}`,
+        "",
+        payment.from_participant,
+        payment.to_participant,
+        Number(payment.amount).toFixed(2),
+        payment.currency,
+        money(amount),
+        ...participants.map((participant) => money(effect(participant))),
+      ],
+    };
+  });
+
+  const balances = new Map(computeBalances(expenses, payments, toLedger).map((balance) => [balance.participant, balance]));
+
+  return [
+    csvRow([
+      "date",
+      "type",
+      "description",
+      "category",
+      "paid by",
+      "shared with / paid to",
+      "amount",
+      "currency",
+      `amount (${ledgerCurrency})`,
+      ...participants,
+    ]),
+    ...[...expenseRows, ...paymentRows].sort((a, b) => a.date.localeCompare(b.date)).map((row) => csvRow(row.cells)),
+    csvRow(["", "balance", "", "", "", "", "", "", "", ...participants.map((participant) => balances.get(participant)!.net.toFixed(2))]),
+  ].join("\n");
+};
@@ -0,0 +1,62 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Where uploaded files live. Paths are adapter-relative, e.g. "<user>/<entry>/<file>.jpg"
+export interface StorageAdapter {
+  upload(path: string, file: Blob, contentType: string): Promise<void>;
+  // URLs for several files in one request, in the same order; rejects if any is missing
+  getUrls(paths: string[]): Promise<string[]>;
+  remove(paths: string[]): Promise<void>;
+}
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const createSupabaseStorageAdapter = (bucket: string): StorageAdapter => ({
+  async upload(path, file, contentType) {
+    const { error } = await supabase.storage.from(bucket).upload(path, file, { contentType, upsert: false });
+    if (error) throw error;
+  },
+  async getUrls(paths) {
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+    return data.map((item) => {
+      if (item.error || !item.signedUrl) throw new Error(item.error || `File not found: ${item.path}`);
+      return item.signedUrl;
+    });
+  },
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) throw error;
+  },
+});
+
+// Keeps files in memory for local development; contents are lost on reload
+export const createMemoryStorageAdapter = (): StorageAdapter => {
+  const files = new Map<string, string>();
+  return {
+    async upload(path, file) {
+      if (files.has(path)) throw new Error(`File already exists: ${path}`);
+      files.set(path, URL.createObjectURL(file));
+    },
+    async getUrls(paths) {
+      return paths.map((path) => {
+        const url = files.get(path);
+        if (!url) throw new Error(`File not found: ${path}`);
+        return url;
+      });
+    },
+    async remove(paths) {
+      for (const path of paths) {
+        const url = files.get(path);
+        if (url) URL.revokeObjectURL(url);
+        files.delete(path);
+      }
+    },
+  };
+};
+
+// Set VITE_STORAGE_ADAPTER=memory to keep uploads in the browser
+export const mediaStorage: StorageAdapter =
+  import.meta.env.VITE_STORAGE_ADAPTER === "memory"
+    ? createMemoryStorageAdapter()
+    : createSupabaseStorageAdapter("diary-media");
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import { type TravelProfile, toAiProfile, toTravelProfileDraft, validateTravelProfile } from "@/lib/travelProfile";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const profile: TravelProfile = {
+  user_id: "me",
+  default_interests: ["Food", "Nature"],
+  budget_min: null,
+  budget_max: 2000,
+  home_currency: "EUR",
+  dietary_needs: "Vegetarian",
+  mobility_constraints: "",
+};
+
+describe("validateTravelProfile", () => {
+  it("normalises the form draft", () => {
+    const { data, errors } = validateTravelProfile({
+      ...toTravelProfileDraft(profile),
+      default_interests: ["Food", "Skydiving"],
+      budget_min: "",
+      home_currency: " gbp ",
+    });
+    expect(errors).toEqual({});
+    expect(data).toMatchObject({ default_interests: ["Food"], budget_min: null, budget_max: 2000, home_currency: "GBP" });
+  });
+
+  it("reports one message per field", () => {
+    const { data, errors } = validateTravelProfile({
+      ...toTravelProfileDraft(profile),
+      budget_min: "500",
+      budget_max: "100",
+      home_currency: "euro",
+    });
+    expect(data).toBeNull();
+    expect(errors).toEqual({
+      budget_max: "Maximum must be at least the minimum",
+      home_currency: "Use a 3-letter currency code",
+    });
+  });
+});
+
+describe("toAiProfile", () => {
+  it("sends the budget in the home currency", () => {
+    expect(toAiProfile(profile)).toEqual({
+      interests: ["Food", "Nature"],
+      budgetRange: { min: null, max: 2000, currency: "EUR" },
+      homeCurrency: "EUR",
+      dietaryNeeds: "Vegetarian",
+      mobilityConstraints: "",
+    });
+  });
+
+  it("leaves the budget out when none was saved", () => {
+    expect(toAiProfile({ ...profile, budget_max: null })?.budgetRange).toBeNull();
+    expect(toAiProfile(null)).toBeUndefined();
+  });
+});
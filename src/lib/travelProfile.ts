@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { INTEREST_OPTIONS } from "@/lib/trips";
+
+export interface TravelProfile {
+  user_id: string;
+  default_interests: string[];
+  budget_min: number | null;
+  budget_max: number | null;
+  home_currency: string | null;
+  dietary_needs: string;
+  mobility_constraints: string;
+  updated_at?: string | null;
+}
+
+// Form state for the profile page; numeric fields are kept as input strings
+export interface TravelProfileDraft {
+  default_interests: string[];
+  budget_min: string;
+  budget_max: string;
+  home_currency: string;
+  dietary_needs: string;
+  mobility_constraints: string;
+}
+
+export const toTravelProfileDraft = (profile: TravelProfile | null): TravelProfileDraft => ({
+  default_interests: profile?.default_interests ?? [],
+  budget_min: profile?.budget_min == null ? "" : String(profile.budget_min),
+  budget_max: profile?.budget_max == null ? "" : String(profile.budget_max),
+  home_currency: profile?.home_currency ?? "",
+  dietary_needs: profile?.dietary_needs ?? "",
+  mobility_constraints: profile?.mobility_constraints ?? "",
+});
+
+const optionalAmount = z.preprocess(
+  (value) => (value === "" || value === null || value === undefined ? null : Number(value)),
+  z.number({ invalid_type_error: "Must be a number" }).min(0, "Cannot be negative").nullable()
+);
+
+export const travelProfileSchema = z
+  .object({
+    default_interests: z.array(z.string()).transform((interests) =>
+      interests.filter((interest) => (INTEREST_OPTIONS as readonly string[]).includes(interest))
+    ),
+    budget_min: optionalAmount,
+    budget_max: optionalAmount,
+    home_currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .transform((code) => code || null)
+      .refine((code) => code === null || /^[A-Z]{3}$/.test(code), "Use a 3-letter currency code"),
+    dietary_needs: z.string().trim().max(500, "Keep it under 500 characters"),
+    mobility_constraints: z.string().trim().max(500, "Keep it under 500 characters"),
+  })
+  .refine((profile) => profile.budget_min === null || profile.budget_max === null || profile.budget_min <= profile.budget_max, {
+    message: "Maximum must be at least the minimum",
+    path: ["budget_max"],
+  });
+
+export type TravelProfileValues = z.infer<typeof travelProfileSchema>;
+export type TravelProfileErrors = Partial<Record<keyof TravelProfileValues, string>>;
+
+export const validateTravelProfile = (values: unknown) => {
+  const result = travelProfileSchema.safeParse(values);
+  if (result.success) return { data: result.data, errors: {} as TravelProfileErrors };
+
+  const errors: TravelProfileErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof TravelProfileValues;
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return { data: null, errors };
+};
+
+// Null until the user saves their profile for the first time
+export const fetchTravelProfile = async (userId: string) => {
+  const { data, error } = await supabase.from('travel_profiles').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as TravelProfile | null;
+};
+
+export const saveTravelProfile = async (userId: string, values: TravelProfileValues) => {
+  const { data, error } = await supabase
+    .from('travel_profiles')
+    .upsert({ user_id: userId, ...values })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as TravelProfile;
+};
+
+// The preferences sent along with every AI request
+export interface AiTravelProfile {
+  interests: string[];
+  budgetRange: { min: number | null; max: number | null; currency: string | null } | null;
+  homeCurrency: string | null;
+  dietaryNeeds: string;
+  mobilityConstraints: string;
+}
+
+export const toAiProfile = (profile: TravelProfile | null | undefined): AiTravelProfile | undefined => {
+  if (!profile) return undefined;
+  const hasBudget = profile.budget_min !== null || profile.budget_max !== null;
+  return {
+    interests: profile.default_interests,
+    budgetRange: hasBudget ? { min: profile.budget_min, max: profile.budget_max, currency: profile.home_currency } : null,
+    homeCurrency: profile.home_currency,
+    dietaryNeeds: profile.dietary_needs,
+    mobilityConstraints: profile.mobility_constraints,
+  };
+};
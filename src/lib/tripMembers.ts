@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const TRIP_ROLES = ["owner", "editor", "viewer"] as const;
+
+export type TripRole = (typeof TRIP_ROLES)[number];
+
+// Roles an invitation can grant; ownership is never handed out
+export type InviteRole = Exclude<TripRole, "owner">;
+
+export const ROLE_LABELS: Record<TripRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<TripRole, string> = {
+  owner: "Can edit the trip, manage members and delete it",
+  editor: "Can edit the trip, itinerary and expenses",
+  viewer: "Can view the trip but not change it",
+};
+
+export const canEditTrip = (role: TripRole | null | undefined) => role === "owner" || role === "editor";
+export const canManageMembers = (role: TripRole | null | undefined) => role === "owner";
+
+export interface TripMember {
+  user_id: string;
+  role: TripRole;
+  full_name: string | null;
+  email: string;
+  joined_at: string;
+}
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export interface TripInvitation {
+  id: string;
+  trip_id: string;
+  email: string | null;
+  role: InviteRole;
+  token: string;
+  status: InvitationStatus;
+  expires_at: string;
+  created_at: string;
+}
+
+// What someone holding an invitation sees before joining
+export interface InvitationPreview {
+  trip_id: string;
+  destination: string;
+  start_date: string;
+  end_date: string;
+  role: InviteRole;
+  status: InvitationStatus;
+  email: string | null;
+  expires_at: string;
+  invited_by_name: string;
+}
+
+export type PendingInvitation = Omit<InvitationPreview, "status" | "email"> & { token: string };
+
+export const memberName = (member: Pick<TripMember, "full_name" | "email">) => member.full_name || member.email;
+
+export const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export const isExpired = (invitation: Pick<TripInvitation, "expires_at">) =>
+  new Date(invitation.expires_at).getTime() <= Date.now();
+
+// Role of a user on a trip, or null when they are not a member
+export const fetchTripRole = async (tripId: string, userId: string): Promise<TripRole | null> => {
+  const { data, error } = await supabase
+    .from('trip_members')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.role as TripRole | undefined) ?? null;
+};
+
+export const fetchTripMembers = async (tripId: string) => {
+  const { data, error } = await supabase.rpc('list_trip_members', { _trip_id: tripId });
+  if (error) throw error;
+  return (data ?? []) as TripMember[];
+};
+
+export const updateMemberRole = async (tripId: string, userId: string, role: InviteRole) => {
+  const { error } = await supabase.from('trip_members').update({ role }).eq('trip_id', tripId).eq('user_id', userId);
+  if (error) throw error;
+};
+
+// Removes someone else (owners only) or lets a member leave
+export const removeMember = async (tripId: string, userId: string) => {
+  const { error } = await supabase.from('trip_members').delete().eq('trip_id', tripId).eq('user_id', userId);
+  if (error) throw error;
+};
+
+export const fetchTripInvitations = async (tripId: string) => {
+  const { data, error } = await supabase
+    .from('trip_invitations')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as TripInvitation[];
+};
+
+// Pass an email to invite a specific person, or null for a link anyone signed in can use
+export const createInvitation = async (tripId: string, invitedBy: string, role: InviteRole, email: string | null) => {
+  const { data, error } = await supabase
+    .from('trip_invitations')
+    .insert({ trip_id: tripId, invited_by: invitedBy, role, email: email?.trim().toLowerCase() || null })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as TripInvitation;
+};
+
+export const revokeInvitation = async (invitationId: string) => {
+  const { error } = await supabase.from('trip_invitations').update({ status: 'revoked' }).eq('id', invitationId);
+  if (error) throw error;
+};
+
+export const fetchInvitationPreview = async (token: string) => {
+  const { data, error } = await supabase.rpc('get_trip_invitation', { _token: token });
+  if (error) throw error;
+  return ((data ?? [])[0] as InvitationPreview | undefined) ?? null;
+};
+
+export const fetchMyInvitations = async () => {
+  const { data, error } = await supabase.rpc('my_trip_invitations');
+  if (error) throw error;
+  return (data ?? []) as PendingInvitation[];
+};
+
+// Resolves with the trip id
+export const respondToInvitation = async (token: string, accept: boolean) => {
+  const { data, error } = await supabase.rpc('respond_to_trip_invitation', { _token: token, _accept: accept });
+  if (error) throw error;
+  return data as string;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { applyDateTransition, applyDateTransitions, canTransition, nextStatuses, transitionError } from "@/lib/tripStatus";
+
+const trip = (status: string) => ({ status, start_date: "2026-06-01", end_date: "2026-06-10" });
+
+describe("canTransition", () => {
+  it("allows reopening a completed trip", () => {
+    expect(canTransition("completed", "planned")).toBe(true);
+    expect(canTransition("completed", "in-progress")).toBe(true);
+    expect(nextStatuses("completed")).toEqual(["completed", "planned", "in-progress"]);
+  });
+
+  it("rejects transitions that skip the lifecycle", () => {
+    expect(canTransition("draft", "completed")).toBe(false);
+    expect(transitionError("draft", "completed")).toBe("Cannot move a trip from Draft to Completed");
+  });
+
+  it("treats unknown stored values as planned", () => {
+    expect(canTransition("legacy", "booked")).toBe(true);
+  });
+});
+
+describe("applyDateTransition", () => {
+  it("starts planned trips on their start date", () => {
+    expect(applyDateTransition(trip("planned"), "2026-06-01")).toBe("in-progress");
+  });
+
+  it("completes active trips after the end date", () => {
+    expect(applyDateTransition(trip("in-progress"), "2026-06-11")).toBe("completed");
+    expect(applyDateTransition(trip("booked"), "2026-06-11")).toBe("completed");
+  });
+
+  it("leaves drafts and cancelled trips alone", () => {
+    expect(applyDateTransition(trip("draft"), "2026-06-11")).toBe("draft");
+    expect(applyDateTransition(trip("cancelled"), "2026-06-05")).toBe("cancelled");
+  });
+
+  it("reports only the trips whose status changed", () => {
+    const { changed } = applyDateTransitions(
+      [
+        { id: "a", ...trip("planned") },
+        { id: "b", ...trip("draft") },
+      ],
+      "2026-06-05"
+    );
+    expect(changed).toEqual([{ id: "a", ...trip("in-progress") }]);
+  });
+});
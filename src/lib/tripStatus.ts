@@ -0,0 +1,96 @@
+import { todayIsoDate } from "@/lib/dates";
+
+export const TRIP_STATUSES = ["draft", "planned", "booked", "in-progress", "completed", "cancelled"] as const;
+
+export type TripStatus = (typeof TRIP_STATUSES)[number];
+
+export const STATUS_LABELS: Record<TripStatus, string> = {
+  draft: "Draft",
+  planned: "Planned",
+  booked: "Booked",
+  "in-progress": "In progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+// Allowed manual transitions. Moving into in-progress/completed is also done
+// automatically from the trip dates, see applyDateTransition. Completed trips
+// can be reopened, e.g. when one was marked done by mistake or extended.
+const TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  draft: ["planned", "cancelled"],
+  planned: ["draft", "booked", "in-progress", "cancelled"],
+  booked: ["planned", "in-progress", "cancelled"],
+  "in-progress": ["completed", "cancelled"],
+  completed: ["planned", "in-progress"],
+  cancelled: ["draft", "planned"],
+};
+
+export const isTripStatus = (value: string): value is TripStatus =>
+  (TRIP_STATUSES as readonly string[]).includes(value);
+
+// Rows written before the lifecycle existed may hold unknown values
+export const toTripStatus = (value: string | null | undefined): TripStatus =>
+  value && isTripStatus(value) ? value : "planned";
+
+export const canTransition = (from: string, to: string) => {
+  if (from === to) return true;
+  if (!isTripStatus(to)) return false;
+  return TRANSITIONS[toTripStatus(from)].includes(to);
+};
+
+export const transitionError = (from: string, to: string) =>
+  canTransition(from, to)
+    ? null
+    : `Cannot move a trip from ${STATUS_LABELS[toTripStatus(from)]} to ${isTripStatus(to) ? STATUS_LABELS[to] : to}`;
+
+// Statuses a trip can be set to from its current one, current status first
+export const nextStatuses = (from: string): TripStatus[] => {
+  const current = toTripStatus(from);
+  return [current, ...TRANSITIONS[current]];
+};
+
+export const statusBadgeVariant = (status: string): "default" | "secondary" | "outline" | "destructive" => {
+  switch (toTripStatus(status)) {
+    case "completed":
+      return "default";
+    case "in-progress":
+    case "booked":
+      return "secondary";
+    case "cancelled":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+/**
+ * Returns the status a trip should have given today's date: planned and booked
+ * trips become in-progress once they start, and anything active becomes
+ * completed after the end date. Drafts and cancelled trips are left alone.
+ */
+export const applyDateTransition = (
+  trip: { status: string; start_date: string; end_date: string },
+  today = todayIsoDate()
+): TripStatus => {
+  const status = toTripStatus(trip.status);
+  if (status === "draft" || status === "cancelled" || status === "completed") return status;
+  if (trip.end_date && today > trip.end_date) return "completed";
+  if (trip.start_date && today >= trip.start_date && status !== "in-progress") return "in-progress";
+  return status;
+};
+
+// Splits trips into their date-derived state plus the ones whose status changed
+export const applyDateTransitions = <T extends { id: string; status: string; start_date: string; end_date: string }>(
+  trips: T[],
+  today = todayIsoDate()
+) => {
+  const changed: T[] = [];
+  const updated = trips.map((trip) => {
+    const status = applyDateTransition(trip, today);
+    if (status === trip.status) return trip;
+    const next = { ...trip, status };
+    changed.push(next);
+    return next;
+  });
+  return { trips: updated, changed };
+};
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { daysBetween, inclusiveDays } from "@/lib/dates";
+import { TRIP_STATUSES } from "@/lib/tripStatus";
+
+export interface Trip {
+  id: string;
+  destination: string;
+  start_date: string;
+  end_date: string;
+  budget: number;
+  currency: string;
+  travel_type: string;
+  status: string;
+  notes: string;
+  interests?: string[];
+  // Owner of the trip; other members are listed in member_ids
+  user_id?: string;
+  member_ids?: string[];
+  updated_at?: string | null;
+}
+
+// Form state for editing a trip; numeric fields are kept as input strings
+export type TripDraft = Omit<Trip, "budget"> & { budget: string };
+
+export const toTripDraft = (trip: Trip): TripDraft => ({
+  ...trip,
+  budget: String(trip.budget ?? ""),
+  currency: trip.currency || DEFAULT_CURRENCY,
+  notes: trip.notes || "",
+  interests: trip.interests ?? [],
+});
+
+export const TRAVEL_TYPES = ["solo", "couple", "family", "group"] as const;
+
+export const INTEREST_OPTIONS = [
+  "Adventure", "Culture", "Food", "Photography", "Nature",
+  "History", "Beaches", "Shopping", "Nightlife", "Wellness",
+] as const;
+
+export type Interest = (typeof INTEREST_OPTIONS)[number];
+
+export const tripFormSchema = z
+  .object({
+    destination: z.string().trim().min(1, "Destination is required"),
+    start_date: z.string().min(1, "Start date is required"),
+    end_date: z.string().min(1, "End date is required"),
+    budget: z.preprocess(
+      (value) => (value === "" || value === null || value === undefined ? undefined : Number(value)),
+      z
+        .number({ required_error: "Budget is required", invalid_type_error: "Budget must be a number" })
+        .min(0, "Budget cannot be negative")
+    ),
+    currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code"),
+    travel_type: z.string().min(1, "Travel type is required"),
+    status: z.enum(TRIP_STATUSES, { errorMap: () => ({ message: "Choose a valid status" }) }),
+    notes: z.string().default(""),
+    interests: z.array(z.string()).default([]),
+  })
+  .refine((trip) => !trip.start_date || !trip.end_date || trip.end_date >= trip.start_date, {
+    message: "End date must be after start date",
+    path: ["end_date"],
+  });
+
+export type TripFormValues = z.infer<typeof tripFormSchema>;
+export type TripFormErrors = Partial<Record<keyof TripFormValues, string>>;
+
+export const validateTrip = (values: unknown) => {
+  const result = tripFormSchema.safeParse(values);
+  if (result.success) return { data: result.data, errors: {} as TripFormErrors };
+
+  const errors: TripFormErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof TripFormValues;
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return { data: null, errors };
+};
+
+export type TripSummary = Pick<Trip, "id" | "destination" | "start_date" | "end_date">;
+
+// The trip whose date range covers `date`; the shortest one wins when trips overlap
+export const suggestTripForDate = <T extends TripSummary>(trips: T[], date: string): T | null =>
+  trips
+    .filter((trip) => trip.start_date <= date && date <= trip.end_date)
+    .sort((a, b) => daysBetween(a.start_date, a.end_date) - daysBetween(b.start_date, b.end_date))[0] ?? null;
+
+// Length of a trip in days, first and last included, as used for AI plans and packing;
+// 0 until both dates are set
+export const calculateDays = (startDate: string, endDate: string) =>
+  !startDate || !endDate ? 0 : inclusiveDays(startDate, endDate);
+
+// 1-based day of the trip a date falls on, or null outside the trip
+export const tripDayNumber = (trip: Pick<Trip, "start_date" | "end_date">, date: string) =>
+  date < trip.start_date || date > trip.end_date ? null : daysBetween(trip.start_date, date) + 1;
+
+// Router state accepted by /plan-trip to start the form with some fields filled in
+export interface PlanTripPrefill {
+  destination?: string;
+  interests?: string[];
+  // Saved destination the trip is being planned from; it gets linked once the trip is saved
+  sourceDestinationId?: string;
+}
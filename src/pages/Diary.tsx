@@ -1,105 +1,264 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, BookOpen, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft, BookOpen, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { suggestTripForDate } from "@/lib/trips";
+import type { DiaryEntry } from "@/lib/diary";
+import {
+  useCreateDiaryEntry,
+  useDeleteDiaryEntry,
+  useDiaryEntries,
+  useQueryErrorToast,
+  useRepositories,
+  useTrips,
+  useUpdateDiaryEntry,
+} from "@/hooks/useEntities";
+import { useScrollToHash } from "@/hooks/useScrollToHash";
+import { useListParams } from "@/hooks/useListParams";
+import {
+  type SortOption,
+  compareText,
+  inDateRange,
+  matchesSearch,
+  pageOf,
+  paginate,
+  sortRows,
+} from "@/lib/listQuery";
+import ListToolbar from "@/components/lists/ListToolbar";
+import ListPagination from "@/components/lists/ListPagination";
+import RangeFilter from "@/components/lists/RangeFilter";
+import SelectFilter from "@/components/lists/SelectFilter";
+import { toggleChecklistItem } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import MarkdownEditor from "@/components/markdown/MarkdownEditor";
+import MarkdownRenderer from "@/components/markdown/MarkdownRenderer";
+import PhotoGallery from "@/components/diary/PhotoGallery";
+import PhotoPicker from "@/components/diary/PhotoPicker";
+import {
+  type DiaryPhoto,
+  diaryPhotoPaths,
+  removeDiaryPhotos,
+  resolveDiaryPhotos,
+  uploadDiaryPhotos,
+} from "@/lib/diaryMedia";
+import { removeFilesAfterSync } from "@/lib/offline/sync";
 
-interface DiaryEntry {
-  id: string;
-  title: string;
-  content: string;
-  entry_date: string;
-  location: string;
-  created_at: string;
-}
+const NO_TRIP = "none";
+
+const PAGE_SIZE = 10;
+
+const LIST_PARAMS = ["q", "trip", "from", "to", "sort"] as const;
+
+const SORT_OPTIONS: SortOption<DiaryEntry>[] = [
+  { value: "date-desc", label: "Newest first", compare: (a, b) => b.entry_date.localeCompare(a.entry_date) },
+  { value: "date-asc", label: "Oldest first", compare: (a, b) => a.entry_date.localeCompare(b.entry_date) },
+  { value: "title", label: "Title (A–Z)", compare: (a, b) => compareText(a.title, b.title) },
+];
 
 const Diary = () => {
   const navigate = useNavigate();
-  const [entries, setEntries] = useState<DiaryEntry[]>([]);
-  const [loading, setLoading] = useState(true);
+  const routeLocation = useLocation();
+  const repositories = useRepositories();
+  const { data: entries = [], isLoading: loading, error: entriesError } = useDiaryEntries();
+  const { data: trips = [], error: tripsError } = useTrips();
+  const createEntry = useCreateDiaryEntry();
+  const updateEntry = useUpdateDiaryEntry();
+  const removeEntry = useDeleteDiaryEntry();
   const [dialogOpen, setDialogOpen] = useState(false);
+  // Entry being edited in the dialog; null while creating
+  const [editingEntry, setEditingEntry] = useState<DiaryEntry | null>(null);
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [location, setLocation] = useState("");
   const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
+  const [tripId, setTripId] = useState(NO_TRIP);
+  // Once the user picks a trip by hand, stop overriding it from the date
+  const [tripPickedManually, setTripPickedManually] = useState(false);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [photosByEntry, setPhotosByEntry] = useState<Record<string, DiaryPhoto[]>>({});
+  const [saving, setSaving] = useState(false);
+  const { params, page, active, setParam, setPage, clear } = useListParams(LIST_PARAMS);
+
+  useQueryErrorToast(entriesError, "Failed to load diary entries");
+  useQueryErrorToast(tripsError, "Failed to load trips");
+  // Links from the map point at #entry-<id>
+  const highlighted = useScrollToHash(!loading);
+
+  const filteredEntries = sortRows(
+    entries.filter(entry =>
+      (!params.trip || (entry.trip_id ?? NO_TRIP) === params.trip) &&
+      inDateRange(params.from, params.to, entry.entry_date) &&
+      matchesSearch(params.q, [entry.title, entry.content, entry.location])
+    ),
+    SORT_OPTIONS,
+    params.sort
+  );
+  // Without an explicit page, open the page holding the entry a link points at
+  const highlightedIndex = filteredEntries.findIndex(entry => `entry-${entry.id}` === highlighted);
+  const visible = paginate(
+    filteredEntries,
+    page ?? (highlightedIndex >= 0 ? pageOf(highlightedIndex, PAGE_SIZE) : 1),
+    PAGE_SIZE
+  );
+
+  const entryIds = visible.rows.map(entry => entry.id).join();
 
   useEffect(() => {
-    fetchEntries();
-  }, []);
+    // Photos are not cached offline; only the current page's are loaded
+    if (navigator.onLine) fetchPhotos(visible.rows.map(entry => entry.id));
+  }, [entryIds]);
 
-  const fetchEntries = async () => {
+  const fetchPhotos = async (entryIds: string[]) => {
+    if (entryIds.length === 0) {
+      setPhotosByEntry({});
+      return;
+    }
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        navigate('/auth');
-        return;
-      }
-
       const { data, error } = await supabase
-        .from('diary_entries')
+        .from('diary_media')
         .select('*')
-        .eq('user_id', user.id)
-        .order('entry_date', { ascending: false });
+        .in('entry_id', entryIds)
+        .order('position', { ascending: true });
 
       if (error) throw error;
-      setEntries(data || []);
+      const photos = await resolveDiaryPhotos(data || []);
+      const grouped: Record<string, DiaryPhoto[]> = {};
+      for (const photo of photos) {
+        (grouped[photo.entry_id] ??= []).push(photo);
+      }
+      setPhotosByEntry(grouped);
     } catch (error: any) {
-      console.error('Error fetching entries:', error);
-      toast.error("Failed to load diary entries");
-    } finally {
-      setLoading(false);
+      console.error('Error fetching photos:', error);
+      toast.error("Failed to load photos");
     }
   };
 
-  const createEntry = async () => {
+  const suggestedTrip = suggestTripForDate(trips, entryDate);
+
+  useEffect(() => {
+    if (!tripPickedManually) setTripId(suggestedTrip?.id ?? NO_TRIP);
+  }, [suggestedTrip?.id, tripPickedManually]);
+
+  const tripName = (id: string | null) => trips.find(trip => trip.id === id)?.destination;
+
+  const resetForm = () => {
+    setEditingEntry(null);
+    setTitle("");
+    setContent("");
+    setLocation("");
+    setEntryDate(new Date().toISOString().split('T')[0]);
+    setTripPickedManually(false);
+    setPhotoFiles([]);
+  };
+
+  // The command palette asks for the new-entry dialog through router state
+  useEffect(() => {
+    if (!(routeLocation.state as { newEntry?: boolean } | null)?.newEntry) return;
+    resetForm();
+    setDialogOpen(true);
+    navigate({ search: routeLocation.search, hash: routeLocation.hash }, { replace: true, state: null });
+  }, [routeLocation.state]);
+
+  const openEdit = (entry: DiaryEntry) => {
+    setEditingEntry(entry);
+    setTitle(entry.title);
+    setContent(entry.content);
+    setLocation(entry.location || "");
+    setEntryDate(entry.entry_date);
+    setTripId(entry.trip_id ?? NO_TRIP);
+    // Keep the entry's current trip instead of re-suggesting one from the date
+    setTripPickedManually(true);
+    setPhotoFiles([]);
+    setDialogOpen(true);
+  };
+
+  const saveEntry = async () => {
     if (!title || !content) {
       toast.error("Please fill in title and content");
       return;
     }
 
+    setSaving(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      const userId = await repositories.getUserId();
+      if (!userId) throw new Error("Not authenticated");
 
-      const { error } = await supabase.from('diary_entries').insert({
-        user_id: user.id,
+      const values = {
         title,
         content,
         location,
-        entry_date: entryDate
-      });
+        entry_date: entryDate,
+        trip_id: tripId === NO_TRIP ? null : tripId
+      };
 
-      if (error) throw error;
-      toast.success("Entry created!");
+      const { id: entryId, queued } = editingEntry
+        ? await updateEntry.mutateAsync({ row: editingEntry, values })
+        : await createEntry.mutateAsync(values);
+
+      // Either a photo problem or a success message, never both
+      let photoError: string | null = null;
+      if (queued && photoFiles.length > 0) {
+        photoError = "Saved offline, but photos can only be added while you're online";
+      } else if (photoFiles.length > 0) {
+        try {
+          await uploadDiaryPhotos(userId, entryId, photoFiles, photosByEntry[entryId]?.length ?? 0);
+          await fetchPhotos(visible.rows.map(entry => entry.id).filter(id => id !== entryId).concat(entryId));
+        } catch (uploadError: any) {
+          console.error('Error uploading photos:', uploadError);
+          photoError = "Entry saved, but some photos failed to upload";
+        }
+      }
+
+      if (photoError) toast.error(photoError);
+      else if (queued) toast.success("Saved offline. It will sync when you're back online");
+      else toast.success(editingEntry ? "Entry updated!" : "Entry created!");
       setDialogOpen(false);
-      setTitle("");
-      setContent("");
-      setLocation("");
-      fetchEntries();
+      resetForm();
     } catch (error: any) {
-      console.error('Error creating entry:', error);
-      toast.error(error.message || "Failed to create entry");
+      console.error('Error saving entry:', error);
+      toast.error(error.message || "Failed to save entry");
+    } finally {
+      setSaving(false);
     }
   };
 
-  const deleteEntry = async (id: string) => {
+  const deleteEntry = async (entry: DiaryEntry) => {
     try {
-      const { error } = await supabase.from('diary_entries').delete().eq('id', id);
-      if (error) throw error;
-      toast.success("Entry deleted");
-      setEntries(entries.filter(entry => entry.id !== id));
+      // Looked up before the delete cascades to diary_media; unavailable offline
+      const { data: media } = await supabase
+        .from('diary_media')
+        .select('path, thumbnail_path')
+        .eq('entry_id', entry.id);
+
+      const { queued } = await removeEntry.mutateAsync(entry);
+      // A queued delete can still be rejected, so its photos are removed once it syncs
+      const photos = media || [];
+      await (queued ? removeFilesAfterSync('diary_entries', entry.id, diaryPhotoPaths(photos)) : removeDiaryPhotos(photos))
+        .catch(storageError => console.error('Error removing photos:', storageError));
+      toast.success(queued ? "Entry deleted. It will sync when you're back online" : "Entry deleted");
     } catch (error: any) {
       console.error('Error deleting entry:', error);
       toast.error("Failed to delete entry");
     }
   };
 
+  const toggleChecklist = async (entry: DiaryEntry, line: number) => {
+    try {
+      await updateEntry.mutateAsync({ row: entry, values: { content: toggleChecklistItem(entry.content, line) } });
+    } catch (error: any) {
+      console.error('Error updating checklist:', error);
+      toast.error("Failed to update checklist");
+    }
+  };
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', { 
       month: 'long', 
@@ -126,14 +285,14 @@ const Diary = () => {
           </Button>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button onClick={resetForm}>
                 <Plus className="h-4 w-4 mr-2" />
                 New Entry
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Create Diary Entry</DialogTitle>
+                <DialogTitle>{editingEntry ? "Edit Diary Entry" : "Create Diary Entry"}</DialogTitle>
                 <DialogDescription>Document your travel memories</DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
@@ -164,17 +323,52 @@ const Diary = () => {
                     onChange={(e) => setEntryDate(e.target.value)}
                   />
                 </div>
+                <div>
+                  <Label htmlFor="trip">Trip (optional)</Label>
+                  <Select
+                    value={tripId}
+                    onValueChange={(value) => {
+                      setTripId(value);
+                      setTripPickedManually(true);
+                    }}
+                  >
+                    <SelectTrigger id="trip">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TRIP}>Not part of a trip</SelectItem>
+                      {trips.map(trip => (
+                        <SelectItem key={trip.id} value={trip.id}>{trip.destination}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {suggestedTrip && tripId === suggestedTrip.id && !tripPickedManually && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Suggested because this date falls within your {suggestedTrip.destination} trip
+                    </p>
+                  )}
+                </div>
                 <div>
                   <Label htmlFor="content">Content</Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="content"
                     value={content}
-                    onChange={(e) => setContent(e.target.value)}
-                    placeholder="Write about your experience..."
+                    onChange={setContent}
+                    placeholder="Write about your experience... Markdown is supported."
                     className="min-h-[200px]"
                   />
                 </div>
-                <Button onClick={createEntry} className="w-full">Create Entry</Button>
+                <div>
+                  <Label>Photos (optional)</Label>
+                  <PhotoPicker
+                    files={photoFiles}
+                    onChange={setPhotoFiles}
+                    existingCount={editingEntry ? photosByEntry[editingEntry.id]?.length ?? 0 : 0}
+                  />
+                </div>
+                <Button onClick={saveEntry} disabled={saving} className="w-full">
+                  {saving ? "Saving..." : editingEntry ? "Save Changes" : "Create Entry"}
+                </Button>
               </div>
             </DialogContent>
           </Dialog>
@@ -191,40 +385,111 @@ const Diary = () => {
               <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
               <h3 className="text-xl font-semibold mb-2">No entries yet</h3>
               <p className="text-muted-foreground mb-4">Start documenting your travels!</p>
-              <Button onClick={() => setDialogOpen(true)}>
+              <Button onClick={() => { resetForm(); setDialogOpen(true); }}>
                 <Plus className="h-4 w-4 mr-2" />
                 Create Entry
               </Button>
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-6">
-            {entries.map((entry) => (
-              <Card key={entry.id}>
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle>{entry.title}</CardTitle>
-                      <CardDescription>
-                        {formatDate(entry.entry_date)}
-                        {entry.location && ` • ${entry.location}`}
-                      </CardDescription>
+          <>
+            <ListToolbar
+              search={params.q}
+              onSearchChange={(value) => setParam("q", value)}
+              searchPlaceholder="Search titles, stories and places..."
+              sort={params.sort}
+              sortOptions={SORT_OPTIONS}
+              onSortChange={(value) => setParam("sort", value === SORT_OPTIONS[0].value ? "" : value)}
+              active={active}
+              onClear={clear}
+              resultCount={filteredEntries.length}
+              totalCount={entries.length}
+              filters={
+                <>
+                  <SelectFilter
+                    id="filter-trip"
+                    label="Trip"
+                    value={params.trip}
+                    options={[
+                      ...trips.map(trip => ({ value: trip.id, label: trip.destination })),
+                      { value: NO_TRIP, label: "Not linked to a trip" },
+                    ]}
+                    onChange={(value) => setParam("trip", value)}
+                  />
+                  <RangeFilter
+                    id="filter-dates"
+                    label="Date"
+                    type="date"
+                    from={params.from}
+                    to={params.to}
+                    onFromChange={(value) => setParam("from", value)}
+                    onToChange={(value) => setParam("to", value)}
+                  />
+                </>
+              }
+            />
+
+            {filteredEntries.length === 0 && (
+              <p className="text-muted-foreground text-center py-12">No entries match your search and filters</p>
+            )}
+
+            <div className="space-y-6">
+              {visible.rows.map((entry) => (
+                <Card
+                  key={entry.id}
+                  id={`entry-${entry.id}`}
+                  className={cn(highlighted === `entry-${entry.id}` && "ring-2 ring-primary")}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle>{entry.title}</CardTitle>
+                        <CardDescription>
+                          {formatDate(entry.entry_date)}
+                          {entry.location && ` • ${entry.location}`}
+                        </CardDescription>
+                        {tripName(entry.trip_id) && (
+                          <Badge
+                            variant="secondary"
+                            className="mt-2 cursor-pointer"
+                            onClick={() => navigate(`/trips/${entry.trip_id}`)}
+                          >
+                            <MapPin className="h-3 w-3 mr-1" />
+                            {tripName(entry.trip_id)}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEdit(entry)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteEntry(entry)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteEntry(entry.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="whitespace-pre-wrap">{entry.content}</p>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <MarkdownRenderer
+                      source={entry.content}
+                      onToggleChecklist={(line) => toggleChecklist(entry, line)}
+                    />
+                    <PhotoGallery photos={photosByEntry[entry.id] ?? []} title={entry.title} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <ListPagination page={visible.page} pageSize={PAGE_SIZE} total={filteredEntries.length} onPageChange={setPage} />
+          </>
         )}
       </main>
     </div>
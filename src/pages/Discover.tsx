@@ -1,61 +1,134 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { ArrowLeft, Sparkles, Plus, Trash2 } from "lucide-react";
-
-interface Destination {
-  id: string;
-  destination_name: string;
-  location: string;
-  description: string;
-  category: string;
-  notes: string;
-  created_at: string;
-}
+import { ArrowLeft, Sparkles, Pencil, Plane, Plus, Trash2 } from "lucide-react";
+import MarkdownEditor from "@/components/markdown/MarkdownEditor";
+import MarkdownRenderer from "@/components/markdown/MarkdownRenderer";
+import { cn } from "@/lib/utils";
+import {
+  DESTINATION_STATUSES,
+  DESTINATION_STATUS_LABELS,
+  type Destination,
+  applyTripProgress,
+  interestsForCategory,
+  toDestinationStatus,
+  tripDestinationFor,
+} from "@/lib/destinations";
+import type { PlanTripPrefill } from "@/lib/trips";
+import { applyDateTransitions } from "@/lib/tripStatus";
+import {
+  useCreateDestination,
+  useDeleteDestination,
+  useDestinations,
+  useQueryErrorToast,
+  useTrips,
+  useUpdateDestination,
+} from "@/hooks/useEntities";
+import { useScrollToHash } from "@/hooks/useScrollToHash";
+import { useListParams } from "@/hooks/useListParams";
+import { type SortOption, compareText, matchesSearch, pageOf, paginate, sortRows } from "@/lib/listQuery";
+import ListToolbar from "@/components/lists/ListToolbar";
+import ListPagination from "@/components/lists/ListPagination";
+import SelectFilter from "@/components/lists/SelectFilter";
+import SuggestionsPanel from "@/components/discover/SuggestionsPanel";
+import type { DestinationSuggestion } from "@/lib/ai/suggestions";
+
+const PAGE_SIZE = 12;
+
+const LIST_PARAMS = ["q", "status", "category", "sort"] as const;
+
+const SORT_OPTIONS: SortOption<Destination>[] = [
+  { value: "newest", label: "Recently saved", compare: (a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? "") },
+  { value: "oldest", label: "Oldest saved", compare: (a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? "") },
+  { value: "name", label: "Name (A–Z)", compare: (a, b) => compareText(a.destination_name, b.destination_name) },
+  { value: "location", label: "Location (A–Z)", compare: (a, b) => compareText(a.location, b.location) },
+];
 
 const Discover = () => {
   const navigate = useNavigate();
-  const [destinations, setDestinations] = useState<Destination[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data, isLoading: loading, error } = useDestinations();
+  const { data: trips = [] } = useTrips();
+  const createDestination = useCreateDestination();
+  const updateDestination = useUpdateDestination();
+  const removeDestination = useDeleteDestination();
   const [dialogOpen, setDialogOpen] = useState(false);
+  // Destination being edited in the dialog; null while creating
+  const [editingDestination, setEditingDestination] = useState<Destination | null>(null);
   const [name, setName] = useState("");
   const [location, setLocation] = useState("");
   const [description, setDescription] = useState("");
   const [category, setCategory] = useState("");
+  const [notes, setNotes] = useState("");
+  const { params, page, active, setParam, setPage, clear } = useListParams(LIST_PARAMS);
 
-  useEffect(() => {
-    fetchDestinations();
-  }, []);
+  useQueryErrorToast(error, "Failed to load destinations");
 
-  const fetchDestinations = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        navigate('/auth');
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('saved_destinations')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setDestinations(data || []);
-    } catch (error: any) {
-      console.error('Error fetching destinations:', error);
-      toast.error("Failed to load destinations");
-    } finally {
-      setLoading(false);
+  // Trip statuses may not have caught up with the calendar yet if Trips hasn't been opened
+  const { destinations, changed } = applyTripProgress(data ?? [], applyDateTransitions(trips).trips);
+
+  // Persist destinations that moved on with their trip (planned -> visited, or back to the wishlist)
+  useEffect(() => {
+    for (const dest of changed) {
+      updateDestination
+        .mutateAsync({ row: dest, values: { status: dest.status } })
+        .catch(updateError => console.error('Error updating destination status:', updateError));
     }
+  }, [changed.map(dest => dest.id).join()]);
+
+  const planTrip = (dest: Destination) => {
+    const prefill: PlanTripPrefill = {
+      destination: tripDestinationFor(dest),
+      interests: interestsForCategory(dest.category),
+      sourceDestinationId: dest.id,
+    };
+    navigate('/plan-trip', { state: prefill });
+  };
+  // Links from the map point at #destination-<id>
+  const highlighted = useScrollToHash(!loading);
+
+  // Categories are free text, so filter options come from what has been saved
+  const categories = [...new Set(destinations.map(dest => dest.category?.trim()).filter(Boolean))].sort(compareText);
+  const filteredDestinations = sortRows(
+    destinations.filter(dest =>
+      (!params.status || toDestinationStatus(dest.status) === params.status) &&
+      (!params.category || dest.category?.trim() === params.category) &&
+      matchesSearch(params.q, [dest.destination_name, dest.location, dest.description, dest.category, dest.notes])
+    ),
+    SORT_OPTIONS,
+    params.sort
+  );
+  // Without an explicit page, open the page holding the destination a link points at
+  const highlightedIndex = filteredDestinations.findIndex(dest => `destination-${dest.id}` === highlighted);
+  const visible = paginate(
+    filteredDestinations,
+    page ?? (highlightedIndex >= 0 ? pageOf(highlightedIndex, PAGE_SIZE) : 1),
+    PAGE_SIZE
+  );
+
+  const resetForm = () => {
+    setEditingDestination(null);
+    setName("");
+    setLocation("");
+    setDescription("");
+    setCategory("");
+    setNotes("");
+  };
+
+  const openEdit = (dest: Destination) => {
+    setEditingDestination(dest);
+    setName(dest.destination_name);
+    setLocation(dest.location);
+    setDescription(dest.description || "");
+    setCategory(dest.category || "");
+    setNotes(dest.notes || "");
+    setDialogOpen(true);
   };
 
   const saveDestination = async () => {
@@ -65,38 +138,48 @@ const Discover = () => {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { error } = await supabase.from('saved_destinations').insert({
-        user_id: user.id,
+      const values = {
         destination_name: name,
         location,
         description,
         category,
-        notes: ""
-      });
+        notes
+      };
+
+      const { queued } = editingDestination
+        ? await updateDestination.mutateAsync({ row: editingDestination, values })
+        : await createDestination.mutateAsync(values);
 
-      if (error) throw error;
-      toast.success("Destination saved!");
+      if (queued) toast.success("Saved offline. It will sync when you're back online");
+      else toast.success(editingDestination ? "Destination updated!" : "Destination saved!");
       setDialogOpen(false);
-      setName("");
-      setLocation("");
-      setDescription("");
-      setCategory("");
-      fetchDestinations();
+      resetForm();
     } catch (error: any) {
       console.error('Error saving destination:', error);
       toast.error(error.message || "Failed to save destination");
     }
   };
 
-  const deleteDestination = async (id: string) => {
+  const saveSuggestion = async (suggestion: DestinationSuggestion) => {
     try {
-      const { error } = await supabase.from('saved_destinations').delete().eq('id', id);
-      if (error) throw error;
-      toast.success("Destination removed");
-      setDestinations(destinations.filter(dest => dest.id !== id));
+      const { queued } = await createDestination.mutateAsync({
+        destination_name: suggestion.name,
+        location: suggestion.location,
+        description: suggestion.description,
+        category: suggestion.category,
+        notes: suggestion.reason
+      });
+      toast.success(queued ? "Saved offline. It will sync when you're back online" : `${suggestion.name} saved!`);
+    } catch (error: any) {
+      console.error('Error saving suggestion:', error);
+      toast.error(error.message || "Failed to save destination");
+    }
+  };
+
+  const deleteDestination = async (dest: Destination) => {
+    try {
+      const { queued } = await removeDestination.mutateAsync(dest);
+      toast.success(queued ? "Destination removed. It will sync when you're back online" : "Destination removed");
     } catch (error: any) {
       console.error('Error deleting destination:', error);
       toast.error("Failed to remove destination");
@@ -121,15 +204,17 @@ const Discover = () => {
           </Button>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button onClick={resetForm}>
                 <Plus className="h-4 w-4 mr-2" />
                 Save Destination
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Save a Destination</DialogTitle>
-                <DialogDescription>Add a place you want to visit</DialogDescription>
+                <DialogTitle>{editingDestination ? "Edit Destination" : "Save a Destination"}</DialogTitle>
+                <DialogDescription>
+                  {editingDestination ? "Update the details and your notes" : "Add a place you want to visit"}
+                </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
                 <div>
@@ -168,7 +253,19 @@ const Discover = () => {
                     placeholder="Why you want to visit..."
                   />
                 </div>
-                <Button onClick={saveDestination} className="w-full">Save Destination</Button>
+                <div>
+                  <Label htmlFor="notes">Notes (optional)</Label>
+                  <MarkdownEditor
+                    id="notes"
+                    value={notes}
+                    onChange={setNotes}
+                    placeholder="Opening hours, tips, things to bring..."
+                    className="min-h-[120px]"
+                  />
+                </div>
+                <Button onClick={saveDestination} className="w-full">
+                  {editingDestination ? "Save Changes" : "Save Destination"}
+                </Button>
               </div>
             </DialogContent>
           </Dialog>
@@ -179,48 +276,125 @@ const Discover = () => {
         <h1 className="text-4xl font-bold mb-2">Discover & Save</h1>
         <p className="text-muted-foreground mb-8">Your bucket list of places to explore</p>
 
+        <SuggestionsPanel destinations={destinations} trips={trips} onSave={saveSuggestion} />
+
         {destinations.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <Sparkles className="h-16 w-16 text-muted-foreground mb-4" />
               <h3 className="text-xl font-semibold mb-2">No saved destinations</h3>
               <p className="text-muted-foreground mb-4">Start building your travel bucket list!</p>
-              <Button onClick={() => setDialogOpen(true)}>
+              <Button onClick={() => { resetForm(); setDialogOpen(true); }}>
                 <Plus className="h-4 w-4 mr-2" />
                 Save a Destination
               </Button>
             </CardContent>
           </Card>
         ) : (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {destinations.map((dest) => (
-              <Card key={dest.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle className="text-xl">{dest.destination_name}</CardTitle>
-                      <CardDescription>{dest.location}</CardDescription>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteDestination(dest.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  {dest.category && (
-                    <p className="text-xs text-muted-foreground mb-2">{dest.category}</p>
-                  )}
-                  {dest.description && (
-                    <p className="text-sm">{dest.description}</p>
+          <>
+            <ListToolbar
+              search={params.q}
+              onSearchChange={(value) => setParam("q", value)}
+              searchPlaceholder="Search names, places, descriptions and notes..."
+              sort={params.sort}
+              sortOptions={SORT_OPTIONS}
+              onSortChange={(value) => setParam("sort", value === SORT_OPTIONS[0].value ? "" : value)}
+              active={active}
+              onClear={clear}
+              resultCount={filteredDestinations.length}
+              totalCount={destinations.length}
+              filters={
+                <>
+                  <SelectFilter
+                    id="filter-status"
+                    label="Status"
+                    value={params.status}
+                    options={DESTINATION_STATUSES.map(status => ({ value: status, label: DESTINATION_STATUS_LABELS[status] }))}
+                    onChange={(value) => setParam("status", value)}
+                  />
+                  {categories.length > 0 && (
+                    <SelectFilter
+                      id="filter-category"
+                      label="Category"
+                      value={params.category}
+                      options={categories.map(category => ({ value: category, label: category }))}
+                      onChange={(value) => setParam("category", value)}
+                    />
                   )}
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                </>
+              }
+            />
+
+            {filteredDestinations.length === 0 && (
+              <p className="text-muted-foreground text-center py-12">No destinations match your search and filters</p>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {visible.rows.map((dest) => (
+                <Card
+                  key={dest.id}
+                  id={`destination-${dest.id}`}
+                  className={cn("hover:shadow-lg transition-shadow", highlighted === `destination-${dest.id}` && "ring-2 ring-primary")}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-xl">{dest.destination_name}</CardTitle>
+                        <CardDescription>{dest.location}</CardDescription>
+                        {toDestinationStatus(dest.status) !== 'wishlist' && (
+                          <Badge
+                            variant={toDestinationStatus(dest.status) === 'visited' ? "default" : "secondary"}
+                            className={cn("mt-2", dest.trip_id && "cursor-pointer")}
+                            onClick={() => dest.trip_id && navigate(`/trips/${dest.trip_id}`)}
+                          >
+                            {DESTINATION_STATUS_LABELS[toDestinationStatus(dest.status)]}
+                            {dest.trip_id && " • View trip"}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEdit(dest)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteDestination(dest)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {dest.category && (
+                      <p className="text-xs text-muted-foreground mb-2">{dest.category}</p>
+                    )}
+                    {dest.description && (
+                      <p className="text-sm">{dest.description}</p>
+                    )}
+                    {dest.notes && (
+                      <div className="bg-accent/50 p-3 rounded-md mt-3">
+                        <MarkdownRenderer source={dest.notes} className="text-sm" />
+                      </div>
+                    )}
+                    {toDestinationStatus(dest.status) === 'wishlist' && (
+                      <Button variant="outline" size="sm" className="w-full mt-4" onClick={() => planTrip(dest)}>
+                        <Plane className="h-4 w-4 mr-2" />
+                        Plan a trip here
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <ListPagination page={visible.page} pageSize={PAGE_SIZE} total={filteredDestinations.length} onPageChange={setPage} />
+          </>
         )}
       </main>
     </div>
@@ -1,59 +1,25 @@
-import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Plane, LogOut, MapPin, Calendar, BookOpen, Sparkles } from "lucide-react";
-import type { User } from "@supabase/supabase-js";
+import { Plane, LogOut, MapPin, Calendar, BookOpen, Sparkles, Globe, Search, UserRound } from "lucide-react";
+import { OPEN_COMMAND_PALETTE_EVENT } from "@/components/command/CommandPalette";
+import { useAuth } from "@/hooks/useAuth";
 
 const Index = () => {
   const navigate = useNavigate();
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // Check authentication status
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-      if (!session) {
-        navigate("/auth");
-      }
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      setUser(session?.user ?? null);
-      if (!session) {
-        navigate("/auth");
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  const { user, signOut } = useAuth();
 
   const handleSignOut = async () => {
-    const { error } = await supabase.auth.signOut();
-    if (error) {
-      toast.error("Failed to sign out");
-    } else {
+    try {
+      await signOut();
       toast.success("Signed out successfully");
       navigate("/auth");
+    } catch (error) {
+      toast.error("Failed to sign out");
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-background">
-        <div className="text-center">
-          <Plane className="h-12 w-12 animate-pulse mx-auto mb-4 text-primary" />
-          <p className="text-muted-foreground">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/20">
       <header className="border-b bg-background/50 backdrop-blur-sm">
@@ -63,9 +29,23 @@ const Index = () => {
             <h1 className="text-2xl font-bold">TripSense AI</h1>
           </div>
           <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.dispatchEvent(new Event(OPEN_COMMAND_PALETTE_EVENT))}
+              className="text-muted-foreground"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search
+              <kbd className="ml-3 rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+            </Button>
             <span className="text-sm text-muted-foreground">
               Welcome, {user?.user_metadata?.full_name || user?.email}
             </span>
+            <Button onClick={() => navigate('/profile')} variant="outline" size="sm">
+              <UserRound className="h-4 w-4 mr-2" />
+              Profile
+            </Button>
             <Button onClick={handleSignOut} variant="outline" size="sm">
               <LogOut className="h-4 w-4 mr-2" />
               Sign Out
@@ -85,7 +65,7 @@ const Index = () => {
           </p>
         </section>
 
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-12">
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 mb-12">
           <Card 
             className="hover:shadow-lg transition-shadow cursor-pointer"
             onClick={() => navigate('/plan-trip')}
@@ -137,6 +117,19 @@ const Index = () => {
               </CardDescription>
             </CardHeader>
           </Card>
+
+          <Card 
+            className="hover:shadow-lg transition-shadow cursor-pointer"
+            onClick={() => navigate('/map')}
+          >
+            <CardHeader>
+              <Globe className="h-10 w-10 text-primary mb-2" />
+              <CardTitle>Travel Map</CardTitle>
+              <CardDescription>
+                See your trips, saved places and memories on a map
+              </CardDescription>
+            </CardHeader>
+          </Card>
         </div>
 
         <Card className="bg-gradient-to-r from-primary/10 to-secondary/10">
@@ -154,7 +147,7 @@ const Index = () => {
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-primary">✓</span>
-                <span><strong>Database Tables:</strong> Profiles, trips, diary entries, interests, and saved destinations</span>
+                <span><strong>Database Tables:</strong> Profiles, travel preferences, trips with their interests, diary entries, and saved destinations</span>
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-primary">✓</span>
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { ArrowLeft, Calendar, Check, Loader2, Users, X } from "lucide-react";
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  type InvitationPreview,
+  fetchInvitationPreview,
+  isExpired,
+  respondToInvitation,
+} from "@/lib/tripMembers";
+import { queryKeys } from "@/hooks/useEntities";
+import { useAuth } from "@/hooks/useAuth";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Why an invitation can no longer be accepted, if it can't
+const unavailableReason = (invitation: InvitationPreview, email: string | undefined) => {
+  if (invitation.status === 'revoked') return "This invitation was revoked by the trip owner.";
+  if (invitation.status !== 'pending') return "This invitation has already been answered.";
+  if (isExpired(invitation)) return "This invitation has expired. Ask the trip owner for a new one.";
+  if (invitation.email && invitation.email.toLowerCase() !== email?.toLowerCase()) {
+    return `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`;
+  }
+  return null;
+};
+
+const Invite = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    fetchInvitation();
+  }, [token]);
+
+  const fetchInvitation = async () => {
+    if (!token) return;
+    try {
+      setInvitation(await fetchInvitationPreview(token));
+    } catch (error: any) {
+      console.error('Error fetching invitation:', error);
+      toast.error("Failed to load invitation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const respond = async (accept: boolean) => {
+    if (!token || !invitation) return;
+    setResponding(true);
+    try {
+      const tripId = await respondToInvitation(token, accept);
+      if (accept) {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.trips });
+        toast.success(`You joined the trip to ${invitation.destination}`);
+        navigate(`/trips/${tripId}`);
+      } else {
+        toast.success("Invitation declined");
+        navigate('/trips');
+      }
+    } catch (error: any) {
+      console.error('Error responding to invitation:', error);
+      toast.error(error.message || "Failed to respond to invitation");
+      setResponding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading invitation...</p>
+      </div>
+    );
+  }
+
+  const reason = invitation && unavailableReason(invitation, user?.email);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/20">
+      <header className="border-b bg-background/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button onClick={() => navigate('/trips')} variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Trips
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-xl">
+        {!invitation ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Users className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-xl font-semibold mb-2">Invitation not found</h3>
+              <p className="text-muted-foreground">Check the link or ask the trip owner to send a new one.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardDescription>{invitation.invited_by_name} invited you to join</CardDescription>
+              <CardTitle className="text-3xl">{invitation.destination}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2 text-sm">
+                <Calendar className="h-4 w-4 text-primary" />
+                <span>{formatDate(invitation.start_date)} - {formatDate(invitation.end_date)}</span>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">{ROLE_LABELS[invitation.role]}</Badge>
+                <span className="text-muted-foreground">{ROLE_DESCRIPTIONS[invitation.role]}</span>
+              </div>
+              {reason ? (
+                <p className="text-sm text-destructive">{reason}</p>
+              ) : (
+                <div className="flex gap-2">
+                  <Button onClick={() => respond(true)} disabled={responding}>
+                    {responding ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4 mr-2" />
+                    )}
+                    Join Trip
+                  </Button>
+                  <Button variant="outline" onClick={() => respond(false)} disabled={responding}>
+                    <X className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Loader2, MapPinOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import TileMap, { type MapMarker } from "@/components/map/TileMap";
+import { useGeocodedPlaces } from "@/hooks/useGeocode";
+import { useDestinations, useDiaryEntries, useQueryErrorToast, useTrips } from "@/hooks/useEntities";
+
+type LayerId = "trips" | "destinations" | "diary";
+
+const LAYERS: { id: LayerId; label: string; colorClassName: string }[] = [
+  { id: "trips", label: "Trips", colorClassName: "bg-primary" },
+  { id: "destinations", label: "Saved destinations", colorClassName: "bg-amber-500" },
+  { id: "diary", label: "Diary entries", colorClassName: "bg-emerald-500" },
+];
+
+interface Place {
+  layer: LayerId;
+  id: string;
+  name: string;
+  location: string;
+  // Where clicking the pin takes you
+  path: string;
+}
+
+const MapView = () => {
+  const navigate = useNavigate();
+  const { data: trips = [], isLoading: tripsLoading, error: tripsError } = useTrips();
+  const { data: destinations = [], isLoading: destinationsLoading, error: destinationsError } = useDestinations();
+  const { data: entries = [], isLoading: entriesLoading, error: entriesError } = useDiaryEntries();
+  const [visible, setVisible] = useState<Record<LayerId, boolean>>({ trips: true, destinations: true, diary: true });
+
+  useQueryErrorToast(tripsError, "Failed to load trips");
+  useQueryErrorToast(destinationsError, "Failed to load destinations");
+  useQueryErrorToast(entriesError, "Failed to load diary entries");
+
+  const places: Place[] = [
+    ...trips.map((trip) => ({
+      layer: "trips" as const,
+      id: trip.id,
+      name: trip.destination,
+      location: trip.destination,
+      path: `/trips/${trip.id}`,
+    })),
+    ...destinations.map((dest) => ({
+      layer: "destinations" as const,
+      id: dest.id,
+      name: dest.destination_name,
+      location: dest.location,
+      path: `/discover#destination-${dest.id}`,
+    })),
+    ...entries.map((entry) => ({
+      layer: "diary" as const,
+      id: entry.id,
+      name: entry.title,
+      location: entry.location || "",
+      path: `/diary#entry-${entry.id}`,
+    })),
+  ].filter((place) => place.location.trim());
+
+  const { lookup, pending, total } = useGeocodedPlaces(places.map((place) => place.location));
+  const layerOf = (id: LayerId) => LAYERS.find((layer) => layer.id === id)!;
+
+  const markers: (MapMarker & { path: string })[] = [];
+  const unlocated: Place[] = [];
+  for (const place of places) {
+    const point = lookup(place.location);
+    if (point === null) unlocated.push(place);
+    if (!point || !visible[place.layer]) continue;
+    markers.push({
+      id: `${place.layer}:${place.id}`,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      label: `${place.name} — ${point.label}`,
+      colorClassName: layerOf(place.layer).colorClassName,
+      path: place.path,
+    });
+  }
+
+  if (tripsLoading || destinationsLoading || entriesLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading map...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/20">
+      <header className="border-b bg-background/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button onClick={() => navigate('/')} variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl">
+        <h1 className="text-4xl font-bold mb-2">Travel Map</h1>
+        <p className="text-muted-foreground mb-6">Your trips, saved places and diary memories around the world</p>
+
+        <div className="flex flex-wrap items-center gap-6 mb-4">
+          {LAYERS.map((layer) => (
+            <div key={layer.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`layer-${layer.id}`}
+                checked={visible[layer.id]}
+                onCheckedChange={(checked) => setVisible((current) => ({ ...current, [layer.id]: checked === true }))}
+              />
+              <span className={cn("h-3 w-3 rounded-full", layer.colorClassName)} />
+              <Label htmlFor={`layer-${layer.id}`} className="cursor-pointer">
+                {layer.label} ({places.filter((place) => place.layer === layer.id).length})
+              </Label>
+            </div>
+          ))}
+          {pending > 0 && (
+            <span className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Locating places {total - pending}/{total}...
+            </span>
+          )}
+        </div>
+
+        <TileMap
+          markers={markers}
+          fitKey={pending > 0 ? null : LAYERS.filter((layer) => visible[layer.id]).map((layer) => layer.id).join("|")}
+          onMarkerClick={(marker) => navigate(markers.find((item) => item.id === marker.id)!.path)}
+          className="h-[60vh]"
+        />
+
+        {places.length === 0 && (
+          <p className="text-sm text-muted-foreground mt-4">
+            Add a trip, a saved destination or a diary entry with a location to see it on the map.
+          </p>
+        )}
+
+        {unlocated.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MapPinOff className="h-5 w-5" />
+                Couldn't locate {unlocated.length} place{unlocated.length === 1 ? "" : "s"}
+              </CardTitle>
+              <CardDescription>Try a more specific location, like "Kyoto, Japan"</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1 text-sm">
+                {unlocated.map((place) => (
+                  <li key={`${place.layer}:${place.id}`}>
+                    <button type="button" className="hover:underline text-left" onClick={() => navigate(place.path)}>
+                      <span className="font-medium">{place.name}</span>
+                      {place.name !== place.location && ` — ${place.location}`}
+                    </button>
+                    <span className="text-muted-foreground"> · {layerOf(place.layer).label}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MapView;
@@ -1,31 +1,84 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, Sparkles, Loader2 } from "lucide-react";
+import { ArrowLeft, Sparkles, Loader2, RefreshCw, Square, AlertTriangle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import ItineraryTimeline from "@/components/itinerary/ItineraryTimeline";
+import RefineSectionPanel from "@/components/itinerary/RefineSectionPanel";
+import MarkdownEditor from "@/components/markdown/MarkdownEditor";
+import { type Itinerary, compactItinerary, parseItinerary, replaceDay, toActivityRows } from "@/lib/itinerary";
+import { toJson } from "@/lib/json";
+import { type PlanSection, type SectionVersion, createSectionVersion, replaceSection, replacedSectionKey } from "@/lib/sections";
+import { type TripStatus, applyDateTransition } from "@/lib/tripStatus";
+import { CURRENCIES, DEFAULT_CURRENCY, convert } from "@/lib/currency";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { streamRecommendations } from "@/lib/ai/recommendations";
+import { type AiRequestError, toAiError } from "@/lib/ai/errors";
+import { useAuth } from "@/hooks/useAuth";
+import { INTEREST_OPTIONS, type PlanTripPrefill, calculateDays } from "@/lib/trips";
+import { useDestinations, useUpdateDestination } from "@/hooks/useEntities";
+import { useTravelProfile } from "@/hooks/useTravelProfile";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { toAiProfile } from "@/lib/travelProfile";
+
+const AI_ERROR_TITLES: Record<AiRequestError["kind"], string> = {
+  rate_limit: "Rate limited",
+  quota: "Out of AI credits",
+  network: "Network error",
+  bad_input: "Invalid request",
+  aborted: "Cancelled",
+  server: "AI service error",
+};
 
 const PlanTrip = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const prefill = (useLocation().state ?? {}) as PlanTripPrefill;
   const [loading, setLoading] = useState(false);
-  const [destination, setDestination] = useState("");
+  const [destination, setDestination] = useState(prefill.destination ?? "");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [budget, setBudget] = useState("");
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
   const [travelType, setTravelType] = useState("");
-  const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
+  const [selectedInterests, setSelectedInterests] = useState<string[]>(
+    (prefill.interests ?? []).filter(interest => (INTEREST_OPTIONS as readonly string[]).includes(interest))
+  );
+  const { data: destinations = [] } = useDestinations();
+  const updateDestination = useUpdateDestination();
+  const sourceDestination = destinations.find(dest => dest.id === prefill.sourceDestinationId);
   const [aiRecommendations, setAiRecommendations] = useState("");
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [aiError, setAiError] = useState<AiRequestError | null>(null);
+  const [sectionVersions, setSectionVersions] = useState<Record<string, SectionVersion[]>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const { data: profile } = useTravelProfile();
+  const { rates } = useExchangeRates();
+  const profileApplied = useRef(false);
+  const aiProfile = toAiProfile(profile);
 
-  const interestOptions = [
-    "Adventure", "Culture", "Food", "Photography", "Nature", 
-    "History", "Beaches", "Shopping", "Nightlife", "Wellness"
-  ];
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Fill in what the user hasn't set yet from their travel profile, once it loads
+  useEffect(() => {
+    if (!profile || profileApplied.current) return;
+    profileApplied.current = true;
+    const homeCurrency = profile.home_currency;
+    const tripCurrency = homeCurrency && currency === DEFAULT_CURRENCY ? homeCurrency : currency;
+    setCurrency(tripCurrency);
+    // The usual budget is in the home currency; skip it when there's no rate to convert it
+    const usualBudget = profile.budget_max ?? profile.budget_min;
+    const converted = usualBudget === null ? null : convert(usualBudget, homeCurrency || DEFAULT_CURRENCY, tripCurrency, rates);
+    if (converted !== null) setBudget(prev => prev || String(Math.round(converted)));
+    setSelectedInterests(prev => (prev.length > 0 ? prev : profile.default_interests));
+  }, [profile]);
 
   const toggleInterest = (interest: string) => {
     setSelectedInterests(prev => 
@@ -35,49 +88,86 @@ const PlanTrip = () => {
     );
   };
 
-  const calculateDays = () => {
-    if (!startDate || !endDate) return 0;
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    return Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-  };
-
   const handleGetRecommendations = async () => {
     if (!destination || !budget || !travelType || selectedInterests.length === 0) {
       toast.error("Please fill in all fields");
       return;
     }
 
-    const days = calculateDays();
+    const days = calculateDays(startDate, endDate);
     if (days <= 0) {
       toast.error("End date must be after start date");
       return;
     }
 
-    setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerating(true);
+    setAiError(null);
+    setItinerary(null);
+    setSectionVersions({});
     try {
-      const { data, error } = await supabase.functions.invoke('travel-recommendations', {
-        body: { 
-          destination, 
-          budget: parseFloat(budget), 
-          travelType, 
+      const text = await streamRecommendations(
+        {
+          destination,
+          budget: parseFloat(budget),
+          currency,
+          travelType,
           interests: selectedInterests,
-          days 
+          days,
+          profile: aiProfile
+        },
+        {
+          signal: controller.signal,
+          onText: setAiRecommendations,
+          onRetry: (attempt, error, delayMs) =>
+            toast.message(`${AI_ERROR_TITLES[error.kind]}, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})`)
         }
-      });
+      );
 
-      if (error) throw error;
-      setAiRecommendations(data.recommendations);
+      setItinerary(parseItinerary(text));
       toast.success("AI recommendations generated!");
-    } catch (error: any) {
-      console.error('Error getting recommendations:', error);
-      toast.error(error.message || "Failed to get recommendations");
+    } catch (raw) {
+      const error = toAiError(raw);
+      if (error.kind === "aborted") {
+        toast.message("Generation cancelled");
+      } else {
+        console.error('Error getting recommendations:', error);
+        setAiError(error);
+      }
     } finally {
-      setLoading(false);
+      abortRef.current = null;
+      setGenerating(false);
     }
   };
 
-  const handleSaveTrip = async () => {
+  const cancelRecommendations = () => {
+    abortRef.current?.abort();
+  };
+
+  // Returns the section's key after the change; its version history moves along with it
+  const replacePlanSection = (section: PlanSection, content: string) => {
+    const key = replacedSectionKey(aiRecommendations, section.key, content);
+    setAiRecommendations(prev => replaceSection(prev, section.key, content));
+    if (section.dayNumber !== null && itinerary) {
+      const regenerated = parseItinerary(content)?.days[0];
+      if (regenerated) setItinerary(replaceDay(itinerary, section.key, regenerated));
+    }
+    if (key !== section.key) {
+      setSectionVersions(({ [section.key]: history, ...rest }) => (history ? { ...rest, [key]: history } : rest));
+    }
+    return key;
+  };
+
+  const applyRefinement = (section: PlanSection, content: string, instruction: string) => {
+    setSectionVersions(prev => {
+      const history = prev[section.key] ?? [createSectionVersion(section.content)];
+      return { ...prev, [section.key]: [...history, createSectionVersion(content, instruction)] };
+    });
+    return replacePlanSection(section, content);
+  };
+
+  const handleSaveTrip = async (initialStatus: TripStatus = 'planned') => {
     if (!destination || !startDate || !endDate || !budget) {
       toast.error("Please fill in all required fields");
       return;
@@ -85,21 +175,59 @@ const PlanTrip = () => {
 
     setLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const { error } = await supabase.from('trips').insert({
+      const status = applyDateTransition({ status: initialStatus, start_date: startDate, end_date: endDate });
+      const { data: trip, error } = await supabase.from('trips').insert({
         user_id: user.id,
         destination,
         start_date: startDate,
         end_date: endDate,
         budget: parseFloat(budget),
+        currency,
         travel_type: travelType,
+        interests: selectedInterests,
         notes: aiRecommendations,
-        status: 'planned'
-      });
+        status
+      }).select('id').single();
 
       if (error) throw error;
+
+      try {
+        if (itinerary) {
+          const { error: activitiesError } = await supabase
+            .from('trip_activities')
+            .insert(toActivityRows(trip.id, user.id, itinerary));
+          if (activitiesError) throw activitiesError;
+        }
+
+        const { error: revisionError } = await supabase.from('trip_revisions').insert({
+          trip_id: trip.id,
+          user_id: user.id,
+          notes: aiRecommendations,
+          itinerary: toJson(compactItinerary(itinerary)),
+          source: 'ai'
+        });
+        if (revisionError) throw revisionError;
+      } catch (saveError) {
+        // Remove the half-saved trip (activities cascade) so retrying doesn't create a duplicate
+        const { error: rollbackError } = await supabase.from('trips').delete().eq('id', trip.id);
+        if (rollbackError) console.error('Error rolling back trip:', rollbackError);
+        throw saveError;
+      }
+
+      if (sourceDestination) {
+        await updateDestination
+          .mutateAsync({
+            row: sourceDestination,
+            values: { status: status === 'completed' ? 'visited' : 'planned', trip_id: trip.id }
+          })
+          .catch(linkError => {
+            console.error('Error linking destination to trip:', linkError);
+            toast.error("Trip saved, but the saved destination couldn't be updated");
+          });
+      }
+
       toast.success("Trip saved successfully!");
       navigate('/trips');
     } catch (error: any) {
@@ -129,7 +257,11 @@ const PlanTrip = () => {
           <Card>
             <CardHeader>
               <CardTitle>Trip Details</CardTitle>
-              <CardDescription>Tell us about your travel plans</CardDescription>
+              <CardDescription>
+                {sourceDestination
+                  ? `Planning a trip to ${sourceDestination.destination_name} from your saved destinations`
+                  : "Tell us about your travel plans"}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
@@ -165,14 +297,26 @@ const PlanTrip = () => {
 
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="budget">Budget (USD)</Label>
-                  <Input
-                    id="budget"
-                    type="number"
-                    placeholder="1000"
-                    value={budget}
-                    onChange={(e) => setBudget(e.target.value)}
-                  />
+                  <Label htmlFor="budget">Budget ({currency})</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="budget"
+                      type="number"
+                      placeholder="1000"
+                      value={budget}
+                      onChange={(e) => setBudget(e.target.value)}
+                    />
+                    <Select value={currency} onValueChange={setCurrency}>
+                      <SelectTrigger className="w-28" aria-label="Currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(code => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 <div>
                   <Label htmlFor="travel-type">Travel Type</Label>
@@ -193,7 +337,7 @@ const PlanTrip = () => {
               <div>
                 <Label>Interests</Label>
                 <div className="flex flex-wrap gap-2 mt-2">
-                  {interestOptions.map(interest => (
+                  {INTEREST_OPTIONS.map(interest => (
                     <Badge
                       key={interest}
                       variant={selectedInterests.includes(interest) ? "default" : "outline"}
@@ -206,23 +350,43 @@ const PlanTrip = () => {
                 </div>
               </div>
 
-              <Button 
-                onClick={handleGetRecommendations} 
-                disabled={loading}
-                className="w-full"
-              >
-                {loading ? (
-                  <>
+              {generating ? (
+                <div className="flex gap-2">
+                  <Button disabled className="flex-1">
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                     Generating...
-                  </>
-                ) : (
-                  <>
-                    <Sparkles className="h-4 w-4 mr-2" />
-                    Get AI Recommendations
-                  </>
-                )}
-              </Button>
+                  </Button>
+                  <Button variant="outline" onClick={cancelRecommendations}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button 
+                  onClick={handleGetRecommendations} 
+                  disabled={loading}
+                  className="w-full"
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Get AI Recommendations
+                </Button>
+              )}
+
+              {aiError && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>{AI_ERROR_TITLES[aiError.kind]}</AlertTitle>
+                  <AlertDescription className="flex items-center justify-between gap-4">
+                    <span>{aiError.message}</span>
+                    {aiError.kind !== "bad_input" && (
+                      <Button variant="outline" size="sm" onClick={handleGetRecommendations}>
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Retry
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
             </CardContent>
           </Card>
 
@@ -232,22 +396,57 @@ const PlanTrip = () => {
                 <CardTitle>Your Personalized Itinerary</CardTitle>
                 <CardDescription>AI-generated recommendations for your trip</CardDescription>
               </CardHeader>
-              <CardContent>
-                <Textarea
+              <CardContent className="space-y-4">
+                {itinerary && (
+                  <ItineraryTimeline itinerary={itinerary} onChange={setItinerary} />
+                )}
+                <Label htmlFor="trip-notes">{itinerary ? "Notes" : "Itinerary"}</Label>
+                <MarkdownEditor
+                  id="trip-notes"
                   value={aiRecommendations}
-                  onChange={(e) => setAiRecommendations(e.target.value)}
-                  className="min-h-[400px] font-mono text-sm"
+                  onChange={setAiRecommendations}
+                  readOnly={generating}
+                  defaultMode="preview"
+                  className="min-h-[400px]"
                 />
-                <Button 
-                  onClick={handleSaveTrip} 
-                  disabled={loading}
-                  className="w-full mt-4"
-                >
-                  {loading ? "Saving..." : "Save Trip"}
-                </Button>
+                <div className="grid grid-cols-3 gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSaveTrip('draft')}
+                    disabled={loading || generating}
+                  >
+                    Save as Draft
+                  </Button>
+                  <Button 
+                    onClick={() => handleSaveTrip()} 
+                    disabled={loading || generating}
+                    className="col-span-2"
+                  >
+                    {loading ? "Saving..." : "Save Trip"}
+                  </Button>
+                </div>
               </CardContent>
             </Card>
           )}
+
+          {aiRecommendations && !generating && (
+            <RefineSectionPanel
+              plan={aiRecommendations}
+              context={{
+                destination,
+                budget: parseFloat(budget),
+                currency,
+                travelType,
+                interests: selectedInterests,
+                days: calculateDays(startDate, endDate),
+                profile: aiProfile
+              }}
+              versions={sectionVersions}
+              onApply={applyRefinement}
+              onRevert={(section, version) => replacePlanSection(section, version.content)}
+              disabled={loading}
+            />
+          )}
         </div>
       </main>
     </div>
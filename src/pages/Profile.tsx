@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { CURRENCIES } from "@/lib/currency";
+import { INTEREST_OPTIONS } from "@/lib/trips";
+import {
+  type TravelProfileDraft,
+  type TravelProfileErrors,
+  toTravelProfileDraft,
+  validateTravelProfile,
+} from "@/lib/travelProfile";
+import { useSaveTravelProfile, useTravelProfile } from "@/hooks/useTravelProfile";
+
+// Select value for "no home currency"
+const NO_CURRENCY = "none";
+
+const Profile = () => {
+  const navigate = useNavigate();
+  const { data: profile, isLoading } = useTravelProfile();
+  const saveProfile = useSaveTravelProfile();
+  const [draft, setDraft] = useState<TravelProfileDraft>(() => toTravelProfileDraft(null));
+  const [errors, setErrors] = useState<TravelProfileErrors>({});
+
+  useEffect(() => {
+    if (profile !== undefined) setDraft(toTravelProfileDraft(profile));
+  }, [profile]);
+
+  const update = (changes: Partial<TravelProfileDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleInterest = (interest: string) =>
+    update({
+      default_interests: draft.default_interests.includes(interest)
+        ? draft.default_interests.filter(i => i !== interest)
+        : [...draft.default_interests, interest],
+    });
+
+  const handleSave = async () => {
+    const { data, errors: validationErrors } = validateTravelProfile(draft);
+    setErrors(validationErrors);
+    if (!data) {
+      toast.error("Please fix the highlighted fields");
+      return;
+    }
+
+    try {
+      await saveProfile.mutateAsync(data);
+      toast.success("Travel profile saved");
+    } catch (error: any) {
+      console.error('Error saving travel profile:', error);
+      toast.error(error.message || "Failed to save travel profile");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/20">
+      <header className="border-b bg-background/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button onClick={() => navigate('/')} variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <h1 className="text-4xl font-bold mb-2">Travel Profile</h1>
+        <p className="text-muted-foreground mb-8">
+          Your defaults for planning trips. They're also shared with the AI so its suggestions fit you.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferences</CardTitle>
+              <CardDescription>Everything here is optional</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label>Favourite interests</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {INTEREST_OPTIONS.map(interest => (
+                    <Badge
+                      key={interest}
+                      variant={draft.default_interests.includes(interest) ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => toggleInterest(interest)}
+                    >
+                      {interest}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="budget-min">Usual budget from</Label>
+                  <Input
+                    id="budget-min"
+                    type="number"
+                    min={0}
+                    placeholder="500"
+                    value={draft.budget_min}
+                    onChange={(e) => update({ budget_min: e.target.value })}
+                  />
+                  {errors.budget_min && <p className="text-sm text-destructive mt-1">{errors.budget_min}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="budget-max">to</Label>
+                  <Input
+                    id="budget-max"
+                    type="number"
+                    min={0}
+                    placeholder="2000"
+                    value={draft.budget_max}
+                    onChange={(e) => update({ budget_max: e.target.value })}
+                  />
+                  {errors.budget_max && <p className="text-sm text-destructive mt-1">{errors.budget_max}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="home-currency">Home currency</Label>
+                  <Select
+                    value={draft.home_currency || NO_CURRENCY}
+                    onValueChange={(value) => update({ home_currency: value === NO_CURRENCY ? "" : value })}
+                  >
+                    <SelectTrigger id="home-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CURRENCY}>Not set</SelectItem>
+                      {CURRENCIES.map(code => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.home_currency && <p className="text-sm text-destructive mt-1">{errors.home_currency}</p>}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="dietary-needs">Dietary needs</Label>
+                <Textarea
+                  id="dietary-needs"
+                  placeholder="e.g., vegetarian, nut allergy"
+                  value={draft.dietary_needs}
+                  onChange={(e) => update({ dietary_needs: e.target.value })}
+                  rows={2}
+                />
+                {errors.dietary_needs && <p className="text-sm text-destructive mt-1">{errors.dietary_needs}</p>}
+              </div>
+
+              <div>
+                <Label htmlFor="mobility-constraints">Mobility constraints</Label>
+                <Textarea
+                  id="mobility-constraints"
+                  placeholder="e.g., avoid long walks and steep stairs"
+                  value={draft.mobility_constraints}
+                  onChange={(e) => update({ mobility_constraints: e.target.value })}
+                  rows={2}
+                />
+                {errors.mobility_constraints && (
+                  <p className="text-sm text-destructive mt-1">{errors.mobility_constraints}</p>
+                )}
+              </div>
+
+              <Button onClick={handleSave} disabled={saveProfile.isPending} className="w-full">
+                {saveProfile.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Profile
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,544 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { ArrowLeft, Eye, Loader2, RotateCcw, Save } from "lucide-react";
+import ItineraryTimeline from "@/components/itinerary/ItineraryTimeline";
+import ExpensesPanel from "@/components/expenses/ExpensesPanel";
+import RevisionHistory from "@/components/trips/RevisionHistory";
+import TripJournal from "@/components/trips/TripJournal";
+import TripMembers from "@/components/trips/TripMembers";
+import PackingList from "@/components/packing/PackingList";
+import PresenceIndicator from "@/components/trips/PresenceIndicator";
+import MarkdownEditor from "@/components/markdown/MarkdownEditor";
+import { type Itinerary, compactItinerary, fromActivityRows, toActivityRows } from "@/lib/itinerary";
+import { toJson } from "@/lib/json";
+import type { RevisionSource, TripRevision } from "@/lib/revisions";
+import { INTEREST_OPTIONS, TRAVEL_TYPES, type Trip, type TripDraft, type TripFormErrors, toTripDraft, validateTrip } from "@/lib/trips";
+import { CURRENCIES } from "@/lib/currency";
+import { STATUS_LABELS, applyDateTransition, nextStatuses, transitionError } from "@/lib/tripStatus";
+import { type TripRole, canEditTrip, fetchTripRole } from "@/lib/tripMembers";
+import type { RealtimeTable, RowChange } from "@/lib/realtime/transport";
+import { useAuth } from "@/hooks/useAuth";
+import { usePresence, useRowChanges } from "@/hooks/useRealtime";
+
+interface SavedPlan {
+  notes: string;
+  plan: Itinerary | null;
+}
+
+// Identifies a write in its realtime echo: trips by the updated_at the save produced,
+// revisions by id. Timestamps are compared as instants since the two APIs format them differently.
+const writeKey = (table: RealtimeTable, row: { id: string; updated_at?: unknown }) =>
+  table === 'trips' ? `trips:${new Date(String(row.updated_at)).getTime()}` : `${table}:${row.id}`;
+
+const TripDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [draft, setDraft] = useState<TripDraft | null>(null);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [savedItinerary, setSavedItinerary] = useState<Itinerary | null>(null);
+  const [errors, setErrors] = useState<TripFormErrors>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [revisionsKey, setRevisionsKey] = useState(0);
+  const [role, setRole] = useState<TripRole | null>(null);
+  const readOnly = !canEditTrip(role);
+
+  const itineraryDirty = JSON.stringify(itinerary) !== JSON.stringify(savedItinerary);
+  const isDirty = itineraryDirty || (!!trip && !!draft && JSON.stringify(toTripDraft(trip)) !== JSON.stringify(draft));
+
+  useEffect(() => {
+    fetchTrip();
+  }, [id]);
+
+  const others = usePresence(id ? `trip:${id}` : null, { editing: !readOnly && isDirty });
+
+  // Our own saves come back through realtime too; remember them so they don't trigger a refetch
+  const ownWrites = useRef(new Set<string>());
+  const rememberWrite = (table: RealtimeTable, row: { id: string; updated_at?: unknown }) =>
+    ownWrites.current.add(writeKey(table, row));
+
+  // Picks up what other members saved, unless it would overwrite unsaved edits here
+  const onRemoteChange = (change: RowChange) => {
+    if (ownWrites.current.delete(writeKey(change.table, change.row))) return;
+    if (saving || loading) return;
+    if (change.table === 'trip_revisions') setRevisionsKey(key => key + 1);
+    if (isDirty) {
+      toast.info("This trip was updated elsewhere. Save or discard your changes to see the latest version.", {
+        id: 'trip-remote-change',
+      });
+      return;
+    }
+    fetchTrip();
+  };
+
+  useRowChanges('trips', onRemoteChange, id ? { column: 'id', value: id } : null);
+  useRowChanges('trip_revisions', onRemoteChange, id ? { column: 'trip_id', value: id } : null);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warnBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", warnBeforeUnload);
+    return () => window.removeEventListener("beforeunload", warnBeforeUnload);
+  }, [isDirty]);
+
+  const fetchTrip = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        toast.error("Trip not found");
+        navigate('/trips');
+        return;
+      }
+      // Falls back to ownership when membership can't be read, e.g. while offline
+      const tripRole = user
+        ? await fetchTripRole(data.id, user.id).catch((): TripRole | null => (data.user_id === user.id ? 'owner' : null))
+        : null;
+      setRole(tripRole);
+
+      const status = applyDateTransition(data);
+      if (status !== data.status && canEditTrip(tripRole)) {
+        const { data: updated, error: statusError } = await supabase
+          .from('trips')
+          .update({ status })
+          .eq('id', data.id)
+          .select('id, updated_at')
+          .single();
+        if (statusError) console.error('Error updating trip status:', statusError);
+        else rememberWrite('trips', updated);
+      }
+      setTrip({ ...data, status });
+      setDraft(toTripDraft({ ...data, status }));
+
+      const { data: activities, error: activitiesError } = await supabase
+        .from('trip_activities')
+        .select('*')
+        .eq('trip_id', id);
+
+      if (activitiesError) throw activitiesError;
+      const stored = fromActivityRows(activities || []);
+      setItinerary(stored);
+      setSavedItinerary(stored);
+    } catch (error: any) {
+      console.error('Error fetching trip:', error);
+      toast.error("Failed to load trip");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof TripDraft>(field: K, value: TripDraft[K]) => {
+    setDraft(prev => prev && { ...prev, [field]: value });
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const discardChanges = () => {
+    if (trip) setDraft(toTripDraft(trip));
+    setItinerary(savedItinerary);
+    setErrors({});
+  };
+
+  // Trips saved before revisions existed have no history; record what is being
+  // overwritten first so it can still be restored
+  const ensureBaselineRevision = async (tripId: string, userId: string, previous: SavedPlan) => {
+    const { count, error } = await supabase
+      .from('trip_revisions')
+      .select('id', { count: 'exact', head: true })
+      .eq('trip_id', tripId);
+    if (error) throw error;
+    if (count) return;
+
+    const { data: baseline, error: insertError } = await supabase.from('trip_revisions').insert({
+      trip_id: tripId,
+      user_id: userId,
+      notes: previous.notes,
+      itinerary: toJson(compactItinerary(previous.plan)),
+      source: 'manual'
+    }).select('id').single();
+    if (insertError) throw insertError;
+    rememberWrite('trip_revisions', baseline);
+  };
+
+  // Replaces the trip's activities and records the plan as a new revision. New rows
+  // are inserted before the old ones are deleted, so a failed insert loses nothing.
+  const savePlan = async (
+    tripId: string,
+    { notes, plan }: SavedPlan,
+    previous: SavedPlan,
+    source: RevisionSource,
+    replaceActivities: boolean
+  ) => {
+    if (!user) throw new Error("Not authenticated");
+
+    await ensureBaselineRevision(tripId, user.id, previous);
+
+    if (replaceActivities) {
+      let keepIds: string[] = [];
+      if (plan) {
+        const { data: inserted, error: insertError } = await supabase
+          .from('trip_activities')
+          .insert(toActivityRows(tripId, user.id, plan))
+          .select('id');
+        if (insertError) throw insertError;
+        keepIds = inserted.map(row => row.id);
+      }
+
+      let stale = supabase.from('trip_activities').delete().eq('trip_id', tripId);
+      if (keepIds.length > 0) stale = stale.not('id', 'in', `(${keepIds.join(',')})`);
+      const { error: deleteError } = await stale;
+      if (deleteError) throw deleteError;
+    }
+
+    const { data: revision, error } = await supabase.from('trip_revisions').insert({
+      trip_id: tripId,
+      user_id: user.id,
+      notes,
+      itinerary: toJson(compactItinerary(plan)),
+      source
+    }).select('id').single();
+    if (error) throw error;
+    rememberWrite('trip_revisions', revision);
+    setRevisionsKey(key => key + 1);
+  };
+
+  const handleSave = async () => {
+    if (!trip || !draft) return;
+
+    const { data, errors: validationErrors } = validateTrip(draft);
+    const statusError = data && transitionError(trip.status, data.status);
+    if (!data || statusError) {
+      if (statusError) validationErrors.status = statusError;
+      setErrors(validationErrors);
+      toast.error("Please fix the highlighted fields");
+      return;
+    }
+
+    // New dates can start or finish the trip, same as when it is loaded
+    const datesChanged = data.start_date !== trip.start_date || data.end_date !== trip.end_date;
+    const { status, start_date, end_date } = data;
+    const values = datesChanged ? { ...data, status: applyDateTransition({ status, start_date, end_date }) } : data;
+
+    // Optimistically show the saved values, roll back if the update fails
+    const previous = trip;
+    const unsavedDraft = draft;
+    const previousItinerary = savedItinerary;
+    const optimistic = { ...trip, ...values };
+    const planChanged = itineraryDirty || (previous.notes || "") !== data.notes;
+    setTrip(optimistic);
+    setDraft(toTripDraft(optimistic));
+    setSavedItinerary(itinerary);
+    setSaving(true);
+    try {
+      const { data: updated, error } = await supabase
+        .from('trips')
+        .update(values)
+        .eq('id', trip.id)
+        .select('id, updated_at')
+        .single();
+      if (error) throw error;
+      rememberWrite('trips', updated);
+    } catch (error: any) {
+      console.error('Error updating trip:', error);
+      setTrip(previous);
+      setDraft(unsavedDraft);
+      setSavedItinerary(previousItinerary);
+      toast.error(error.message || "Failed to update trip");
+      setSaving(false);
+      return;
+    }
+
+    // The trip row is saved now; if the plan fails, only the itinerary stays unsaved
+    try {
+      if (planChanged) {
+        await savePlan(
+          trip.id,
+          { notes: data.notes, plan: itinerary },
+          { notes: previous.notes || "", plan: previousItinerary },
+          'manual',
+          itineraryDirty
+        );
+      }
+      toast.success("Trip updated");
+    } catch (error: any) {
+      console.error('Error saving itinerary:', error);
+      setSavedItinerary(previousItinerary);
+      toast.error("Trip details saved, but the itinerary could not be saved");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (revision: TripRevision) => {
+    if (!trip) return;
+    if (!revision.readable) {
+      toast.error("This revision's itinerary can't be read, so it can't be restored");
+      return;
+    }
+    if (isDirty && !window.confirm("Restoring this revision will discard your unsaved changes. Continue?")) return;
+    setSaving(true);
+    try {
+      const { data: updated, error } = await supabase
+        .from('trips')
+        .update({ notes: revision.notes })
+        .eq('id', trip.id)
+        .select('id, updated_at')
+        .single();
+      if (error) throw error;
+      rememberWrite('trips', updated);
+      await savePlan(
+        trip.id,
+        { notes: revision.notes, plan: revision.itinerary },
+        { notes: trip.notes || "", plan: savedItinerary },
+        'manual',
+        true
+      );
+
+      const restored = { ...trip, notes: revision.notes };
+      setTrip(restored);
+      setDraft(toTripDraft(restored));
+      setItinerary(revision.itinerary);
+      setSavedItinerary(revision.itinerary);
+      toast.success("Revision restored");
+    } catch (error: any) {
+      console.error('Error restoring revision:', error);
+      toast.error(error.message || "Failed to restore revision");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !draft) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading trip...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/20">
+      <header className="border-b bg-background/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button onClick={() => navigate('/trips')} variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Trips
+          </Button>
+          <div className="flex items-center gap-4">
+            <PresenceIndicator members={others} />
+            {readOnly ? (
+              <Badge variant="secondary">
+                <Eye className="h-3 w-3 mr-1" />
+                View only
+              </Badge>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Button onClick={discardChanges} variant="outline" disabled={!isDirty || saving}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+                <Button onClick={handleSave} disabled={!isDirty || saving}>
+                  {saving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  Save Changes
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold mb-2">{trip?.destination}</h1>
+        <p className="text-muted-foreground mb-8">
+          {readOnly
+            ? "You can view this trip but not change it"
+            : isDirty ? "You have unsaved changes" : "Edit your trip details"}
+        </p>
+
+        <div className="grid gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trip Details</CardTitle>
+              <CardDescription>Update where, when and how you travel</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <fieldset disabled={readOnly} className="space-y-4">
+                <div>
+                  <Label htmlFor="destination">Destination</Label>
+                  <Input
+                    id="destination"
+                    value={draft.destination}
+                    onChange={(e) => updateField('destination', e.target.value)}
+                  />
+                  {errors.destination && <p className="text-sm text-destructive mt-1">{errors.destination}</p>}
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="start-date">Start Date</Label>
+                    <Input
+                      id="start-date"
+                      type="date"
+                      value={draft.start_date}
+                      onChange={(e) => updateField('start_date', e.target.value)}
+                    />
+                    {errors.start_date && <p className="text-sm text-destructive mt-1">{errors.start_date}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor="end-date">End Date</Label>
+                    <Input
+                      id="end-date"
+                      type="date"
+                      value={draft.end_date}
+                      onChange={(e) => updateField('end_date', e.target.value)}
+                    />
+                    {errors.end_date && <p className="text-sm text-destructive mt-1">{errors.end_date}</p>}
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="budget">Budget ({draft.currency})</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="budget"
+                        type="number"
+                        value={draft.budget}
+                        onChange={(e) => updateField('budget', e.target.value)}
+                      />
+                      <Select value={draft.currency} onValueChange={(value) => updateField('currency', value)}>
+                        <SelectTrigger className="w-28" aria-label="Currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map(code => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {errors.budget && <p className="text-sm text-destructive mt-1">{errors.budget}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor="travel-type">Travel Type</Label>
+                    <Select value={draft.travel_type} onValueChange={(value) => updateField('travel_type', value)}>
+                      <SelectTrigger id="travel-type" className="capitalize">
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRAVEL_TYPES.map(type => (
+                          <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.travel_type && <p className="text-sm text-destructive mt-1">{errors.travel_type}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor="status">Status</Label>
+                    <Select value={draft.status} onValueChange={(value) => updateField('status', value)}>
+                      <SelectTrigger id="status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nextStatuses(trip?.status ?? draft.status).map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.status && <p className="text-sm text-destructive mt-1">{errors.status}</p>}
+                  </div>
+                </div>
+
+                <div>
+                  <Label>Interests</Label>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {INTEREST_OPTIONS.map(interest => {
+                      const selected = draft.interests?.includes(interest) ?? false;
+                      return (
+                        <Badge
+                          key={interest}
+                          variant={selected ? "default" : "outline"}
+                          className={readOnly ? "" : "cursor-pointer"}
+                          onClick={() =>
+                            !readOnly &&
+                            updateField(
+                              'interests',
+                              selected
+                                ? (draft.interests ?? []).filter(i => i !== interest)
+                                : [...(draft.interests ?? []), interest]
+                            )
+                          }
+                        >
+                          {interest}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="notes">Notes</Label>
+                  <MarkdownEditor
+                    id="notes"
+                    value={draft.notes}
+                    onChange={(value) => updateField('notes', value)}
+                    defaultMode="preview"
+                    readOnly={readOnly}
+                    className="min-h-[300px]"
+                  />
+                </div>
+              </fieldset>
+            </CardContent>
+          </Card>
+
+          {itinerary && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Itinerary</CardTitle>
+                <CardDescription>Your day-by-day plan. Changes are saved with the trip.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ItineraryTimeline itinerary={itinerary} onChange={setItinerary} readOnly={readOnly} />
+              </CardContent>
+            </Card>
+          )}
+
+          {trip && <TripJournal trip={trip} itinerary={savedItinerary} />}
+
+          {trip && <ExpensesPanel trip={trip} readOnly={readOnly} />}
+
+          {trip && <PackingList trip={trip} readOnly={readOnly} />}
+
+          {trip && (
+            <RevisionHistory tripId={trip.id} refreshKey={revisionsKey} onRestore={handleRestore} readOnly={readOnly} />
+          )}
+
+          {trip && role && <TripMembers tripId={trip.id} role={role} onLeave={() => navigate('/trips')} />}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TripDetail;
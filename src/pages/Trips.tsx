@@ -1,65 +1,113 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { ArrowLeft, Calendar, DollarSign, MapPin, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft, Calendar, LogOut, MapPin, Pencil, Plus, Trash2, Users, Wallet } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { type Trip, TRAVEL_TYPES } from "@/lib/trips";
+import { DEFAULT_CURRENCY, convert, formatMoney } from "@/lib/currency";
+import { markdownToPlainText } from "@/lib/markdown";
+import { queryKeys, useDeleteTrip, useQueryErrorToast, useTrips, useUpdateTrip } from "@/hooks/useEntities";
+import { useAuth } from "@/hooks/useAuth";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useTravelProfile } from "@/hooks/useTravelProfile";
+import { removeMember } from "@/lib/tripMembers";
+import { useListParams } from "@/hooks/useListParams";
+import {
+  type SortOption,
+  compareAmount,
+  compareText,
+  inDateRange,
+  inNumberRange,
+  matchesSearch,
+  paginate,
+  sortRows,
+} from "@/lib/listQuery";
+import ListToolbar from "@/components/lists/ListToolbar";
+import ListPagination from "@/components/lists/ListPagination";
+import RangeFilter from "@/components/lists/RangeFilter";
+import SelectFilter from "@/components/lists/SelectFilter";
+import ExchangeRatesDialog from "@/components/currency/ExchangeRatesDialog";
+import InvitationInbox from "@/components/trips/InvitationInbox";
+import PresenceIndicator from "@/components/trips/PresenceIndicator";
+import { usePresence } from "@/hooks/useRealtime";
+import {
+  STATUS_LABELS,
+  TRIP_STATUSES,
+  type TripStatus,
+  applyDateTransitions,
+  statusBadgeVariant,
+  toTripStatus,
+} from "@/lib/tripStatus";
 
-interface Trip {
-  id: string;
-  destination: string;
-  start_date: string;
-  end_date: string;
-  budget: number;
-  travel_type: string;
-  status: string;
-  notes: string;
-}
+const PAGE_SIZE = 12;
+
+const LIST_PARAMS = ["q", "status", "type", "from", "to", "min", "max", "sort"] as const;
+
+// Budgets are compared in one currency; `budgetOf` returns null for trips without a budget
+// (or without a rate to convert it), which the filter excludes and the sort puts last
+const tripSortOptions = (budgetOf: (trip: Trip) => number | null): SortOption<Trip>[] => [
+  { value: "start-desc", label: "Latest start date", compare: (a, b) => b.start_date.localeCompare(a.start_date) },
+  { value: "start-asc", label: "Earliest start date", compare: (a, b) => a.start_date.localeCompare(b.start_date) },
+  { value: "destination", label: "Destination (A–Z)", compare: (a, b) => compareText(a.destination, b.destination) },
+  { value: "budget-desc", label: "Highest budget", compare: (a, b) => compareAmount(budgetOf(a), budgetOf(b), "desc") },
+  { value: "budget-asc", label: "Lowest budget", compare: (a, b) => compareAmount(budgetOf(a), budgetOf(b), "asc") },
+];
+
+// Who has the trip open right now, without announcing ourselves
+const TripPresence = ({ tripId }: { tripId: string }) => (
+  <PresenceIndicator members={usePresence(`trip:${tripId}`, null)} max={3} className="mb-2" />
+);
 
 const Trips = () => {
   const navigate = useNavigate();
-  const [trips, setTrips] = useState<Trip[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { params, page, active, setParam, setPage, clear } = useListParams(LIST_PARAMS);
+  const { data, isLoading: loading, error } = useTrips();
+  const updateTrip = useUpdateTrip();
+  const removeTrip = useDeleteTrip();
+  const { rates } = useExchangeRates();
+  const { data: profile } = useTravelProfile();
+  const displayCurrency = profile?.home_currency || DEFAULT_CURRENCY;
 
+  useQueryErrorToast(error, "Failed to load trips");
+
+  const { trips, changed } = applyDateTransitions(data ?? []);
+  const isShared = (trip: Trip) => !!trip.user_id && trip.user_id !== user?.id;
+
+  // Persist statuses that moved on with the calendar (planned -> in progress -> completed).
+  // Owners do this for shared trips so viewers never attempt a write they aren't allowed.
   useEffect(() => {
-    fetchTrips();
-  }, []);
+    for (const trip of changed.filter(trip => !isShared(trip))) {
+      updateTrip
+        .mutateAsync({ row: trip, values: { status: trip.status } })
+        .catch(updateError => console.error('Error updating trip status:', updateError));
+    }
+  }, [changed.map(trip => trip.id).join()]);
 
-  const fetchTrips = async () => {
+  const deleteTrip = async (trip: Trip) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        navigate('/auth');
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('trips')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('start_date', { ascending: false });
-
-      if (error) throw error;
-      setTrips(data || []);
+      const { queued } = await removeTrip.mutateAsync(trip);
+      toast.success(queued ? "Trip deleted. It will sync when you're back online" : "Trip deleted");
     } catch (error: any) {
-      console.error('Error fetching trips:', error);
-      toast.error("Failed to load trips");
-    } finally {
-      setLoading(false);
+      console.error('Error deleting trip:', error);
+      toast.error("Failed to delete trip");
     }
   };
 
-  const deleteTrip = async (id: string) => {
+  const leaveTrip = async (trip: Trip) => {
+    if (!user) return;
     try {
-      const { error } = await supabase.from('trips').delete().eq('id', id);
-      if (error) throw error;
-      toast.success("Trip deleted");
-      setTrips(trips.filter(trip => trip.id !== id));
+      await removeMember(trip.id, user.id);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.trips });
+      toast.success(`You left the trip to ${trip.destination}`);
     } catch (error: any) {
-      console.error('Error deleting trip:', error);
-      toast.error("Failed to delete trip");
+      console.error('Error leaving trip:', error);
+      toast.error("Failed to leave trip");
     }
   };
 
@@ -71,6 +119,26 @@ const Trips = () => {
     });
   };
 
+  const budgetOf = (trip: Trip) =>
+    trip.budget == null ? null : convert(Number(trip.budget), trip.currency, displayCurrency, rates);
+  const sortOptions = tripSortOptions(budgetOf);
+
+  const filteredTrips = sortRows(
+    trips.filter(trip =>
+      (!params.status || toTripStatus(trip.status) === params.status) &&
+      (!params.type || trip.travel_type === params.type) &&
+      inDateRange(params.from, params.to, trip.start_date, trip.end_date) &&
+      inNumberRange(params.min, params.max, budgetOf(trip)) &&
+      matchesSearch(params.q, [trip.destination, trip.travel_type, trip.notes])
+    ),
+    sortOptions,
+    params.sort
+  );
+  const visible = paginate(filteredTrips, page ?? 1, PAGE_SIZE);
+
+  const countByStatus = (status: TripStatus) =>
+    trips.filter(trip => toTripStatus(trip.status) === status).length;
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
@@ -87,10 +155,13 @@ const Trips = () => {
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Home
           </Button>
-          <Button onClick={() => navigate('/plan-trip')}>
-            <Plus className="h-4 w-4 mr-2" />
-            New Trip
-          </Button>
+          <div className="flex items-center gap-2">
+            <ExchangeRatesDialog />
+            <Button onClick={() => navigate('/plan-trip')}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Trip
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -98,6 +169,8 @@ const Trips = () => {
         <h1 className="text-4xl font-bold mb-2">My Trips</h1>
         <p className="text-muted-foreground mb-8">View and manage your travel adventures</p>
 
+        <InvitationInbox />
+
         {trips.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
@@ -111,47 +184,137 @@ const Trips = () => {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid gap-6 md:grid-cols-2">
-            {trips.map((trip) => (
-              <Card key={trip.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle className="text-2xl">{trip.destination}</CardTitle>
-                      <CardDescription className="capitalize">{trip.travel_type} trip</CardDescription>
+          <>
+            <Tabs value={params.status || "all"} onValueChange={(value) => setParam("status", value === "all" ? "" : value)} className="mb-6">
+              <TabsList className="flex-wrap h-auto">
+                <TabsTrigger value="all">All ({trips.length})</TabsTrigger>
+                {TRIP_STATUSES.map(status => (
+                  <TabsTrigger key={status} value={status}>
+                    {STATUS_LABELS[status]} ({countByStatus(status)})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+
+            <ListToolbar
+              search={params.q}
+              onSearchChange={(value) => setParam("q", value)}
+              searchPlaceholder="Search destinations and notes..."
+              sort={params.sort}
+              sortOptions={sortOptions}
+              onSortChange={(value) => setParam("sort", value === sortOptions[0].value ? "" : value)}
+              active={active}
+              onClear={clear}
+              resultCount={filteredTrips.length}
+              totalCount={trips.length}
+              filters={
+                <>
+                  <SelectFilter
+                    id="filter-type"
+                    label="Travel type"
+                    value={params.type}
+                    options={TRAVEL_TYPES.map(type => ({ value: type, label: type.charAt(0).toUpperCase() + type.slice(1) }))}
+                    onChange={(value) => setParam("type", value)}
+                  />
+                  <RangeFilter
+                    id="filter-dates"
+                    label="Dates"
+                    type="date"
+                    from={params.from}
+                    to={params.to}
+                    onFromChange={(value) => setParam("from", value)}
+                    onToChange={(value) => setParam("to", value)}
+                  />
+                  <RangeFilter
+                    id="filter-budget"
+                    label={`Budget (${displayCurrency})`}
+                    type="number"
+                    from={params.min}
+                    to={params.max}
+                    onFromChange={(value) => setParam("min", value)}
+                    onToChange={(value) => setParam("max", value)}
+                  />
+                </>
+              }
+            />
+
+            {filteredTrips.length === 0 && (
+              <p className="text-muted-foreground text-center py-12">
+                No trips match your search and filters
+              </p>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2">
+              {visible.rows.map((trip) => (
+                <Card key={trip.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-2xl">{trip.destination}</CardTitle>
+                        <CardDescription className="capitalize">{trip.travel_type} trip</CardDescription>
+                      </div>
+                      <div className="flex flex-col items-end">
+                        {(trip.member_ids?.length ?? 0) > 1 && <TripPresence tripId={trip.id} />}
+                        <div className="flex flex-wrap justify-end gap-1">
+                          {isShared(trip) && (
+                            <Badge variant="outline">
+                              <Users className="h-3 w-3 mr-1" />
+                              Shared
+                            </Badge>
+                          )}
+                          <Badge variant={statusBadgeVariant(trip.status)}>
+                            {STATUS_LABELS[toTripStatus(trip.status)]}
+                          </Badge>
+                        </div>
+                      </div>
                     </div>
-                    <Badge variant={trip.status === 'completed' ? 'default' : 'secondary'}>
-                      {trip.status}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center gap-2 text-sm">
-                    <Calendar className="h-4 w-4 text-primary" />
-                    <span>{formatDate(trip.start_date)} - {formatDate(trip.end_date)}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-sm">
-                    <DollarSign className="h-4 w-4 text-primary" />
-                    <span>${trip.budget.toLocaleString()} budget</span>
-                  </div>
-                  {trip.notes && (
-                    <div className="bg-accent/50 p-3 rounded-md">
-                      <p className="text-sm line-clamp-3">{trip.notes}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Calendar className="h-4 w-4 text-primary" />
+                      <span>{formatDate(trip.start_date)} - {formatDate(trip.end_date)}</span>
                     </div>
-                  )}
-                  <Button 
-                    variant="destructive" 
-                    size="sm" 
-                    onClick={() => deleteTrip(trip.id)}
-                    className="w-full"
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Trip
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Wallet className="h-4 w-4 text-primary" />
+                      <span>{formatMoney(trip.budget, trip.currency)} budget</span>
+                    </div>
+                    {trip.notes && (
+                      <div className="bg-accent/50 p-3 rounded-md">
+                        <p className="text-sm line-clamp-3 whitespace-pre-line">{markdownToPlainText(trip.notes)}</p>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/trips/${trip.id}`)}
+                      >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        View & Edit
+                      </Button>
+                      {isShared(trip) ? (
+                        <Button variant="outline" size="sm" onClick={() => leaveTrip(trip)}>
+                          <LogOut className="h-4 w-4 mr-2" />
+                          Leave Trip
+                        </Button>
+                      ) : (
+                        <Button 
+                          variant="destructive" 
+                          size="sm" 
+                          onClick={() => deleteTrip(trip)}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete Trip
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <ListPagination page={visible.page} pageSize={PAGE_SIZE} total={filteredTrips.length} onPageChange={setPage} />
+          </>
         )}
       </main>
     </div>
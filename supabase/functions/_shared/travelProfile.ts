@@ -0,0 +1,24 @@
+// The traveller's saved preferences as sent by the app with every AI request
+// (AiTravelProfile in src/lib/travelProfile.ts)
+export interface TravelProfile {
+  interests?: string[];
+  budgetRange?: { min: number | null; max: number | null; currency: string | null } | null;
+  homeCurrency?: string | null;
+  dietaryNeeds?: string;
+  mobilityConstraints?: string;
+}
+
+// The traveller's saved preferences as prompt lines; empty when no profile was sent
+export const describeProfile = (profile?: TravelProfile) => {
+  if (!profile) return "";
+  const lines: string[] = [];
+  if (profile.interests?.length) lines.push(`Usually interested in: ${profile.interests.join(", ")}`);
+  const budget = profile.budgetRange;
+  if (budget && (budget.min !== null || budget.max !== null)) {
+    lines.push(`Usual trip budget: ${budget.min ?? "?"}-${budget.max ?? "?"} ${budget.currency ?? ""}`.trim());
+  }
+  if (profile.homeCurrency) lines.push(`Home currency: ${profile.homeCurrency}`);
+  if (profile.dietaryNeeds) lines.push(`Dietary needs: ${profile.dietaryNeeds}`);
+  if (profile.mobilityConstraints) lines.push(`Mobility constraints: ${profile.mobilityConstraints}`);
+  return lines.length ? `\nTraveller profile:\n${lines.map((line) => `- ${line}`).join("\n")}\n` : "";
+};
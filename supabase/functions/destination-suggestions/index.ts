@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProfile } from "../_shared/travelProfile.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const MAX_SUGGESTIONS = 8;
+
+// Structured output: the model must answer by calling this tool
+const suggestTool = {
+  type: "function",
+  function: {
+    name: "suggest_destinations",
+    description: "Return hidden-gem destinations the traveller has not saved or visited yet.",
+    parameters: {
+      type: "object",
+      properties: {
+        suggestions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "Name of the place, e.g. 'Kinosaki Onsen'" },
+              location: { type: "string", description: "City/region and country, e.g. 'Hyogo, Japan'" },
+              description: { type: "string", description: "Two sentences on what makes it special" },
+              category: { type: "string", description: "One of Adventure, Culture, Food, Nature, History, Beaches, Wellness, Nightlife, Shopping, Photography" },
+              reason: { type: "string", description: "Why it fits this traveller, referring to their history" },
+            },
+            required: ["name", "location", "description", "category", "reason"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["suggestions"],
+      additionalProperties: false,
+    },
+  },
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { savedDestinations = [], pastTrips = [], interests = [], count = 6, profile } = await req.json();
+    if (!Array.isArray(savedDestinations) || !Array.isArray(pastTrips) || !Array.isArray(interests)) {
+      return json({ error: "savedDestinations, pastTrips and interests must be arrays" }, 400);
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+
+    const limit = Math.min(Math.max(Number(count) || 6, 1), MAX_SUGGESTIONS);
+    const describe = (items: unknown[]) => (items.length ? items.map((item) => `- ${JSON.stringify(item)}`).join("\n") : "- none");
+
+    const prompt = `Suggest ${limit} lesser-known, authentic destinations for this traveller.
+
+Interests: ${interests.length ? interests.join(", ") : "not specified"}
+${describeProfile(profile)}
+Saved bucket-list destinations:
+${describe(savedDestinations.slice(0, 50))}
+
+Past and planned trips:
+${describe(pastTrips.slice(0, 50))}
+
+Avoid anything already listed above and avoid the most famous tourist hotspots. Favour places that match the interests and the style of their past trips, and that suit their budget, diet and mobility.`;
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          {
+            role: "system",
+            content: "You are a travel expert who specialises in hidden gems and local experiences.",
+          },
+          { role: "user", content: prompt },
+        ],
+        tools: [suggestTool],
+        tool_choice: { type: "function", function: { name: "suggest_destinations" } },
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return json({ error: "Rate limit exceeded. Please try again later." }, 429);
+      }
+      if (response.status === 402) {
+        return json({ error: "AI usage limit reached. Please add credits to continue." }, 402);
+      }
+      const errorText = await response.text();
+      console.error("AI gateway error:", response.status, errorText);
+      return json({ error: "AI gateway error" }, 500);
+    }
+
+    const data = await response.json();
+    const args = data.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments;
+    if (!args) throw new Error("The model did not return suggestions");
+
+    const { suggestions = [] } = JSON.parse(args);
+    return json({ suggestions: suggestions.slice(0, limit) });
+  } catch (error) {
+    console.error("Error in destination-suggestions function:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProfile } from "../_shared/travelProfile.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const MAX_ITEMS = 15;
+
+const CATEGORIES = ["essentials", "clothing", "toiletries", "health", "electronics", "gear", "kids", "other"];
+
+// Structured output: the model must answer by calling this tool
+const suggestTool = {
+  type: "function",
+  function: {
+    name: "suggest_packing_items",
+    description: "Return packing items specific to this trip that are missing from the traveller's list.",
+    parameters: {
+      type: "object",
+      properties: {
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              label: { type: "string", description: "Short item name, e.g. 'Universal power adapter (Type G)'" },
+              category: { type: "string", enum: CATEGORIES },
+              quantity: { type: "integer", minimum: 1 },
+              reason: { type: "string", description: "One short sentence on why this trip needs it" },
+            },
+            required: ["label", "category", "quantity", "reason"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["items"],
+      additionalProperties: false,
+    },
+  },
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { destination, startDate, days, travelType, interests = [], existing = [], profile } = await req.json();
+    if (!destination || !Array.isArray(interests) || !Array.isArray(existing)) {
+      return json({ error: "destination is required; interests and existing must be arrays" }, 400);
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+
+    const prompt = `Suggest up to ${MAX_ITEMS} packing items for this trip that are NOT already on the list.
+
+Destination: ${destination}
+Departure: ${startDate || "unknown"}
+Length: ${days} days
+Travel type: ${travelType || "not specified"}
+Interests: ${interests.length ? interests.join(", ") : "not specified"}
+${describeProfile(profile)}
+Already packed:
+${existing.length ? existing.slice(0, 200).map((label: string) => `- ${label}`).join("\n") : "- nothing yet"}
+
+Focus on what is specific to this destination and season: plug adapters, local weather, cultural dress codes, activities, entry requirements, and anything their dietary needs or mobility constraints call for. Skip generic items.`;
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          { role: "system", content: "You are an experienced traveller who writes concise, practical packing lists." },
+          { role: "user", content: prompt },
+        ],
+        tools: [suggestTool],
+        tool_choice: { type: "function", function: { name: "suggest_packing_items" } },
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return json({ error: "Rate limit exceeded. Please try again later." }, 429);
+      }
+      if (response.status === 402) {
+        return json({ error: "AI usage limit reached. Please add credits to continue." }, 402);
+      }
+      const errorText = await response.text();
+      console.error("AI gateway error:", response.status, errorText);
+      return json({ error: "AI gateway error" }, 500);
+    }
+
+    const data = await response.json();
+    const args = data.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments;
+    if (!args) throw new Error("The model did not return packing items");
+
+    const { items = [] } = JSON.parse(args);
+    return json({ items: items.slice(0, MAX_ITEMS) });
+  } catch (error) {
+    console.error("Error in packing-suggestions function:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,36 @@
+-- Structured itinerary activities, one row per activity of a trip
+CREATE TABLE public.trip_activities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day_number INTEGER NOT NULL CHECK (day_number > 0),
+  day_title TEXT NOT NULL DEFAULT '',
+  slot_label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  title TEXT NOT NULL,
+  place TEXT NOT NULL DEFAULT '',
+  duration_minutes INTEGER CHECK (duration_minutes >= 0),
+  cost_estimate NUMERIC(12, 2) CHECK (cost_estimate >= 0),
+  category TEXT NOT NULL DEFAULT 'other',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX trip_activities_trip_id_idx ON public.trip_activities (trip_id, day_number, position);
+
+ALTER TABLE public.trip_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trip activities"
+  ON public.trip_activities FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own trip activities"
+  ON public.trip_activities FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trip activities"
+  ON public.trip_activities FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trip activities"
+  ON public.trip_activities FOR DELETE
+  USING (auth.uid() = user_id);
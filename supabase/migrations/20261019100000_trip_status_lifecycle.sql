@@ -0,0 +1,11 @@
+-- Restrict trips.status to the lifecycle defined in src/lib/tripStatus.ts
+UPDATE public.trips
+SET status = 'planned'
+WHERE status IS NULL
+   OR status NOT IN ('draft', 'planned', 'booked', 'in-progress', 'completed', 'cancelled');
+
+ALTER TABLE public.trips
+  ALTER COLUMN status SET DEFAULT 'planned',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT trips_status_check
+    CHECK (status IN ('draft', 'planned', 'booked', 'in-progress', 'completed', 'cancelled'));
@@ -0,0 +1,34 @@
+-- Per-trip expense records for budget-vs-actual tracking
+CREATE TABLE public.expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (char_length(currency) = 3),
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('accommodation', 'transport', 'food', 'activities', 'shopping', 'other')),
+  expense_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payer TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX expenses_trip_id_idx ON public.expenses (trip_id, expense_date);
+
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own expenses"
+  ON public.expenses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own expenses"
+  ON public.expenses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own expenses"
+  ON public.expenses FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own expenses"
+  ON public.expenses FOR DELETE
+  USING (auth.uid() = user_id);
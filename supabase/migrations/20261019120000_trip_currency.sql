@@ -0,0 +1,3 @@
+-- Budgets are no longer assumed to be in USD
+ALTER TABLE public.trips
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (char_length(currency) = 3);
@@ -0,0 +1,26 @@
+-- Saved revisions of a trip's plan (notes plus structured itinerary)
+CREATE TABLE public.trip_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notes TEXT NOT NULL DEFAULT '',
+  itinerary JSONB,
+  source TEXT NOT NULL CHECK (source IN ('ai', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX trip_revisions_trip_id_idx ON public.trip_revisions (trip_id, created_at DESC);
+
+ALTER TABLE public.trip_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trip revisions"
+  ON public.trip_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own trip revisions"
+  ON public.trip_revisions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trip revisions"
+  ON public.trip_revisions FOR DELETE
+  USING (auth.uid() = user_id);
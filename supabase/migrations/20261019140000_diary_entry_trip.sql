@@ -0,0 +1,5 @@
+-- Optional link from a diary entry to the trip it was written on
+ALTER TABLE public.diary_entries
+  ADD COLUMN trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL;
+
+CREATE INDEX diary_entries_trip_id_idx ON public.diary_entries (trip_id, entry_date);
@@ -0,0 +1,48 @@
+-- Photos attached to diary entries. Files live in the private "diary-media"
+-- bucket under <user_id>/<entry_id>/, rows hold their metadata.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('diary-media', 'diary-media', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own diary media files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'diary-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own diary media files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'diary-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own diary media files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'diary-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE TABLE public.diary_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES public.diary_entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  path TEXT NOT NULL,
+  thumbnail_path TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  taken_at TIMESTAMP WITHOUT TIME ZONE,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX diary_media_entry_id_idx ON public.diary_media (entry_id, position);
+
+ALTER TABLE public.diary_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own diary media"
+  ON public.diary_media FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own diary media"
+  ON public.diary_media FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own diary media"
+  ON public.diary_media FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- updated_at on synced tables lets offline clients detect changes made
+-- elsewhere before replaying their queued writes
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+ALTER TABLE public.trips
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE public.diary_entries
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE public.saved_destinations
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+DROP TRIGGER IF EXISTS set_trips_updated_at ON public.trips;
+CREATE TRIGGER set_trips_updated_at
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_diary_entries_updated_at ON public.diary_entries;
+CREATE TRIGGER set_diary_entries_updated_at
+  BEFORE UPDATE ON public.diary_entries
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_saved_destinations_updated_at ON public.saved_destinations;
+CREATE TRIGGER set_saved_destinations_updated_at
+  BEFORE UPDATE ON public.saved_destinations
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,6 @@
+-- Bucket-list progress for saved destinations, and the trip planned from one
+ALTER TABLE public.saved_destinations
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'wishlist' CHECK (status IN ('wishlist', 'planned', 'visited')),
+  ADD COLUMN trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL;
+
+CREATE INDEX saved_destinations_trip_id_idx ON public.saved_destinations (trip_id);
@@ -0,0 +1,326 @@
+-- Shared trips: members with owner/editor/viewer roles, and invitations to join
+
+CREATE TABLE public.trip_members (
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (trip_id, user_id)
+);
+
+CREATE INDEX trip_members_user_id_idx ON public.trip_members (user_id);
+
+-- Exactly one owner per trip
+CREATE UNIQUE INDEX trip_members_one_owner_idx ON public.trip_members (trip_id) WHERE role = 'owner';
+
+CREATE TABLE public.trip_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Null for shareable links that anyone signed in can accept
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '14 days',
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX trip_invitations_trip_id_idx ON public.trip_invitations (trip_id, created_at DESC);
+CREATE INDEX trip_invitations_email_idx ON public.trip_invitations (lower(email)) WHERE status = 'pending';
+
+-- Member ids copied onto the trip row so clients (and the offline cache) can find shared trips
+ALTER TABLE public.trips ADD COLUMN member_ids UUID[] NOT NULL DEFAULT '{}';
+CREATE INDEX trips_member_ids_idx ON public.trips USING GIN (member_ids);
+
+-- Role helpers. SECURITY DEFINER so policies can consult trip_members without recursing into its own RLS.
+CREATE OR REPLACE FUNCTION public.trip_role(_trip_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.trip_members WHERE trip_id = _trip_id AND user_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_trip_member(_trip_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.trip_role(_trip_id) IS NOT NULL
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_trip(_trip_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(public.trip_role(_trip_id) IN ('owner', 'editor'), false)
+$$;
+
+-- Keeps trips.member_ids in step with trip_members
+CREATE OR REPLACE FUNCTION public.sync_trip_member_ids()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _trip_id UUID := coalesce(NEW.trip_id, OLD.trip_id);
+BEGIN
+  UPDATE public.trips
+  SET member_ids = coalesce((SELECT array_agg(user_id ORDER BY created_at) FROM public.trip_members WHERE trip_id = _trip_id), '{}')
+  WHERE id = _trip_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trip_members_sync_member_ids
+  AFTER INSERT OR UPDATE OR DELETE ON public.trip_members
+  FOR EACH ROW EXECUTE FUNCTION public.sync_trip_member_ids();
+
+-- Whoever creates a trip owns it
+CREATE OR REPLACE FUNCTION public.add_trip_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.trip_members (trip_id, user_id, role) VALUES (NEW.id, NEW.user_id, 'owner')
+  ON CONFLICT DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trips_add_owner
+  AFTER INSERT ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.add_trip_owner();
+
+INSERT INTO public.trip_members (trip_id, user_id, role)
+SELECT id, user_id, 'owner' FROM public.trips
+ON CONFLICT DO NOTHING;
+
+-- Trips: members read, owners and editors write, only the owner deletes
+DROP POLICY IF EXISTS "Users can view their own trips" ON public.trips;
+DROP POLICY IF EXISTS "Users can update their own trips" ON public.trips;
+
+CREATE POLICY "Members can view shared trips"
+  ON public.trips FOR SELECT
+  USING (auth.uid() = user_id OR public.is_trip_member(id));
+
+CREATE POLICY "Owners and editors can update trips"
+  ON public.trips FOR UPDATE
+  USING (auth.uid() = user_id OR public.can_edit_trip(id));
+
+-- Trip content follows the trip's roles instead of row authorship
+DROP POLICY IF EXISTS "Users can view their own trip activities" ON public.trip_activities;
+DROP POLICY IF EXISTS "Users can create their own trip activities" ON public.trip_activities;
+DROP POLICY IF EXISTS "Users can update their own trip activities" ON public.trip_activities;
+DROP POLICY IF EXISTS "Users can delete their own trip activities" ON public.trip_activities;
+
+CREATE POLICY "Members can view trip activities"
+  ON public.trip_activities FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Editors can create trip activities"
+  ON public.trip_activities FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update trip activities"
+  ON public.trip_activities FOR UPDATE
+  USING (public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip activities"
+  ON public.trip_activities FOR DELETE
+  USING (public.can_edit_trip(trip_id));
+
+DROP POLICY IF EXISTS "Users can view their own trip revisions" ON public.trip_revisions;
+DROP POLICY IF EXISTS "Users can create their own trip revisions" ON public.trip_revisions;
+DROP POLICY IF EXISTS "Users can delete their own trip revisions" ON public.trip_revisions;
+
+CREATE POLICY "Members can view trip revisions"
+  ON public.trip_revisions FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Editors can create trip revisions"
+  ON public.trip_revisions FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip revisions"
+  ON public.trip_revisions FOR DELETE
+  USING (public.can_edit_trip(trip_id));
+
+DROP POLICY IF EXISTS "Users can view their own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can create their own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can update their own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can delete their own expenses" ON public.expenses;
+
+CREATE POLICY "Members can view trip expenses"
+  ON public.expenses FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Editors can create trip expenses"
+  ON public.expenses FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update trip expenses"
+  ON public.expenses FOR UPDATE
+  USING (public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip expenses"
+  ON public.expenses FOR DELETE
+  USING (public.can_edit_trip(trip_id));
+
+-- Members: everyone on the trip sees the list; the owner manages it; members may leave
+ALTER TABLE public.trip_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view fellow members"
+  ON public.trip_members FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Owners can change member roles"
+  ON public.trip_members FOR UPDATE
+  USING (public.trip_role(trip_id) = 'owner')
+  WITH CHECK (role <> 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.trip_members FOR DELETE
+  USING (role <> 'owner' AND (public.trip_role(trip_id) = 'owner' OR auth.uid() = user_id));
+
+-- Invitations: managed by the owner; joining goes through the functions below
+ALTER TABLE public.trip_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view trip invitations"
+  ON public.trip_invitations FOR SELECT
+  USING (public.trip_role(trip_id) = 'owner');
+
+CREATE POLICY "Owners can create trip invitations"
+  ON public.trip_invitations FOR INSERT
+  WITH CHECK (auth.uid() = invited_by AND public.trip_role(trip_id) = 'owner');
+
+CREATE POLICY "Owners can revoke trip invitations"
+  ON public.trip_invitations FOR UPDATE
+  USING (public.trip_role(trip_id) = 'owner');
+
+-- Member list with display names; profiles are otherwise private to their owner
+CREATE OR REPLACE FUNCTION public.list_trip_members(_trip_id UUID)
+RETURNS TABLE (user_id UUID, role TEXT, full_name TEXT, email TEXT, joined_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, m.role, p.full_name, u.email::TEXT, m.created_at
+  FROM public.trip_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.trip_id = _trip_id AND public.is_trip_member(_trip_id)
+  ORDER BY m.role = 'owner' DESC, m.created_at
+$$;
+
+-- What an invitee sees before accepting: enough to decide, nothing more
+CREATE OR REPLACE FUNCTION public.get_trip_invitation(_token TEXT)
+RETURNS TABLE (
+  trip_id UUID,
+  destination TEXT,
+  start_date DATE,
+  end_date DATE,
+  role TEXT,
+  status TEXT,
+  email TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  invited_by_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.trip_id, t.destination, t.start_date, t.end_date, i.role, i.status, i.email, i.expires_at,
+    coalesce(p.full_name, u.email::TEXT)
+  FROM public.trip_invitations i
+  JOIN public.trips t ON t.id = i.trip_id
+  JOIN auth.users u ON u.id = i.invited_by
+  LEFT JOIN public.profiles p ON p.id = i.invited_by
+  WHERE i.token = _token AND auth.uid() IS NOT NULL
+$$;
+
+-- Pending email invitations addressed to the signed-in user
+CREATE OR REPLACE FUNCTION public.my_trip_invitations()
+RETURNS TABLE (
+  token TEXT,
+  trip_id UUID,
+  destination TEXT,
+  start_date DATE,
+  end_date DATE,
+  role TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  invited_by_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.token, i.trip_id, t.destination, t.start_date, t.end_date, i.role, i.expires_at,
+    coalesce(p.full_name, u.email::TEXT)
+  FROM public.trip_invitations i
+  JOIN public.trips t ON t.id = i.trip_id
+  JOIN auth.users u ON u.id = i.invited_by
+  LEFT JOIN public.profiles p ON p.id = i.invited_by
+  WHERE i.status = 'pending'
+    AND i.expires_at > now()
+    AND lower(i.email) = lower(auth.jwt() ->> 'email')
+    AND NOT public.is_trip_member(i.trip_id)
+  ORDER BY i.created_at DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_trip_invitation(_token TEXT, _accept BOOLEAN)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.trip_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _invitation FROM public.trip_invitations WHERE token = _token FOR UPDATE;
+  IF NOT FOUND OR _invitation.status = 'revoked' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+  IF _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+  IF _invitation.email IS NOT NULL AND lower(_invitation.email) <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  IF _accept THEN
+    -- Existing members keep their role; a link can't downgrade or upgrade anyone
+    INSERT INTO public.trip_members (trip_id, user_id, role)
+    VALUES (_invitation.trip_id, auth.uid(), _invitation.role)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- Shareable links stay open for the next person; email invitations are used up
+  IF _invitation.email IS NOT NULL THEN
+    UPDATE public.trip_invitations
+    SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END, responded_at = now()
+    WHERE id = _invitation.id;
+  END IF;
+
+  RETURN _invitation.trip_id;
+END;
+$$;
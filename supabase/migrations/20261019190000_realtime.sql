@@ -0,0 +1,6 @@
+-- Broadcast row changes to open clients; realtime applies each table's RLS before delivering them
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.trips,
+  public.diary_entries,
+  public.saved_destinations,
+  public.trip_revisions;
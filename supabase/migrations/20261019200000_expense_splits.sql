@@ -0,0 +1,34 @@
+-- How an expense is shared among the group. An empty splits list means the payer covered it alone.
+-- Each split is {"participant": name, "value": n}: a weight for 'shares', an amount for 'exact', ignored for 'equal'.
+ALTER TABLE public.expenses
+  ADD COLUMN split_mode TEXT NOT NULL DEFAULT 'equal' CHECK (split_mode IN ('equal', 'shares', 'exact')),
+  ADD COLUMN splits JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(splits) = 'array');
+
+-- Money paid back between participants when settling up
+CREATE TABLE public.expense_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_participant TEXT NOT NULL,
+  to_participant TEXT NOT NULL CHECK (to_participant <> from_participant),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (char_length(currency) = 3),
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX expense_payments_trip_id_idx ON public.expense_payments (trip_id, paid_on);
+
+ALTER TABLE public.expense_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view trip payments"
+  ON public.expense_payments FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Editors can record trip payments"
+  ON public.expense_payments FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip payments"
+  ON public.expense_payments FOR DELETE
+  USING (public.can_edit_trip(trip_id));
@@ -0,0 +1,58 @@
+-- Per-trip packing checklist, shared by everyone on the trip
+CREATE TABLE public.packing_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 200),
+  category TEXT NOT NULL DEFAULT 'other',
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  packed BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'custom' CHECK (source IN ('template', 'ai', 'custom')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX packing_items_trip_id_idx ON public.packing_items (trip_id, position);
+
+ALTER TABLE public.packing_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view packing items"
+  ON public.packing_items FOR SELECT
+  USING (public.is_trip_member(trip_id));
+
+CREATE POLICY "Editors can create packing items"
+  ON public.packing_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update packing items"
+  ON public.packing_items FOR UPDATE
+  USING (public.can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete packing items"
+  ON public.packing_items FOR DELETE
+  USING (public.can_edit_trip(trip_id));
+
+-- Lists a user saved to start future trips from; items are [{label, category, quantity}]
+CREATE TABLE public.packing_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  items JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX packing_templates_user_id_idx ON public.packing_templates (user_id);
+
+ALTER TABLE public.packing_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own packing templates"
+  ON public.packing_templates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own packing templates"
+  ON public.packing_templates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own packing templates"
+  ON public.packing_templates FOR DELETE
+  USING (auth.uid() = user_id);
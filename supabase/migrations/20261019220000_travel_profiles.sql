@@ -0,0 +1,34 @@
+-- Interests chosen when planning a trip, used again for packing and AI suggestions
+ALTER TABLE public.trips
+  ADD COLUMN IF NOT EXISTS interests TEXT[] NOT NULL DEFAULT '{}';
+
+-- Per-user travel preferences that pre-fill trip planning and personalise AI calls
+CREATE TABLE public.travel_profiles (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  default_interests TEXT[] NOT NULL DEFAULT '{}',
+  budget_min NUMERIC CHECK (budget_min >= 0),
+  budget_max NUMERIC CHECK (budget_max >= 0),
+  home_currency TEXT CHECK (home_currency ~ '^[A-Z]{3}$'),
+  dietary_needs TEXT NOT NULL DEFAULT '' CHECK (char_length(dietary_needs) <= 500),
+  mobility_constraints TEXT NOT NULL DEFAULT '' CHECK (char_length(mobility_constraints) <= 500),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (budget_min IS NULL OR budget_max IS NULL OR budget_min <= budget_max)
+);
+
+CREATE TRIGGER set_travel_profiles_updated_at
+  BEFORE UPDATE ON public.travel_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.travel_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own travel profile"
+  ON public.travel_profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own travel profile"
+  ON public.travel_profiles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own travel profile"
+  ON public.travel_profiles FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,99 @@
+-- Tighten shared trips: editors can't take over a trip, only the owner deletes it,
+-- used invitations can't be replayed and membership changes don't look like edits
+
+-- Ownership and membership only change through trip_members. Editors may update a
+-- trip's content but not its user_id. Nobody writes member_ids directly, not even the
+-- owner: the copy is maintained by sync_trip_member_ids, which runs inside the
+-- trip_members trigger.
+CREATE OR REPLACE FUNCTION public.guard_trip_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id AND public.trip_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can change who owns a trip';
+  END IF;
+  IF NEW.member_ids IS DISTINCT FROM OLD.member_ids AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Trip members are changed through trip_members, not trips.member_ids';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trips_guard_ownership
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.guard_trip_ownership();
+
+-- Joining or leaving a trip isn't an edit of it: keep updated_at so offline clients
+-- don't report a conflict for changes they never made
+CREATE OR REPLACE FUNCTION public.set_trip_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'member_ids' - 'updated_at' = to_jsonb(OLD) - 'member_ids' - 'updated_at' THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_trips_updated_at ON public.trips;
+CREATE TRIGGER set_trips_updated_at
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.set_trip_updated_at();
+
+-- Only the owner deletes a trip
+DROP POLICY IF EXISTS "Users can delete their own trips" ON public.trips;
+
+CREATE POLICY "Owners can delete trips"
+  ON public.trips FOR DELETE
+  USING (public.trip_role(id) = 'owner');
+
+-- Email invitations are consumed by the same statement that checks they're still
+-- pending, so an accepted or declined invitation can't be used again
+CREATE OR REPLACE FUNCTION public.respond_to_trip_invitation(_token TEXT, _accept BOOLEAN)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.trip_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _invitation FROM public.trip_invitations WHERE token = _token;
+  IF NOT FOUND OR _invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+  IF _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+  IF _invitation.email IS NOT NULL AND lower(_invitation.email) <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  -- Shareable links stay open for the next person; email invitations are used up
+  IF _invitation.email IS NOT NULL THEN
+    UPDATE public.trip_invitations
+    SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END, responded_at = now()
+    WHERE id = _invitation.id AND status = 'pending' AND expires_at > now();
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This invitation is no longer valid';
+    END IF;
+  END IF;
+
+  IF _accept THEN
+    -- Existing members keep their role; a link can't downgrade or upgrade anyone
+    INSERT INTO public.trip_members (trip_id, user_id, role)
+    VALUES (_invitation.trip_id, auth.uid(), _invitation.role)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN _invitation.trip_id;
+END;
+$$;
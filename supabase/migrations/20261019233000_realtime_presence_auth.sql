@@ -0,0 +1,25 @@
+-- Presence on trip:<id> topics runs over private channels: realtime checks these policies
+-- before a client can see who has the trip open or announce itself
+
+-- The trip id in a presence topic, or null for anything else
+CREATE OR REPLACE FUNCTION public.trip_id_from_topic(_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _topic ~* '^trip:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN substring(_topic FROM 6)::UUID
+  END
+$$;
+
+CREATE POLICY "Trip members can see presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (extension = 'presence' AND public.is_trip_member(public.trip_id_from_topic(realtime.topic())));
+
+CREATE POLICY "Trip members can share presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (extension = 'presence' AND public.is_trip_member(public.trip_id_from_topic(realtime.topic())));
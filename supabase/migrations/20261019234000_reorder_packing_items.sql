@@ -0,0 +1,12 @@
+-- Moves packing items in one statement so a reorder never leaves two items on the
+-- same position. Runs as the caller, so the packing_items update policy still applies.
+CREATE OR REPLACE FUNCTION public.reorder_packing_items(_ids UUID[], _positions INTEGER[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.packing_items AS item
+  SET position = moved.position
+  FROM unnest(_ids, _positions) AS moved(id, position)
+  WHERE item.id = moved.id
+$$;